@@ -0,0 +1,113 @@
+import 'reflect-metadata';
+import path from 'path';
+import dotenv from 'dotenv';
+import fs from 'fs-extra';
+import { DataSource } from 'typeorm';
+import DB from '../utils/connectors/typeorm.js';
+import logger from '../utils/logger.js';
+
+/*
+ * yarn migrate <command>
+ *   show             lists every migration and whether it has been applied
+ *   run              applies the pending migrations, each in its own transaction
+ *   revert           reverts the last applied migration
+ *   generate <Name>  writes the changes between the entities and the database to app/migrations/<timestamp>-<Name>.ts
+ *                    and registers it in app/utils/migrations.ts, it is meant to be run from the project root
+ */
+
+dotenv.config({ path: `${__dirname}/.env` });
+
+// created by the baseline from outside of the entities, the schema builder would drop them
+const unmanaged = /"IDX_\w+_search_(tsv|trgm)"/;
+
+const show = async (datastore: DataSource) => {
+  await DB.withMigrationExecutor(datastore, async (executor) => {
+    const executed = (await executor.getExecutedMigrations()).map((migration) => migration.name);
+    (await executor.getAllMigrations()).forEach((migration) => {
+      process.stdout.write(`[${executed.includes(migration.name) ? 'X' : ' '}] ${migration.name}\n`);
+    });
+  });
+};
+
+const run = async (datastore: DataSource) => {
+  const applied = await datastore.runMigrations();
+  process.stdout.write(applied.length ? applied.map((migration) => `applied ${migration.name}\n`).join('') : 'nothing to apply\n');
+};
+
+const revert = async (datastore: DataSource) => {
+  const [last] = (await DB.withMigrationExecutor(datastore, (executor) => executor.getExecutedMigrations())).reverse();
+  if (!last) {
+    process.stdout.write('nothing to revert\n');
+    return;
+  }
+  await datastore.undoLastMigration();
+  process.stdout.write(`reverted ${last.name}\n`);
+};
+
+const generate = async (datastore: DataSource, name?: string) => {
+  if (!name || !/^[A-Z][A-Za-z0-9]*$/.test(name)) {
+    throw new Error('Please provide a PascalCase name, e.g. yarn migrate generate AddCatalogOwner');
+  }
+  const sql = await datastore.driver.createSchemaBuilder().log();
+  const up = sql.upQueries.filter((query) => !unmanaged.test(query.query));
+  const down = sql.downQueries.filter((query) => !unmanaged.test(query.query)).reverse();
+  if (!up.length) {
+    process.stdout.write('no changes\n');
+    return;
+  }
+
+  const timestamp = Date.now();
+  const className = `${name}${timestamp}`;
+  const statements = (queries: typeof up) =>
+    queries.map((query) => `    await queryRunner.query(\`${query.query.replace(/`/g, '\\`')}\`${query.parameters?.length ? `, ${JSON.stringify(query.parameters)}` : ''});`).join('\n');
+  const file = path.join('app', 'migrations', `${timestamp}-${name}.ts`);
+  await fs.writeFile(
+    file,
+    `import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ${className} implements MigrationInterface {
+  name = '${className}';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+${statements(up)}
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+${statements(down)}
+  }
+}
+`
+  );
+
+  const index = path.join('app', 'utils', 'migrations.ts');
+  const content = (await fs.readFile(index, 'utf8'))
+    .replace('/* inject: migration-import */', `import { ${className} } from '../migrations/${timestamp}-${name}.js';\n/* inject: migration-import */`)
+    .replace('/* inject: migration-define */', `  ${className},\n/* inject: migration-define */`);
+  await fs.writeFile(index, content);
+  process.stdout.write(`created ${file}\n`);
+};
+
+const commands: { [command: string]: (datastore: DataSource, ...args: string[]) => Promise<void> } = { show, run, revert, generate };
+
+const main = async () => {
+  const [command, ...args] = process.argv.slice(2);
+  if (!commands[command]) {
+    process.stderr.write(`Usage: yarn migrate <${Object.keys(commands).join('|')}>\n`);
+    process.exit(1);
+  }
+
+  let datastore: DataSource | undefined;
+  try {
+    datastore = await new DataSource(DB.getOptions()).initialize();
+    await commands[command](datastore, ...args);
+  } catch (err: unknown) {
+    if (err instanceof Error) {
+      logger.error('[migrate]', err.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    if (datastore?.isInitialized) await datastore.destroy();
+  }
+};
+
+main();
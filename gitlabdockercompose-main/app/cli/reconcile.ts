@@ -0,0 +1,74 @@
+import 'reflect-metadata';
+import path from 'path';
+import dotenv from 'dotenv';
+import fs from 'fs-extra';
+import { omit } from 'lodash';
+import DB from '../utils/connectors/typeorm.js';
+import bundle from '../utils/helpers/bundle.js';
+import logger from '../utils/logger.js';
+import { ApiError, ValidationError } from '../utils/errors.js';
+
+/*
+ * yarn reconcile <directory|file> [--apply]
+ *   prints the plan that makes the records match the desired state (see POST /reconcile), --apply applies it in a single transaction.
+ *   A directory is read as one bundle, the members of its .yaml, .yml and .json files are joined, e.g. sizes.yaml and catalogs.yaml.
+ */
+
+dotenv.config({ path: `${__dirname}/.env` });
+
+const extensions = ['.yaml', '.yml', '.json'];
+
+const read = async (target: string): Promise<IBundle> => {
+  if (!(await fs.stat(target)).isDirectory()) {
+    return bundle.parse(await fs.readFile(target, 'utf8')) as IBundle;
+  }
+  const files = (await fs.readdir(target)).filter((file) => extensions.includes(path.extname(file))).sort();
+  if (!files.length) {
+    throw new Error(`No ${extensions.join(', ')} files in ${target}`);
+  }
+  const joined: IBundle = { version: 0 };
+  for (const file of files) {
+    const { version, ...members } = omit(bundle.parse(await fs.readFile(path.join(target, file), 'utf8')) as IBundle, 'exportedAt');
+    if (joined.version && version !== joined.version) {
+      throw new Error(`${file} is a bundle of version ${version}, the others of version ${joined.version}`);
+    }
+    joined.version = version as number;
+    Object.entries(members).forEach(([member, items]) => {
+      joined[member] = [...((joined[member] as IBundleItem[] | undefined) ?? []), ...(items as IBundleItem[])];
+    });
+  }
+  return joined;
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const target = args.find((arg) => !arg.startsWith('--'));
+  if (!target) {
+    process.stderr.write('Usage: yarn reconcile <directory|file> [--apply]\n');
+    process.exit(1);
+  }
+  const dryRun = !args.includes('--apply');
+
+  try {
+    const desired = await read(target);
+    await DB.init();
+    const changes = await bundle.apply(desired, { dryRun, reconcile: true });
+    process.stdout.write(bundle.plan(changes));
+    if (dryRun && changes.some((change) => change.action !== 'unchanged')) {
+      process.stdout.write('\nNothing applied, run again with --apply to do so.\n');
+    }
+  } catch (err: unknown) {
+    if (err instanceof ValidationError) {
+      logger.error('[reconcile]', err.message, err.errors);
+    } else if (err instanceof ApiError) {
+      logger.error('[reconcile]', err.message, err.extensions);
+    } else if (err instanceof Error) {
+      logger.error('[reconcile]', err.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    if (DB.getDataStore()?.isInitialized) await DB.getDataStore().destroy();
+  }
+};
+
+main();
@@ -0,0 +1,50 @@
+import 'reflect-metadata';
+import dotenv from 'dotenv';
+import DB from '../utils/connectors/typeorm.js';
+import bundle from '../utils/helpers/bundle.js';
+import seed from '../utils/helpers/seed.js';
+import logger from '../utils/logger.js';
+import { ApiError } from '../utils/errors.js';
+
+/*
+ * yarn seed list
+ *   prints the available seed sets
+ * yarn seed <set...> [--dry-run]
+ *   imports the sets by natural key (see helpers/seed.ts), --dry-run prints the changes without applying them.
+ */
+
+dotenv.config({ path: `${__dirname}/.env` });
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const sets = args.filter((arg) => !arg.startsWith('--'));
+  if (!sets.length) {
+    process.stderr.write('Usage: yarn seed list | yarn seed <set...> [--dry-run]\n');
+    process.exit(1);
+  }
+  if (sets[0] === 'list') {
+    process.stdout.write(`${seed.list().join('\n')}\n`);
+    return;
+  }
+  const dryRun = args.includes('--dry-run');
+
+  try {
+    await DB.init();
+    const changes = await seed.run(sets, { dryRun });
+    process.stdout.write(bundle.plan(changes));
+    if (dryRun && changes.some((change) => change.action !== 'unchanged')) {
+      process.stdout.write('\nNothing applied, run again without --dry-run to do so.\n');
+    }
+  } catch (err: unknown) {
+    if (err instanceof ApiError) {
+      logger.error('[seed]', err.message, err.extensions);
+    } else if (err instanceof Error) {
+      logger.error('[seed]', err.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    if (DB.getDataStore()?.isInitialized) await DB.getDataStore().destroy();
+  }
+};
+
+main();
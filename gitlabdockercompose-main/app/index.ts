@@ -1,12 +1,42 @@
 import 'reflect-metadata';
 import server from './server';
+import DB from './utils/connectors/typeorm';
+import inventorySync from './utils/jobs/inventorySync';
+import retention from './utils/jobs/retention';
+import seed from './utils/helpers/seed';
+import permissions from './utils/auth/permissions';
 import { isTestEnv } from './utils/helpers/test';
 import logger from './utils/logger';
+import config from './utils/config';
 
-const port = process.env.SERVER_PORT;
-server.listen(port, () => {
-  if (!isTestEnv()) logger.info('SERVER STARTED');
-  if (!isTestEnv()) logger.info(`Server listening on port ${process.env.SERVER_PORT}`);
-});
+const { port } = config.get().server;
+
+if (!isTestEnv()) logger.info('[config]', config.describe());
+
+/*
+ * Listens only once the database is reachable and migrated, the permissions are readable and the SEED_SETS are seeded, exits otherwise so the orchestrator restarts the container
+ */
+DB.init()
+  .then(async () => {
+    permissions.load();
+    const { sets } = config.get().seed;
+    if (sets.length && !isTestEnv()) {
+      const changes = await seed.run(sets);
+      const count = (action: string) => changes.filter((change) => change.action === action).length;
+      logger.info('[seed]', `${sets.join(', ')}: ${count('create')} created, ${count('update')} updated, ${count('unchanged')} unchanged`);
+    }
+    if (!isTestEnv()) {
+      inventorySync.start();
+      retention.start();
+    }
+    server.listen(port, () => {
+      if (!isTestEnv()) logger.info('SERVER STARTED');
+      if (!isTestEnv()) logger.info(`Server listening on port ${port}`);
+    });
+  })
+  .catch((err: Error) => {
+    logger.error('[startup]', err.message);
+    process.exit(1);
+  });
 
 export default server;
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/*
+ * Schema of the entities as synchronize used to create it, plus the search indexes that used to be created at startup.
+ * Every statement is skipped when its object already exists, so databases set up by synchronize only record the migration
+ * and get what they are missing.
+ */
+export class Baseline1792402200000 implements MigrationInterface {
+  name = 'Baseline1792402200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "size" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "cpus" integer NOT NULL, "ram" integer NOT NULL, "storage" integer NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_66e3a0111d969aa0e5f73855c7a" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "os_language" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_2a5d4dbec48a8cc5dc05c125637" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "os_family" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "shortName" character varying(6) NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_ea0b4cf6d33f25236cda9f64e4b" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "endpoint" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "shortName" character varying NOT NULL, "url" character varying NOT NULL, "username" character varying NOT NULL, "password" character varying NOT NULL, "availableClusters" text array NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_7785c5c2cf24e6ab3abb7a2e89f" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "location" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "availableNetworks" text array NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, "endpointId" integer, CONSTRAINT "PK_876d7bdba03c72251ec4c2dc827" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "approval_policy" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "policies" json NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_06da9549a940994965e137d4b8a" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "os_template" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "templateId" character varying NOT NULL, "availableNetwork" character varying NOT NULL, "networkUnavailable" boolean NOT NULL DEFAULT false, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, "osFamilyId" integer, "locationId" integer, CONSTRAINT "PK_6853e5ebf262a4e208d58debe13" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "catalog" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "icon" text, "shortName" character varying NOT NULL, "defaultLeasePeriod" integer NOT NULL, "permittedMaxLeaseExtensions" integer NOT NULL, "type" character varying NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, "defaultTemplateId" integer, "defaultApprovalPolicyId" integer, CONSTRAINT "PK_782754bded12b4e75ad4afff913" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "role_permission" ("id" SERIAL NOT NULL, "role" character varying NOT NULL, "permission" character varying NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_96c8f1fd25538d3692024115b47" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "endpoint_drift" ("id" SERIAL NOT NULL, "status" character varying NOT NULL, "report" json NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, "endpointId" integer, CONSTRAINT "PK_1ff6533f4f709bdfc07f562fd7b" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS "audit_log" ("id" SERIAL NOT NULL, "entity" character varying NOT NULL, "entityId" integer NOT NULL, "action" character varying NOT NULL, "changes" json NOT NULL, "actor" character varying, "requestId" character varying, "ip" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_07fefa57f7f5ab8fc3f52b3ed0b" PRIMARY KEY ("id"))`);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_85b0fd70b73374a07cd0d78e0b" ON "role_permission" ("role", "permission")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_e3a9d2038eafa6c7cfe9e40853" ON "audit_log" ("entity", "entityId")`);
+    // tables synchronize created before the columns were added, ahead of the foreign keys on them
+    await queryRunner.query(`ALTER TABLE "location" ADD COLUMN IF NOT EXISTS "endpointId" integer`);
+    await queryRunner.query(`ALTER TABLE "os_template" ADD COLUMN IF NOT EXISTS "networkUnavailable" boolean NOT NULL DEFAULT false`);
+    await this.addForeignKey(queryRunner, 'location', 'FK_abdfeb34f3030e7b7b6cd97309d', `FOREIGN KEY ("endpointId") REFERENCES "endpoint"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await this.addForeignKey(queryRunner, 'os_template', 'FK_322bbe91f3c5c47bac596ac55a6', `FOREIGN KEY ("osFamilyId") REFERENCES "os_family"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await this.addForeignKey(queryRunner, 'os_template', 'FK_56171b8adb499ed8bb5f13a5afe', `FOREIGN KEY ("locationId") REFERENCES "location"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await this.addForeignKey(queryRunner, 'catalog', 'FK_89f695cb59fb5d36aeedc6c7f25', `FOREIGN KEY ("defaultTemplateId") REFERENCES "os_template"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await this.addForeignKey(queryRunner, 'catalog', 'FK_c6ffef4f9f32c3d6e988ecc593a', `FOREIGN KEY ("defaultApprovalPolicyId") REFERENCES "approval_policy"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`);
+    await this.addForeignKey(queryRunner, 'endpoint_drift', 'FK_0cf46711846bf2fcc87a30741d1', `FOREIGN KEY ("endpointId") REFERENCES "endpoint"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_catalog_search_tsv" ON "catalog" USING gin (to_tsvector('simple', (coalesce("name", '') || ' ' || coalesce("shortName", ''))))`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_catalog_search_trgm" ON "catalog" USING gin ((coalesce("name", '') || ' ' || coalesce("shortName", '')) gin_trgm_ops)`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_os_template_search_tsv" ON "os_template" USING gin (to_tsvector('simple', coalesce("name", '')))`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_os_template_search_trgm" ON "os_template" USING gin (coalesce("name", '') gin_trgm_ops)`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_os_family_search_tsv" ON "os_family" USING gin (to_tsvector('simple', (coalesce("name", '') || ' ' || coalesce("shortName", ''))))`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_os_family_search_trgm" ON "os_family" USING gin ((coalesce("name", '') || ' ' || coalesce("shortName", '')) gin_trgm_ops)`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_location_search_tsv" ON "location" USING gin (to_tsvector('simple', coalesce("name", '')))`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_location_search_trgm" ON "location" USING gin (coalesce("name", '') gin_trgm_ops)`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_size_search_tsv" ON "size" USING gin (to_tsvector('simple', coalesce("name", '')))`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_size_search_trgm" ON "size" USING gin (coalesce("name", '') gin_trgm_ops)`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_endpoint_search_tsv" ON "endpoint" USING gin (to_tsvector('simple', (coalesce("name", '') || ' ' || coalesce("shortName", ''))))`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_endpoint_search_trgm" ON "endpoint" USING gin ((coalesce("name", '') || ' ' || coalesce("shortName", '')) gin_trgm_ops)`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_endpoint_search_trgm"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_endpoint_search_tsv"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_size_search_trgm"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_size_search_tsv"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_location_search_trgm"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_location_search_tsv"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_os_family_search_trgm"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_os_family_search_tsv"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_os_template_search_trgm"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_os_template_search_tsv"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_catalog_search_trgm"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_catalog_search_tsv"`);
+    await queryRunner.query(`ALTER TABLE "endpoint_drift" DROP CONSTRAINT IF EXISTS "FK_0cf46711846bf2fcc87a30741d1"`);
+    await queryRunner.query(`ALTER TABLE "catalog" DROP CONSTRAINT IF EXISTS "FK_c6ffef4f9f32c3d6e988ecc593a"`);
+    await queryRunner.query(`ALTER TABLE "catalog" DROP CONSTRAINT IF EXISTS "FK_89f695cb59fb5d36aeedc6c7f25"`);
+    await queryRunner.query(`ALTER TABLE "os_template" DROP CONSTRAINT IF EXISTS "FK_56171b8adb499ed8bb5f13a5afe"`);
+    await queryRunner.query(`ALTER TABLE "os_template" DROP CONSTRAINT IF EXISTS "FK_322bbe91f3c5c47bac596ac55a6"`);
+    await queryRunner.query(`ALTER TABLE "location" DROP CONSTRAINT IF EXISTS "FK_abdfeb34f3030e7b7b6cd97309d"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "audit_log"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "endpoint_drift"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "role_permission"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "catalog"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "os_template"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "approval_policy"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "location"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "endpoint"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "os_family"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "os_language"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "size"`);
+  }
+
+  // Postgres has no IF NOT EXISTS for constraints, the names are only unique per table
+  private async addForeignKey(queryRunner: QueryRunner, table: string, name: string, definition: string): Promise<void> {
+    const existing = await queryRunner.query(`SELECT 1 FROM pg_constraint WHERE conname = $1 AND conrelid = $2::regclass`, [name, `"${table}"`]);
+    if (existing.length) return;
+    await queryRunner.query(`ALTER TABLE "${table}" ADD CONSTRAINT "${name}" ${definition}`);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/*
+ * Version column of the optimistic concurrency checks (If-Match), existing rows start at version 1.
+ * The audit log is only ever appended to and has none.
+ */
+const tables = ['size', 'os_language', 'os_family', 'endpoint', 'location', 'approval_policy', 'os_template', 'catalog', 'role_permission', 'endpoint_drift'];
+
+export class EntityVersion1792488600000 implements MigrationInterface {
+  name = 'EntityVersion1792488600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of tables) {
+      await queryRunner.query(`ALTER TABLE "${table}" ADD "version" integer NOT NULL DEFAULT 1`);
+      // TypeORM sets the version itself, a default would only show up as schema drift
+      await queryRunner.query(`ALTER TABLE "${table}" ALTER COLUMN "version" DROP DEFAULT`);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of [...tables].reverse()) {
+      await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "version"`);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/*
+ * Marks the records written by a reconcile, every existing one starts out as managed by hand
+ */
+const tables = ['size', 'os_language', 'os_family', 'endpoint', 'location', 'approval_policy', 'os_template', 'catalog'];
+
+export class ManagedRecords1792575000000 implements MigrationInterface {
+  name = 'ManagedRecords1792575000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const table of tables) {
+      await queryRunner.query(`ALTER TABLE "${table}" ADD "managed" boolean NOT NULL DEFAULT false`);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of [...tables].reverse()) {
+      await queryRunner.query(`ALTER TABLE "${table}" DROP COLUMN "managed"`);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column } from 'typeorm';
 
 @Entity('approval_policy')
 export class ApprovalPolicy {
@@ -11,6 +11,9 @@ export class ApprovalPolicy {
   @Column({ type: 'json' })
   policies!: Array<IApprovalPolicyPolicies>;
 
+  @Column({ default: false })
+  managed!: boolean;
+
   @Column({ nullable: true })
   createdBy!: string;
 
@@ -28,4 +31,7 @@ export class ApprovalPolicy {
 
   @DeleteDateColumn()
   deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
 }
@@ -0,0 +1,32 @@
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, Column, Index } from 'typeorm';
+
+@Entity('audit_log')
+@Index(['entity', 'entityId'])
+export class AuditLog {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  entity!: string;
+
+  @Column()
+  entityId!: number;
+
+  @Column()
+  action!: 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+  @Column({ type: 'json' })
+  changes!: IAuditChanges;
+
+  @Column({ nullable: true })
+  actor!: string;
+
+  @Column({ nullable: true })
+  requestId!: string;
+
+  @Column({ nullable: true })
+  ip!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
 import { ApprovalPolicy } from './approvalPolicy';
 import { OsTemplate } from './osTemplate';
 
@@ -11,7 +11,7 @@ export class Catalog {
   name!: string;
 
   @Column({ type: 'text', nullable: true })
-  icon?: string;
+  icon?: string | null;
 
   @Column()
   shortName!: string;
@@ -33,6 +33,9 @@ export class Catalog {
   @Column()
   type!: 'Standard' | 'Custom';
 
+  @Column({ default: false })
+  managed!: boolean;
+
   @Column({ nullable: true })
   createdBy!: string;
 
@@ -50,4 +53,7 @@ export class Catalog {
 
   @DeleteDateColumn()
   deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
 }
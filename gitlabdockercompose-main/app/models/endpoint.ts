@@ -1,4 +1,5 @@
-import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column } from 'typeorm';
+import encryption from '../utils/helpers/encryption.js';
 
 @Entity('endpoint')
 export class Endpoint {
@@ -17,12 +18,16 @@ export class Endpoint {
   @Column()
   username!: string;
 
-  @Column()
+  // write-only, stored encrypted and never selected unless asked for explicitly
+  @Column({ select: false, transformer: encryption.encrypted })
   password!: string;
 
   @Column({ type: 'text', array: true })
   availableClusters!: Array<string>;
 
+  @Column({ default: false })
+  managed!: boolean;
+
   @Column({ nullable: true })
   createdBy!: string;
 
@@ -40,4 +45,7 @@ export class Endpoint {
 
   @DeleteDateColumn()
   deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
 }
@@ -0,0 +1,39 @@
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Endpoint } from './endpoint.js';
+
+@Entity('endpoint_drift')
+export class EndpointDrift {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Endpoint, { onDelete: 'CASCADE' })
+  @JoinColumn()
+  endpoint!: Endpoint;
+
+  @Column()
+  status!: 'pending' | 'applied' | 'in-sync';
+
+  @Column({ type: 'json' })
+  report!: IInventoryDriftReport;
+
+  @Column({ nullable: true })
+  createdBy!: string;
+
+  @Column({ nullable: true })
+  updatedBy!: string;
+
+  @Column({ nullable: true })
+  deletedBy!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @DeleteDateColumn()
+  deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
+}
@@ -1,4 +1,5 @@
-import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Endpoint } from './endpoint.js';
 
 @Entity('location')
 export class Location {
@@ -11,6 +12,13 @@ export class Location {
   @Column({ type: 'text', array: true })
   availableNetworks!: Array<string>;
 
+  @ManyToOne(() => Endpoint, { nullable: true })
+  @JoinColumn()
+  endpoint?: Endpoint | null;
+
+  @Column({ default: false })
+  managed!: boolean;
+
   @Column({ nullable: true })
   createdBy!: string;
 
@@ -28,4 +36,7 @@ export class Location {
 
   @DeleteDateColumn()
   deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
 }
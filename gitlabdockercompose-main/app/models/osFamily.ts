@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column } from 'typeorm';
 
 @Entity('os_family')
 export class OsFamily {
@@ -11,6 +11,9 @@ export class OsFamily {
   @Column({ length: 6 })
   shortName!: string;
 
+  @Column({ default: false })
+  managed!: boolean;
+
   @Column({ nullable: true })
   createdBy!: string;
 
@@ -28,4 +31,7 @@ export class OsFamily {
 
   @DeleteDateColumn()
   deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
 }
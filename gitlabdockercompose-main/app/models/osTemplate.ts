@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
 import { OsFamily } from './osFamily.js';
 import { Location } from './location.js';
 
@@ -24,6 +24,13 @@ export class OsTemplate {
   @Column()
   availableNetwork!: string;
 
+  // set by the inventory sync when availableNetwork is no longer part of the location
+  @Column({ default: false })
+  networkUnavailable!: boolean;
+
+  @Column({ default: false })
+  managed!: boolean;
+
   @Column({ nullable: true })
   createdBy!: string;
 
@@ -41,4 +48,7 @@ export class OsTemplate {
 
   @DeleteDateColumn()
   deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
 }
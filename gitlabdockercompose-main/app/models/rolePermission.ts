@@ -0,0 +1,35 @@
+import { Entity, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Column, Index } from 'typeorm';
+
+@Entity('role_permission')
+@Index(['role', 'permission'], { unique: true })
+export class RolePermission {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column()
+  role!: string;
+
+  @Column()
+  permission!: string;
+
+  @Column({ nullable: true })
+  createdBy!: string;
+
+  @Column({ nullable: true })
+  updatedBy!: string;
+
+  @Column({ nullable: true })
+  deletedBy!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @DeleteDateColumn()
+  deletedAt!: Date;
+
+  @VersionColumn()
+  version!: number;
+}
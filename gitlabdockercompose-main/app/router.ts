@@ -7,6 +7,11 @@ import endpointRouter from './routes/endpoint.js';
 import approvalPolicyRouter from './routes/approvalPolicy.js';
 import osTemplateRouter from './routes/osTemplate.js';
 import catalogRouter from './routes/catalog.js';
+import meRouter from './routes/me.js';
+import searchRouter from './routes/search.js';
+import auditRouter from './routes/audit.js';
+import bundleRouter from './routes/bundle.js';
+import healthRouter from './routes/health.js';
 /* inject: route-import */
 
 const init: (app: Express) => void = (app) => {
@@ -18,6 +23,11 @@ const init: (app: Express) => void = (app) => {
   app.use('/approvalpolicy', approvalPolicyRouter);
   app.use('/ostemplate', osTemplateRouter);
   app.use('/catalog', catalogRouter);
+  app.use('/me', meRouter);
+  app.use('/search', searchRouter);
+  app.use('/audit', auditRouter);
+  app.use('/', bundleRouter);
+  app.use('/', healthRouter);
 /* inject: route-define */
 };
 
@@ -1,19 +1,99 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { isEmpty, orderBy, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
+import history from '../utils/helpers/history.js';
 import DB from '../utils/connectors/typeorm.js';
 import { ApprovalPolicy } from '../models/approvalPolicy.js';
-import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    policies: Joi.array()
+      .items(
+        Joi.object()
+          .keys({
+            userGroups: Joi.string().required().error(message('Please provide a valid userGroups')),
+            expiresInDays: Joi.number().required().error(message('Please provide a valid number for expiresInDays')),
+            defaultAction: Joi.string().required().error(message('Please provide a valid defaultAction')),
+          })
+          .required()
+          .error(message('Please provide a valid object for policies'))
+      )
+      .required()
+      .error(message('Please provide a valid array for policies')),
+  }),
+});
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'approvalpolicy',
+  entity: ApprovalPolicy,
+  create: async (manager: EntityManager, b: IApprovalPolicy, req: express.Request) => {
+    problem.validate(createSchema, { b });
+
+    const approvalpolicy = new ApprovalPolicy();
+    approvalpolicy.name = b.name;
+    approvalpolicy.policies = b.policies;
+    approvalpolicy.createdBy = req.user?.id;
+    approvalpolicy.updatedBy = req.user?.id;
+    return manager.getRepository(ApprovalPolicy).save(approvalpolicy);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<IApprovalPolicy>, req: express.Request) => {
+    const ApprovalPolicyRepository = manager.getRepository(ApprovalPolicy);
+    const approvalpolicy = await ApprovalPolicyRepository.findOneBy({ id });
+    if (!approvalpolicy) {
+      throw new NotFoundError();
+    }
+    managed.check(req, approvalpolicy);
+
+    const b = { ...pick(approvalpolicy, ['name', 'policies']), ...changes };
+    problem.validate(createSchema, { b });
+
+    approvalpolicy.name = b.name;
+    approvalpolicy.policies = b.policies;
+    approvalpolicy.updatedBy = req.user?.id;
+    return ApprovalPolicyRepository.save(approvalpolicy);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'policies'],
+  json: ['policies'],
+};
+
 /* inject: upload-init */
 
 /**
@@ -25,6 +105,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -38,10 +130,17 @@ const router = express.Router();
  * @api {get} /approvalpolicy/?page=1&limit=1 Fetch all approvalpolicies
  * @apiName fetchAllApprovalPolicies
  * @apiGroup ApprovalPolicies
- * @apiPermission 'all'
+ * @apiPermission 'approvalpolicy:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted approvalpolicies, requires 'approvalpolicy:admin'
+ * @apiQuery {string} [asOf] ISO date to list the approvalpolicies as they were at that instant, can't be combined with filter, cursor or withDeleted
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -86,77 +185,96 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        policies: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for policies')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        policies: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for policies')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllApprovalPolicies]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('approvalpolicy:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'approvalpolicy:admin'), problem.handle('fetchAllApprovalPolicies', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+      asOf: Joi.date().iso().error(message('Please provide a valid asOf')).optional(),
+    })
+      .without('asOf', ['filter', 'cursor', 'withDeleted'])
+      .messages({ 'object.without': 'Please provide asOf without filter, cursor or withDeleted' }),
+    fields: Joi.object().keys({
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      policies: Joi.boolean().valid(true).error(message('Please provide a valid field option for policies')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      policies: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for policies')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
+  // rebuilt from the audit log
+  if (typeof q.asOf === 'string') {
+    const records = orderBy(await history.find('approvalpolicy', new Date(q.asOf), { relations: q.relations === 'true' || q.format === 'csv' }), Object.keys(sort), Object.values(sort).map(String) as Array<'asc' | 'desc'>);
+    if (q.format === 'csv') {
+      return csv.send(res, 'approvalpolicies.csv', csvColumns, csv.columns(csvColumns, fields), [records]);
     }
+    const result = records.slice(page * limit, (page + 1) * limit).map((record) => (isEmpty(fields) ? record : pick(record, Object.keys(fields))));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicies: result, count: records.length, pages: Math.ceil(records.length / limit) });
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    const [result, count] = await ApprovalPolicyRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicies: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllApprovalPolicies]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
+
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
+
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
   }
-});
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
+  }
+
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  if (q.format === 'csv') {
+    return csv.send(res, 'approvalpolicies.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(ApprovalPolicyRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(ApprovalPolicyRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicies: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /approvalpolicy/:approvalpolicyId Fetch approvalpolicy with given Id
  * @apiName fetchApprovalPolicy
  * @apiGroup ApprovalPolicies
- * @apiPermission 'all'
+ * @apiPermission 'approvalpolicy:read'
  *
  * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
+ * @apiQuery {string} [asOf] ISO date to fetch the approvalpolicy as it was at that instant
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -189,60 +307,60 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:approvalpolicyId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:approvalpolicyId', permit.can('approvalpolicy:read'), problem.handle('fetchApprovalPolicy', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.approvalpolicyId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for approvalpolicyId')),
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      asOf: Joi.date().iso().error(message('Please provide a valid asOf')).optional(),
     }),
     fields: Joi.object().keys({
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      policies: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for policies')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      policies: Joi.boolean().valid(true).error(message('Please provide a valid field option for policies')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchApprovalPolicy]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q, fields });
+
+  // rebuilt from the audit log
+  if (typeof q.asOf === 'string') {
+    const [approvalpolicy] = await history.find('approvalpolicy', new Date(q.asOf), { ids: [id], relations: q.relations === 'true' });
+    if (!approvalpolicy) {
+      throw new NotFoundError();
+    }
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy: isEmpty(fields) ? approvalpolicy : pick(approvalpolicy, Object.keys(fields)) });
   }
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    const approvalpolicy = await ApprovalPolicyRepository.findOne(query);
-    if (!approvalpolicy) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchApprovalPolicy]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  const approvalpolicy = await ApprovalPolicyRepository.findOne(query);
+  if (!approvalpolicy) {
+    throw new NotFoundError();
   }
-});
+  etag.set(res, approvalpolicy);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
+}));
 
 /**
  * @api {post} /approvalpolicy/ Create approvalpolicy
  * @apiName createApprovalPolicy
  * @apiGroup ApprovalPolicies
- * @apiPermission 'all'
+ * @apiPermission 'approvalpolicy:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -266,52 +384,84 @@ router.get('/:approvalpolicyId', permit.allow('all'), async (req: express.Reques
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('approvalpolicy:write'), problem.handle('createApprovalPolicy', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: IApprovalPolicy = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      policies: Joi.array()
-        .items(
-          Joi.object()
-            .keys({
-              userGroups: Joi.string().required().error(new Error('Please provide a valid userGroups')),
-              expiresInDays: Joi.number().required().error(new Error('Please provide a valid number for expiresInDays')),
-              defaultAction: Joi.string().required().error(new Error('Please provide a valid defaultAction')),
-            })
-            .required()
-            .error(new Error('Please provide a valid object for policies'))
-        )
-        .required()
-        .error(new Error('Please provide a valid array for policies')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createApprovalPolicy]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(createSchema, { b });
 
-  try {
-    const approvalpolicy = new ApprovalPolicy();
-    approvalpolicy.name = b.name;
-    approvalpolicy.policies = b.policies;
-    approvalpolicy.createdBy = req.user?.id;
-    approvalpolicy.updatedBy = req.user?.id;
+  const approvalpolicy = new ApprovalPolicy();
+  approvalpolicy.name = b.name;
+  approvalpolicy.policies = b.policies;
+  approvalpolicy.createdBy = req.user?.id;
+  approvalpolicy.updatedBy = req.user?.id;
 
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    await ApprovalPolicyRepository.save(approvalpolicy);
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  await ApprovalPolicyRepository.save(approvalpolicy);
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createApprovalPolicy]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
+}));
+
+/**
+ * @api {post} /approvalpolicy/bulk Create, update and delete approvalpolicies in bulk
+ * @apiName bulkApprovalPolicies
+ * @apiGroup ApprovalPolicies
+ * @apiPermission 'approvalpolicy:write', 'approvalpolicy:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "Default", "policies": [{ "userGroups": "admins", "expiresInDays": 7, "defaultAction": "approve" }] }],
+ *         "update": [{ "id": 2, "name": "Strict" }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('approvalpolicy:write'), permit.canIf(bulk.deletes, 'approvalpolicy:delete'), problem.handle('bulkApprovalPolicies', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkApprovalPolicies', writes)));
+
+/**
+ * @api {post} /approvalpolicy/import/csv Import approvalpolicies from CSV
+ * @apiName importApprovalPoliciesCsv
+ * @apiGroup ApprovalPolicies
+ * @apiPermission 'approvalpolicy:write'
+ * @apiDescription Creates a approvalpolicy from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Files of GET /approvalpolicy?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,policies
+ *     Default,"[{""userGroups"":""admins"",""expiresInDays"":7,""defaultAction"":""approve""}]"
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('approvalpolicy:write'), csv.receive, problem.handle('importApprovalPoliciesCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -319,9 +469,10 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /approvalpolicy/:approvalpolicyId Update approvalpolicy
  * @apiName updateApprovalPolicy
  * @apiGroup ApprovalPolicies
- * @apiPermission 'all'
+ * @apiPermission 'approvalpolicy:write'
  *
  * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Policy 1",
@@ -344,39 +495,37 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:approvalpolicyId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:approvalpolicyId', permit.can('approvalpolicy:write'), problem.handle('updateApprovalPolicy', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.approvalpolicyId, 10);
   const b: Partial<IApprovalPolicy> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for approvalpolicyId')),
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
+      name: Joi.string().error(message('Please provide a valid name')),
       policies: Joi.array()
         .items(
           Joi.object()
             .keys({
-              userGroups: Joi.string().error(new Error('Please provide a valid userGroups')),
-              expiresInDays: Joi.number().error(new Error('Please provide a valid number for expiresInDays')),
-              defaultAction: Joi.string().error(new Error('Please provide a valid defaultAction')),
+              userGroups: Joi.string().error(message('Please provide a valid userGroups')),
+              expiresInDays: Joi.number().error(message('Please provide a valid number for expiresInDays')),
+              defaultAction: Joi.string().error(message('Please provide a valid defaultAction')),
             })
-            .error(new Error('Please provide a valid object for policies'))
+            .error(message('Please provide a valid object for policies'))
         )
-        .error(new Error('Please provide a valid array for policies')),
+        .error(message('Please provide a valid array for policies')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateApprovalPolicy]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
   const approvalpolicy = await ApprovalPolicyRepository.findOneBy({ id });
   if (!approvalpolicy) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, approvalpolicy);
+  managed.check(req, approvalpolicy);
 
   if (typeof b.name !== 'undefined') {
     approvalpolicy.name = b.name;
@@ -386,26 +535,89 @@ router.put('/:approvalpolicyId', permit.allow('all'), async (req: express.Reques
     approvalpolicy.policies = b.policies;
   }
 
-  try {
-    approvalpolicy.updatedBy = req.user?.id;
-    await ApprovalPolicyRepository.save(approvalpolicy);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateApprovalPolicy]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  approvalpolicy.updatedBy = req.user?.id;
+  await etag.write(req, ApprovalPolicy, approvalpolicy, (manager) => manager.save(approvalpolicy));
+  etag.set(res, approvalpolicy);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
+}));
+
+/**
+ * @api {patch} /approvalpolicy/:approvalpolicyId Patch approvalpolicy
+ * @apiName patchApprovalPolicy
+ * @apiGroup ApprovalPolicies
+ * @apiPermission 'approvalpolicy:write'
+ *
+ * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/json-patch+json):
+ *     [
+ *         { "op": "replace", "path": "/policies/0/expiresInDays", "value": 14 }
+ *     ]
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "approvalpolicy": {
+ *         "id": 1,
+ *         "name": "Policy 1",
+ *         "policies": [{ "userGroups": "admin | moderator", "expiresInDays": 7, "defaultAction": "accept | reject"}],
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:approvalpolicyId', permit.can('approvalpolicy:write'), problem.handle('patchApprovalPolicy', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.approvalpolicyId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
+  });
+  problem.validate(schema, { id });
+
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  const approvalpolicy = await ApprovalPolicyRepository.findOneBy({ id });
+  if (!approvalpolicy) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, approvalpolicy);
+  managed.check(req, approvalpolicy);
+
+  const b = patch.apply(req, pick(approvalpolicy, ['name', 'policies']));
+  problem.validate(createSchema, { b });
+
+  approvalpolicy.name = b.name;
+  approvalpolicy.policies = b.policies;
+  approvalpolicy.updatedBy = req.user?.id;
+  await etag.write(req, ApprovalPolicy, approvalpolicy, (manager) => manager.save(approvalpolicy));
+  etag.set(res, approvalpolicy);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /approvalpolicy/:approvalpolicyId Delete approvalpolicy
  * @apiName deleteApprovalPolicy
  * @apiGroup ApprovalPolicies
- * @apiPermission 'all'
+ * @apiPermission 'approvalpolicy:delete', 'approvalpolicy:admin' to purge
  *
  * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the approvalpolicy for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the approvalpolicy, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -415,41 +627,201 @@ router.put('/:approvalpolicyId', permit.allow('all'), async (req: express.Reques
  * @apiUse ErrorBlock
  */
 
-router.delete('/:approvalpolicyId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:approvalpolicyId', permit.can('approvalpolicy:delete'), permit.canIf((req) => req.query.hard === 'true', 'approvalpolicy:admin'), problem.handle('deleteApprovalPolicy', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.approvalpolicyId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for approvalpolicyId')),
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteApprovalPolicy]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  const hard = q.hard === 'true';
+
+  const approvalpolicy = await ApprovalPolicyRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!approvalpolicy) {
+    throw new NotFoundError();
   }
+  etag.check(req, approvalpolicy);
+  managed.check(req, approvalpolicy);
 
-  try {
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    const approvalpolicy = await ApprovalPolicyRepository.findOneBy({ id });
-    if (!approvalpolicy) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('approvalpolicy', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('approvalpolicy', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, ApprovalPolicy, approvalpolicy, (manager) => integrity.remove('approvalpolicy', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    approvalpolicy.deletedBy = req.user?.id;
-    await ApprovalPolicyRepository.save(approvalpolicy);
+  if (hard) {
+    await etag.write(req, ApprovalPolicy, approvalpolicy, (manager) => manager.remove(approvalpolicy));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await ApprovalPolicyRepository.softDelete(id);
+  approvalpolicy.deletedBy = req.user?.id;
+  await etag.write(req, ApprovalPolicy, approvalpolicy, async (manager) => {
+    await manager.save(approvalpolicy);
+    await manager.softRemove(approvalpolicy);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteApprovalPolicy]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /approvalpolicy/:approvalpolicyId/dependents Fetch records depending on approvalpolicy
+ * @apiName fetchApprovalPolicyDependents
+ * @apiGroup ApprovalPolicies
+ * @apiPermission 'approvalpolicy:read'
+ *
+ * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:approvalpolicyId/dependents', permit.can('approvalpolicy:read'), problem.handle('fetchApprovalPolicyDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.approvalpolicyId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  const approvalpolicy = await ApprovalPolicyRepository.findOneBy({ id });
+  if (!approvalpolicy) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('approvalpolicy', id) : await integrity.getDependents('approvalpolicy', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /approvalpolicy/:approvalpolicyId/restore Restore deleted approvalpolicy
+ * @apiName restoreApprovalPolicy
+ * @apiGroup ApprovalPolicies
+ * @apiPermission 'approvalpolicy:admin'
+ *
+ * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "approvalpolicy": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:approvalpolicyId/restore', permit.can('approvalpolicy:admin'), problem.handle('restoreApprovalPolicy', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.approvalpolicyId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
+  });
+  problem.validate(schema, { id });
+
+  const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
+  const approvalpolicy = await ApprovalPolicyRepository.findOne({ where: { id }, withDeleted: true });
+  if (!approvalpolicy) {
+    throw new NotFoundError();
+  }
+  if (!approvalpolicy.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(ApprovalPolicy);
+    await repository.recover(approvalpolicy);
+    await repository.save(Object.assign(approvalpolicy, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, approvalpolicy: restored });
+}));
+
+/**
+ * @api {get} /approvalpolicy/:approvalpolicyId/history Fetch change history of approvalpolicy
+ * @apiName fetchApprovalPolicyHistory
+ * @apiGroup ApprovalPolicies
+ * @apiPermission 'approvalpolicy:read' and 'audit:read'
+ *
+ * @apiParam approvalpolicyId ApprovalPolicy's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "approvalpolicy",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:approvalpolicyId/history', permit.can('approvalpolicy:read', 'audit:read'), problem.handle('fetchApprovalPolicyHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.approvalpolicyId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for approvalpolicyId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'approvalpolicy', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
@@ -0,0 +1,121 @@
+import express from 'express';
+import HttpStatus from 'http-status';
+import { ObjectSchema } from 'joi';
+import { FindOptionsWhere, LessThanOrEqual, MoreThanOrEqual, And } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import audit from '../utils/helpers/audit.js';
+import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import { AuditLog } from '../models/auditLog.js';
+import { Status } from '../types/enums/Status.js';
+import { ErrorCodes } from '../types/errors/codes.js';
+import { ErrorMessages } from '../types/errors/messages.js';
+
+const router = express.Router();
+
+/**
+ * @apiDefine ErrorBlock
+ * @apiErrorExample {json} Error-Response:
+ *     HTTP/1.1 200 Complete
+ *     {
+ *       "status": "error",
+ *       "code": XXXX,
+ *       "error": <i>Error message.</i>
+ *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
+ */
+
+/**
+ * @api {get} /audit?entity=catalog&entityId=12 Fetch audit log entries
+ * @apiName fetchAuditLog
+ * @apiGroup Audit
+ * @apiPermission 'audit:read'
+ *
+ * @apiQuery {string} [entity] Kind of the changed record (size, oslanguage, osfamily, location, endpoint, approvalpolicy, ostemplate, catalog)
+ * @apiQuery {number} [entityId] Id of the changed record, needs entity
+ * @apiQuery {string} [action] One of create, update, delete, restore, purge
+ * @apiQuery {string} [actor] Id of the user who made the change
+ * @apiQuery {string} [from] Entries made at or after this ISO date
+ * @apiQuery {string} [to] Entries made at or before this ISO date
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "entries": [{
+ *         "id": 31,
+ *         "entity": "catalog",
+ *         "entityId": 12,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "Ubuntu VM", "to": "Ubuntu 22.04 VM" }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/', permit.can('audit:read'), problem.handle('fetchAuditLog', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      entity: Joi.string()
+        .valid(...audit.kinds)
+        .error(message('Please provide a valid entity'))
+        .optional(),
+      entityId: Joi.number().integer().error(message('Please provide a valid entityId')).optional(),
+      action: Joi.string()
+        .valid(...audit.actions)
+        .error(message('Please provide a valid action'))
+        .optional(),
+      actor: Joi.string().error(message('Please provide a valid actor')).optional(),
+      from: Joi.date().iso().error(message('Please provide a valid from')).optional(),
+      to: Joi.date().iso().error(message('Please provide a valid to')).optional(),
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }).with('entityId', 'entity'),
+  });
+  problem.validate(schema, { q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  const where: FindOptionsWhere<AuditLog> = {};
+  if (typeof q.entity === 'string') where.entity = q.entity;
+  if (typeof q.entityId === 'string') where.entityId = parseInt(q.entityId, 10);
+  if (typeof q.action === 'string') where.action = q.action as IAuditLog['action'];
+  if (typeof q.actor === 'string') where.actor = q.actor;
+  if (typeof q.from === 'string' && typeof q.to === 'string') {
+    where.createdAt = And(MoreThanOrEqual(new Date(q.from)), LessThanOrEqual(new Date(q.to)));
+  } else if (typeof q.from === 'string') {
+    where.createdAt = MoreThanOrEqual(new Date(q.from));
+  } else if (typeof q.to === 'string') {
+    where.createdAt = LessThanOrEqual(new Date(q.to));
+  }
+
+  const { entries, count, pages } = await audit.find(where, { page, limit });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, entries, count, pages });
+}));
+
+export default router;
@@ -0,0 +1,225 @@
+import express from 'express';
+import HttpStatus from 'http-status';
+import { ObjectSchema } from 'joi';
+import yaml from 'js-yaml';
+import Joi, { message } from '../utils/helpers/joi.js';
+import bundle from '../utils/helpers/bundle.js';
+import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import { Status } from '../types/enums/Status.js';
+import { ErrorCodes } from '../types/errors/codes.js';
+import { ErrorMessages } from '../types/errors/messages.js';
+
+/*
+ * Export and import of the whole configuration as a bundle (helpers/bundle.ts), e.g. from staging to production,
+ * and its reconcile as the desired state
+ */
+
+const router = express.Router();
+
+const yamlTypes = ['application/yaml', 'application/x-yaml', 'text/yaml'];
+
+/**
+ * @apiDefine ErrorBlock
+ * @apiErrorExample {json} Error-Response:
+ *     HTTP/1.1 200 Complete
+ *     {
+ *       "status": "error",
+ *       "code": XXXX,
+ *       "error": <i>Error message.</i>
+ *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Provided location doesn't exist",
+ *       "instance": "/import",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.ostemplates.0.location", "message": "Provided location doesn't exist", "rule": "reference.missing" }]
+ *     }
+ */
+
+/**
+ * @api {get} /export?format=yaml Export the configuration
+ * @apiName exportBundle
+ * @apiGroup Bundle
+ * @apiPermission read on every kind, 'endpoint:admin' for encrypted credentials
+ * @apiDescription Answers with the bundle itself as a file, ready to be sent to /import.
+ *
+ * @apiQuery {string="json","yaml"} [format=json] Format of the bundle
+ * @apiQuery {string="redacted","encrypted"} [credentials=redacted] Leave the endpoint passwords out, or include them encrypted with the master key
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     Content-Disposition: attachment; filename="bundle.json"
+ *     {
+ *       "version": 1,
+ *       "exportedAt": "2023-04-12T10:15:00.000Z",
+ *       "sizes": [{ "name": "Small", "cpus": 2, "ram": 1024, "storage": 10 }],
+ *       "oslanguages": [{ "name": "English" }],
+ *       "osfamilies": [{ "name": "Ubuntu", "shortName": "ubuntu" }],
+ *       "endpoints": [{ "name": "vCenter 1", "shortName": "vc1", "url": "https://vc1.example.com", "username": "admin", "availableClusters": ["cluster-1"] }],
+ *       "locations": [{ "name": "Bangalore", "availableNetworks": ["VLAN10"], "endpoint": "vc1" }],
+ *       "approvalpolicies": [{ "name": "Default", "policies": [{ "userGroups": "admins", "expiresInDays": 7, "defaultAction": "approve" }] }],
+ *       "ostemplates": [{ "name": "Ubuntu 22.04", "templateId": "vm-101", "availableNetwork": "VLAN10", "osFamily": "ubuntu", "location": "Bangalore" }],
+ *       "catalogs": [{
+ *         "name": "Ubuntu VM",
+ *         "shortName": "ubuntu-vm",
+ *         "defaultLeasePeriod": 30,
+ *         "permittedMaxLeaseExtensions": 2,
+ *         "type": "Standard",
+ *         "defaultTemplate": "Ubuntu 22.04",
+ *         "defaultApprovalPolicy": "Default"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get(
+  '/export',
+  permit.can(...bundle.kinds.map((kind) => `${kind}:read`)),
+  permit.canIf((req) => req.query.credentials === 'encrypted', 'endpoint:admin'),
+  problem.handle('exportBundle', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+    const q: qs.ParsedQs = req.query;
+
+    // Validate Input
+    const schema: ObjectSchema = Joi.object().keys({
+      q: Joi.object().keys({
+        format: Joi.string().valid('json', 'yaml').error(message('Please provide a valid format')).optional(),
+        credentials: Joi.string().valid('redacted', 'encrypted').error(message('Please provide a valid credentials')).optional(),
+      }),
+    });
+    problem.validate(schema, { q });
+
+    const result = await bundle.build({ credentials: q.credentials === 'encrypted' ? 'encrypted' : 'redacted' });
+    if (q.format === 'yaml') {
+      res.attachment('bundle.yaml');
+      return res.status(HttpStatus.OK).type('application/yaml').send(yaml.dump(result, { noRefs: true }));
+    }
+    res.attachment('bundle.json');
+    res.status(HttpStatus.OK).type('application/json').send(JSON.stringify(result, null, 2));
+  })
+);
+
+/**
+ * @api {post} /import?dryRun=true Import a configuration bundle
+ * @apiName importBundle
+ * @apiGroup Bundle
+ * @apiPermission write on every kind
+ * @apiDescription Creates the records of the bundle that don't exist and updates the ones that differ, matched by natural key.
+ *   Nothing is deleted. The bundle is sent as application/json or application/yaml, as /export produced it.
+ *
+ * @apiQuery {boolean} [dryRun] Only report what the import would change
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dryRun": true,
+ *       "changes": [
+ *         { "kind": "size", "key": "Small", "action": "unchanged" },
+ *         { "kind": "location", "key": "Bangalore", "action": "update", "changes": { "availableNetworks": { "from": ["VLAN10"], "to": ["VLAN10", "VLAN20"] } } },
+ *         { "kind": "catalog", "key": "ubuntu-vm", "action": "create" }
+ *       ],
+ *       "summary": { "create": 1, "update": 1, "unchanged": 1 }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post(
+  '/import',
+  permit.can(...bundle.kinds.map((kind) => `${kind}:write`)),
+  express.text({ type: yamlTypes }),
+  problem.handle('importBundle', ErrorCodes.E1014, ErrorMessages.E1014, async (req: express.Request, res: express.Response) => {
+    const q: qs.ParsedQs = req.query;
+
+    // Validate Input
+    const schema: ObjectSchema = Joi.object().keys({
+      q: Joi.object().keys({
+        dryRun: Joi.boolean().error(message('Please provide a valid dryRun')).optional(),
+      }),
+    });
+    problem.validate(schema, { q });
+
+    const b = req.is(yamlTypes) ? bundle.parse(req.body) : req.body;
+    const dryRun = q.dryRun === 'true';
+    const changes = await bundle.apply(b, { dryRun, userId: req.user?.id });
+
+    const summary = { create: 0, update: 0, unchanged: 0 };
+    changes.forEach((change) => {
+      // an import never deletes
+      if (change.action !== 'delete') summary[change.action] += 1;
+    });
+    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dryRun, changes, summary });
+  })
+);
+
+/**
+ * @api {post} /reconcile?dryRun=true Reconcile the desired state
+ * @apiName reconcileBundle
+ * @apiGroup Bundle
+ * @apiPermission write and delete on every kind
+ * @apiDescription Makes the records match a bundle, like /import, and additionally soft-deletes the records of every kind the bundle has a member for
+ *   but doesn't mention, an empty member deletes them all. Kinds without a member are left alone.
+ *   The records of the bundle are marked managed, RECONCILE_MANUAL_CHANGES then decides whether a PUT, PATCH or DELETE of one is allowed, warned about or refused (code 1020).
+ *   A record that would be deleted while a record of a kind left alone points at it stops the reconcile (code 1016).
+ *   Answers with the plan as text with Accept: text/plain.
+ *
+ * @apiQuery {boolean} [dryRun] Only plan the changes
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dryRun": true,
+ *       "changes": [
+ *         { "kind": "size", "key": "Small", "action": "update", "changes": { "managed": { "from": false, "to": true } } },
+ *         { "kind": "size", "key": "Large", "action": "delete" }
+ *       ],
+ *       "summary": { "create": 0, "update": 1, "delete": 1, "unchanged": 0 }
+ *     }
+ * @apiSuccessExample {text} Plan-Response:
+ *     HTTP/1.1 200 OK
+ *     Content-Type: text/plain; charset=utf-8
+ *       ~ size "Small"
+ *           managed: false => true
+ *       - size "Large"
+ *
+ *     Plan: 0 to create, 1 to update, 1 to delete.
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post(
+  '/reconcile',
+  permit.can(...bundle.kinds.flatMap((kind) => [`${kind}:write`, `${kind}:delete`])),
+  express.text({ type: yamlTypes }),
+  problem.handle('reconcileBundle', ErrorCodes.E1014, ErrorMessages.E1014, async (req: express.Request, res: express.Response) => {
+    const q: qs.ParsedQs = req.query;
+
+    // Validate Input
+    const schema: ObjectSchema = Joi.object().keys({
+      q: Joi.object().keys({
+        dryRun: Joi.boolean().error(message('Please provide a valid dryRun')).optional(),
+      }),
+    });
+    problem.validate(schema, { q });
+
+    const b = req.is(yamlTypes) ? bundle.parse(req.body) : req.body;
+    const dryRun = q.dryRun === 'true';
+    const changes = await bundle.apply(b, { dryRun, reconcile: true, userId: req.user?.id });
+
+    if (req.accepts(['json', 'text']) === 'text') {
+      return res.status(HttpStatus.OK).type('text/plain').send(bundle.plan(changes));
+    }
+    const summary = { create: 0, update: 0, delete: 0, unchanged: 0 };
+    changes.forEach((change) => {
+      summary[change.action] += 1;
+    });
+    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dryRun, changes, summary });
+  })
+);
+
+export default router;
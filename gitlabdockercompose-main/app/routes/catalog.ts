@@ -1,15 +1,27 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { each, has, isEmpty } from 'lodash';
+import { ObjectSchema } from 'joi';
+import { each, has, isEmpty, orderBy, pick } from 'lodash';
 import path from 'path';
 import multer from 'multer';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
+import history from '../utils/helpers/history.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Catalog } from '../models/catalog.js';
-import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import upload from '../utils/helpers/upload.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
@@ -19,6 +31,111 @@ import { ApprovalPolicy } from '../models/approvalPolicy.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  icon: 'string',
+  shortName: 'string',
+  defaultTemplate: 'relation',
+  defaultApprovalPolicy: 'relation',
+  defaultLeasePeriod: 'number',
+  permittedMaxLeaseExtensions: 'number',
+  type: 'string',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    shortName: Joi.string().required().error(message('Please provide a valid shortName')),
+    defaultTemplate: Joi.number().required().error(message('Please provide a valid number for defaultTemplate')),
+    defaultApprovalPolicy: Joi.number().required().error(message('Please provide a valid number for defaultApprovalPolicy')),
+    defaultLeasePeriod: Joi.number().required().error(message('Please provide a valid number for defaultLeasePeriod')),
+    permittedMaxLeaseExtensions: Joi.number().required().error(message('Please provide a valid number for permittedMaxLeaseExtensions')),
+    type: Joi.string().valid('Standard', 'Custom').required().error(message('Please provide a valid string for type')),
+  }),
+});
+
+/*
+ * The records a create or PATCH body points at, one that doesn't exist fails like an invalid field.
+ * Looked up through the manager of the write, in the transaction of a bulk or CSV import
+ */
+const findReferences: (manager: EntityManager, b: Pick<ICatalog, 'defaultTemplate' | 'defaultApprovalPolicy'>) => Promise<{ osTemplate: OsTemplate; approvalPolicy: ApprovalPolicy }> = async (manager, b) => {
+  const OsTemplateRepository = manager.getRepository(OsTemplate);
+  const osTemplate = await OsTemplateRepository.findOneBy({ id: b.defaultTemplate });
+  if (!osTemplate) {
+    throw new ValidationError([{ path: 'body.defaultTemplate', message: "Provided defaultTemplate doesn't exist", rule: 'reference.missing' }]);
+  }
+
+  const ApprovalPolicyRepository = manager.getRepository(ApprovalPolicy);
+  const approvalPolicy = await ApprovalPolicyRepository.findOneBy({ id: b.defaultApprovalPolicy });
+  if (!approvalPolicy) {
+    throw new ValidationError([{ path: 'body.defaultApprovalPolicy', message: "Provided defaultApprovalPolicy doesn't exist", rule: 'reference.missing' }]);
+  }
+  return { osTemplate, approvalPolicy };
+};
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'catalog',
+  entity: Catalog,
+  create: async (manager: EntityManager, b: ICatalog, req: express.Request) => {
+    problem.validate(createSchema, { b });
+    const { osTemplate, approvalPolicy } = await findReferences(manager, b);
+
+    const catalog = new Catalog();
+    catalog.name = b.name;
+    catalog.shortName = b.shortName;
+    catalog.defaultTemplate = osTemplate;
+    catalog.defaultApprovalPolicy = approvalPolicy;
+    catalog.defaultLeasePeriod = b.defaultLeasePeriod;
+    catalog.permittedMaxLeaseExtensions = b.permittedMaxLeaseExtensions;
+    catalog.type = b.type;
+    catalog.createdBy = req.user?.id;
+    catalog.updatedBy = req.user?.id;
+    return manager.getRepository(Catalog).save(catalog);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<ICatalog>, req: express.Request) => {
+    const CatalogRepository = manager.getRepository(Catalog);
+    const catalog = await CatalogRepository.findOne({ where: { id }, relations: { defaultTemplate: true, defaultApprovalPolicy: true } });
+    if (!catalog) {
+      throw new NotFoundError();
+    }
+    managed.check(req, catalog);
+
+    // the icon is uploaded, it stays as it is
+    const b = {
+      ...pick(catalog, ['name', 'shortName', 'defaultLeasePeriod', 'permittedMaxLeaseExtensions', 'type']),
+      defaultTemplate: catalog.defaultTemplate?.id,
+      defaultApprovalPolicy: catalog.defaultApprovalPolicy?.id,
+      ...changes,
+    };
+    problem.validate(createSchema, { b });
+    const { osTemplate, approvalPolicy } = await findReferences(manager, b);
+
+    catalog.name = b.name;
+    catalog.shortName = b.shortName;
+    catalog.defaultTemplate = osTemplate;
+    catalog.defaultApprovalPolicy = approvalPolicy;
+    catalog.defaultLeasePeriod = b.defaultLeasePeriod;
+    catalog.permittedMaxLeaseExtensions = b.permittedMaxLeaseExtensions;
+    catalog.type = b.type;
+    catalog.updatedBy = req.user?.id;
+    return CatalogRepository.save(catalog);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'shortName', 'defaultTemplate', 'defaultApprovalPolicy', 'defaultLeasePeriod', 'permittedMaxLeaseExtensions', 'type'],
+  relations: { defaultTemplate: OsTemplate, defaultApprovalPolicy: ApprovalPolicy },
+};
+
 /* inject: upload-init */
 
 const storage = upload.diskStorage('catalogs');
@@ -47,6 +164,18 @@ const fileFields: Array<{ name: string }> = [{ name: 'icon' }];
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -60,10 +189,17 @@ const fileFields: Array<{ name: string }> = [{ name: 'icon' }];
  * @api {get} /catalog/?page=1&limit=1&relations=true Fetch all catalogs
  * @apiName fetchAllCatalogs
  * @apiGroup Catalogs
- * @apiPermission 'all'
+ * @apiPermission 'catalog:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted catalogs, requires 'catalog:admin'
+ * @apiQuery {string} [asOf] ISO date to list the catalogs as they were at that instant, can't be combined with filter, cursor or withDeleted
  * @apiQuery {boolean} [relations] If relations is set to true, returned object will have foreign keys populated with foreign documents
  *
  * @apiHeaderExample {json} X-API-Fields:
@@ -127,99 +263,118 @@ const fileFields: Array<{ name: string }> = [{ name: 'icon' }];
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        icon: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for icon')).optional(),
-        shortName: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for shortName')).optional(),
-        defaultTemplate: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for defaultTemplate')).optional(),
-        defaultApprovalPolicy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for defaultApprovalPolicy')).optional(),
-        defaultLeasePeriod: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for defaultLeasePeriod')).optional(),
-        permittedMaxLeaseExtensions: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for permittedMaxLeaseExtensions')).optional(),
-        type: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for type')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        icon: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for icon')).optional(),
-        shortName: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for shortName')).optional(),
-        defaultTemplate: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for defaultTemplate')).optional(),
-        defaultApprovalPolicy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for defaultApprovalPolicy')).optional(),
-        defaultLeasePeriod: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for defaultLeasePeriod')).optional(),
-        permittedMaxLeaseExtensions: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for permittedMaxLeaseExtensions')).optional(),
-        type: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for type')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllCatalogs]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('catalog:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'catalog:admin'), problem.handle('fetchAllCatalogs', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+      asOf: Joi.date().iso().error(message('Please provide a valid asOf')).optional(),
+    })
+      .without('asOf', ['filter', 'cursor', 'withDeleted'])
+      .messages({ 'object.without': 'Please provide asOf without filter, cursor or withDeleted' }),
+    fields: Joi.object().keys({
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      icon: Joi.boolean().valid(true).error(message('Please provide a valid field option for icon')).optional(),
+      shortName: Joi.boolean().valid(true).error(message('Please provide a valid field option for shortName')).optional(),
+      defaultTemplate: Joi.boolean().valid(true).error(message('Please provide a valid field option for defaultTemplate')).optional(),
+      defaultApprovalPolicy: Joi.boolean().valid(true).error(message('Please provide a valid field option for defaultApprovalPolicy')).optional(),
+      defaultLeasePeriod: Joi.boolean().valid(true).error(message('Please provide a valid field option for defaultLeasePeriod')).optional(),
+      permittedMaxLeaseExtensions: Joi.boolean().valid(true).error(message('Please provide a valid field option for permittedMaxLeaseExtensions')).optional(),
+      type: Joi.boolean().valid(true).error(message('Please provide a valid field option for type')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      icon: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for icon')).optional(),
+      shortName: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for shortName')).optional(),
+      defaultTemplate: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for defaultTemplate')).optional(),
+      defaultApprovalPolicy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for defaultApprovalPolicy')).optional(),
+      defaultLeasePeriod: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for defaultLeasePeriod')).optional(),
+      permittedMaxLeaseExtensions: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for permittedMaxLeaseExtensions')).optional(),
+      type: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for type')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
+  // rebuilt from the audit log
+  if (typeof q.asOf === 'string') {
+    const records = orderBy(await history.find('catalog', new Date(q.asOf), { relations: q.relations === 'true' || q.format === 'csv' }), Object.keys(sort), Object.values(sort).map(String) as Array<'asc' | 'desc'>);
+    if (q.format === 'csv') {
+      return csv.send(res, 'catalogs.csv', csvColumns, csv.columns(csvColumns, fields), [records]);
     }
+    const result = records.slice(page * limit, (page + 1) * limit).map((record) => (isEmpty(fields) ? record : pick(record, Object.keys(fields))));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalogs: result, count: records.length, pages: Math.ceil(records.length / limit) });
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (has(q, 'relations') && q.relations === 'true') {
-      query.relations = {
-        defaultTemplate: true,
-        defaultApprovalPolicy: true,
-      };
-    } else {
-      query.loadRelationIds = true;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const CatalogRepository = DB.getDataStore().getRepository(Catalog);
-    const [result, count] = await CatalogRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalogs: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllCatalogs]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
+
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
+  }
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
   }
-});
+
+  if (has(q, 'relations') && q.relations === 'true') {
+    query.relations = {
+      defaultTemplate: true,
+      defaultApprovalPolicy: true,
+    };
+  } else {
+    query.loadRelationIds = true;
+  }
+
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  if (q.format === 'csv') {
+    return csv.send(res, 'catalogs.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(CatalogRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(CatalogRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalogs: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /catalog/:catalogId?relations=true Fetch catalog with given Id
  * @apiName fetchCatalog
  * @apiGroup Catalogs
- * @apiPermission 'all'
+ * @apiPermission 'catalog:read'
  *
  * @apiParam catalogId Catalog's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  * @apiQuery {boolean} [relations] If relations is set to true, returned object will have foreign keys populated with foreign documents
+ * @apiQuery {string} [asOf] ISO date to fetch the catalog as it was at that instant
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -264,75 +419,76 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:catalogId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:catalogId', permit.can('catalog:read'), problem.handle('fetchCatalog', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.catalogId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for catalogId')),
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      asOf: Joi.date().iso().error(message('Please provide a valid asOf')).optional(),
     }),
     fields: Joi.object().keys({
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      icon: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for icon')).optional(),
-      shortName: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for shortName')).optional(),
-      defaultTemplate: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for defaultTemplate')).optional(),
-      defaultApprovalPolicy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for defaultApprovalPolicy')).optional(),
-      defaultLeasePeriod: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for defaultLeasePeriod')).optional(),
-      permittedMaxLeaseExtensions: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for permittedMaxLeaseExtensions')).optional(),
-      type: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for type')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      icon: Joi.boolean().valid(true).error(message('Please provide a valid field option for icon')).optional(),
+      shortName: Joi.boolean().valid(true).error(message('Please provide a valid field option for shortName')).optional(),
+      defaultTemplate: Joi.boolean().valid(true).error(message('Please provide a valid field option for defaultTemplate')).optional(),
+      defaultApprovalPolicy: Joi.boolean().valid(true).error(message('Please provide a valid field option for defaultApprovalPolicy')).optional(),
+      defaultLeasePeriod: Joi.boolean().valid(true).error(message('Please provide a valid field option for defaultLeasePeriod')).optional(),
+      permittedMaxLeaseExtensions: Joi.boolean().valid(true).error(message('Please provide a valid field option for permittedMaxLeaseExtensions')).optional(),
+      type: Joi.boolean().valid(true).error(message('Please provide a valid field option for type')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchCatalog]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q, fields });
+
+  // rebuilt from the audit log
+  if (typeof q.asOf === 'string') {
+    const [catalog] = await history.find('catalog', new Date(q.asOf), { ids: [id], relations: q.relations === 'true' });
+    if (!catalog) {
+      throw new NotFoundError();
+    }
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog: isEmpty(fields) ? catalog : pick(catalog, Object.keys(fields)) });
   }
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    if (has(q, 'relations') && q.relations === 'true') {
-      query.relations = {
-        defaultTemplate: true,
-        defaultApprovalPolicy: true,
-      };
-    } else {
-      query.loadRelationIds = true;
-    }
+  if (has(q, 'relations') && q.relations === 'true') {
+    query.relations = {
+      defaultTemplate: true,
+      defaultApprovalPolicy: true,
+    };
+  } else {
+    query.loadRelationIds = true;
+  }
 
-    const CatalogRepository = DB.getDataStore().getRepository(Catalog);
-    const catalog = await CatalogRepository.findOne(query);
-    if (!catalog) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchCatalog]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  const catalog = await CatalogRepository.findOne(query);
+  if (!catalog) {
+    throw new NotFoundError();
   }
-});
+  // expanded relations can change without the version
+  if (!query.relations) etag.set(res, catalog);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
+}));
 
 /**
  * @api {post} /catalog/ Create catalog
  * @apiName createCatalog
  * @apiGroup Catalogs
- * @apiPermission 'all'
+ * @apiPermission 'catalog:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -366,68 +522,36 @@ router.get('/:catalogId', permit.allow('all'), async (req: express.Request, res:
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('catalog:write'), problem.handle('createCatalog', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: ICatalog = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      shortName: Joi.string().required().error(new Error('Please provide a valid shortName')),
-      defaultTemplate: Joi.number().required().error(new Error('Please provide a valid number for defaultTemplate')),
-      defaultApprovalPolicy: Joi.number().required().error(new Error('Please provide a valid number for defaultApprovalPolicy')),
-      defaultLeasePeriod: Joi.number().required().error(new Error('Please provide a valid number for defaultLeasePeriod')),
-      permittedMaxLeaseExtensions: Joi.number().required().error(new Error('Please provide a valid number for permittedMaxLeaseExtensions')),
-      type: Joi.string().valid('Standard', 'Custom').required().error(new Error('Please provide a valid string for type')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createCatalog]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(createSchema, { b });
 
-  try {
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    const osTemplate = await OsTemplateRepository.findOneBy({ id: b.defaultTemplate });
-    if (!osTemplate) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided defaultTemplate doesn't exist" });
-    }
-
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    const approvalPolicy = await ApprovalPolicyRepository.findOneBy({ id: b.defaultApprovalPolicy });
-    if (!approvalPolicy) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided defaultApprovalPolicy doesn't exist" });
-    }
+  const { osTemplate, approvalPolicy } = await findReferences(DB.getDataStore().manager, b);
 
-    const catalog = new Catalog();
-    catalog.name = b.name;
-    catalog.shortName = b.shortName;
-    catalog.defaultTemplate = osTemplate;
-    catalog.defaultApprovalPolicy = approvalPolicy;
-    catalog.defaultLeasePeriod = b.defaultLeasePeriod;
-    catalog.permittedMaxLeaseExtensions = b.permittedMaxLeaseExtensions;
-    catalog.type = b.type;
-    catalog.createdBy = req.user?.id;
-    catalog.updatedBy = req.user?.id;
+  const catalog = new Catalog();
+  catalog.name = b.name;
+  catalog.shortName = b.shortName;
+  catalog.defaultTemplate = osTemplate;
+  catalog.defaultApprovalPolicy = approvalPolicy;
+  catalog.defaultLeasePeriod = b.defaultLeasePeriod;
+  catalog.permittedMaxLeaseExtensions = b.permittedMaxLeaseExtensions;
+  catalog.type = b.type;
+  catalog.createdBy = req.user?.id;
+  catalog.updatedBy = req.user?.id;
 
-    const CatalogRepository = DB.getDataStore().getRepository(Catalog);
-    await CatalogRepository.save(catalog);
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  await CatalogRepository.save(catalog);
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createCatalog]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
+}));
 
 /**
  * @api {post} /catalog/upload/:catalogId Upload related files for catalog
  * @apiName uploadCatalogFiles
  * @apiGroup Catalogs
- * @apiPermission 'all'
+ * @apiPermission 'catalog:write'
  *
  * @apiParam catalogId Catalog's Unique Id
  * @apiHeaderExample {json} Input:
@@ -450,52 +574,103 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.post('/upload/:catalogId', permit.allow('all'), multer({ storage, fileFilter }).fields(fileFields), async (req: express.Request, res: express.Response) => {
+router.post('/upload/:catalogId', permit.can('catalog:write'), multer({ storage, fileFilter }).fields(fileFields), problem.handle('uploadCatalogFiles', ErrorCodes.E1008, ErrorMessages.E1008, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.catalogId, 10);
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for catalogId')),
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.error('[uploadCatalogFiles]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
-  try {
-    const CatalogRepository = DB.getDataStore().getRepository(Catalog);
-    const catalog = await CatalogRepository.findOneBy({ id });
-    if (!catalog) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
+  problem.validate(schema, { id });
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const accepted: { [key: string]: string | string[] } = {};
-    const toCleanUp: string[] = [];
-    each(req.files, (files: unknown, fieldname: string) => {
-      const multerFiles: Express.Multer.File[] = files as Express.Multer.File[];
-      if (fieldname === 'icon') {
-        const currentValue = catalog.icon;
-        if (currentValue) {
-          toCleanUp.push(String(currentValue));
-        }
-        catalog.icon = `catalogs/${path.basename(multerFiles[0].path)}`;
-        accepted[fieldname] = catalog.icon;
-      }
-    });
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  const catalog = await CatalogRepository.findOneBy({ id });
+  if (!catalog) {
+    throw new NotFoundError();
+  }
 
-    await CatalogRepository.save(catalog);
-    if (toCleanUp.length > 0) {
-      upload.cleanUp(toCleanUp);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, accepted, rejected: req.fileError });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[uploadCatalogFiles]', err.message);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const accepted: { [key: string]: string | string[] } = {};
+  const toCleanUp: string[] = [];
+  each(req.files, (files: unknown, fieldname: string) => {
+    const multerFiles: Express.Multer.File[] = files as Express.Multer.File[];
+    if (fieldname === 'icon') {
+      const currentValue = catalog.icon;
+      if (currentValue) {
+        toCleanUp.push(String(currentValue));
+      }
+      catalog.icon = `catalogs/${path.basename(multerFiles[0].path)}`;
+      accepted[fieldname] = catalog.icon;
     }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1008, error: ErrorMessages.E1008 });
+  });
+
+  await CatalogRepository.save(catalog);
+  if (toCleanUp.length > 0) {
+    upload.cleanUp(toCleanUp);
   }
-});
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, accepted, rejected: req.fileError });
+}));
+
+/**
+ * @api {post} /catalog/bulk Create, update and delete catalogs in bulk
+ * @apiName bulkCatalogs
+ * @apiGroup Catalogs
+ * @apiPermission 'catalog:write', 'catalog:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "Ubuntu VM", "shortName": "ubuntu", "defaultTemplate": 1, "defaultApprovalPolicy": 1, "defaultLeasePeriod": 30, "permittedMaxLeaseExtensions": 2, "type": "Standard" }],
+ *         "update": [{ "id": 2, "defaultLeasePeriod": 60 }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('catalog:write'), permit.canIf(bulk.deletes, 'catalog:delete'), problem.handle('bulkCatalogs', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkCatalogs', writes)));
+
+/**
+ * @api {post} /catalog/import/csv Import catalogs from CSV
+ * @apiName importCatalogsCsv
+ * @apiGroup Catalogs
+ * @apiPermission 'catalog:write'
+ * @apiDescription Creates a catalog from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Relations are given by name. Files of GET /catalog?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,shortName,defaultTemplate,defaultApprovalPolicy,defaultLeasePeriod,permittedMaxLeaseExtensions,type
+ *     Ubuntu VM,ubuntu-vm,Ubuntu 22.04,Default,30,2,Standard
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('catalog:write'), csv.receive, problem.handle('importCatalogsCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -503,9 +678,10 @@ router.post('/upload/:catalogId', permit.allow('all'), multer({ storage, fileFil
  * @api {put} /catalog/:catalogId Update catalog
  * @apiName updateCatalog
  * @apiGroup Catalogs
- * @apiPermission 'all'
+ * @apiPermission 'catalog:write'
  *
  * @apiParam catalogId Catalog's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Catalog Name",
@@ -538,34 +714,32 @@ router.post('/upload/:catalogId', permit.allow('all'), multer({ storage, fileFil
  * @apiUse ErrorBlock
  */
 
-router.put('/:catalogId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:catalogId', permit.can('catalog:write'), problem.handle('updateCatalog', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.catalogId, 10);
   const b: Partial<ICatalog> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for catalogId')),
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
-      shortName: Joi.string().error(new Error('Please provide a valid shortName')),
-      defaultTemplate: Joi.number().error(new Error('Please provide a valid number for defaultTemplate')),
-      defaultApprovalPolicy: Joi.number().error(new Error('Please provide a valid number for defaultApprovalPolicy')),
-      defaultLeasePeriod: Joi.number().error(new Error('Please provide a valid number for defaultLeasePeriod')),
-      permittedMaxLeaseExtensions: Joi.number().error(new Error('Please provide a valid number for permittedMaxLeaseExtensions')),
-      type: Joi.string().valid('Standard', 'Custom').error(new Error('Please provide a valid string for type')),
+      name: Joi.string().error(message('Please provide a valid name')),
+      shortName: Joi.string().error(message('Please provide a valid shortName')),
+      defaultTemplate: Joi.number().error(message('Please provide a valid number for defaultTemplate')),
+      defaultApprovalPolicy: Joi.number().error(message('Please provide a valid number for defaultApprovalPolicy')),
+      defaultLeasePeriod: Joi.number().error(message('Please provide a valid number for defaultLeasePeriod')),
+      permittedMaxLeaseExtensions: Joi.number().error(message('Please provide a valid number for permittedMaxLeaseExtensions')),
+      type: Joi.string().valid('Standard', 'Custom').error(message('Please provide a valid string for type')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateCatalog]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const CatalogRepository = DB.getDataStore().getRepository(Catalog);
   const catalog = await CatalogRepository.findOneBy({ id });
   if (!catalog) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, catalog);
+  managed.check(req, catalog);
 
   if (typeof b.name !== 'undefined') {
     catalog.name = b.name;
@@ -579,7 +753,7 @@ router.put('/:catalogId', permit.allow('all'), async (req: express.Request, res:
     const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
     const osTemplate = await OsTemplateRepository.findOneBy({ id: b.defaultTemplate });
     if (!osTemplate) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided defaultTemplate doesn't exist" });
+      throw new ValidationError([{ path: 'body.defaultTemplate', message: "Provided defaultTemplate doesn't exist", rule: 'reference.missing' }]);
     }
     catalog.defaultTemplate = osTemplate;
   }
@@ -588,7 +762,7 @@ router.put('/:catalogId', permit.allow('all'), async (req: express.Request, res:
     const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
     const approvalPolicy = await ApprovalPolicyRepository.findOneBy({ id: b.defaultApprovalPolicy });
     if (!approvalPolicy) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided defaultApprovalPolicy doesn't exist" });
+      throw new ValidationError([{ path: 'body.defaultApprovalPolicy', message: "Provided defaultApprovalPolicy doesn't exist", rule: 'reference.missing' }]);
     }
     catalog.defaultApprovalPolicy = approvalPolicy;
   }
@@ -605,26 +779,112 @@ router.put('/:catalogId', permit.allow('all'), async (req: express.Request, res:
     catalog.type = b.type;
   }
 
-  try {
-    catalog.updatedBy = req.user?.id;
-    await CatalogRepository.save(catalog);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateCatalog]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  catalog.updatedBy = req.user?.id;
+  await etag.write(req, Catalog, catalog, (manager) => manager.save(catalog));
+  etag.set(res, catalog);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
+}));
+
+/**
+ * @api {patch} /catalog/:catalogId Patch catalog
+ * @apiName patchCatalog
+ * @apiGroup Catalogs
+ * @apiPermission 'catalog:write'
+ *
+ * @apiParam catalogId Catalog's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/merge-patch+json):
+ *     {
+ *         "icon": null,
+ *         "defaultLeasePeriod": 10
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "catalog": {
+ *         "id": 1,
+ *         "name": "Catalog Name",
+ *         "shortName": "ST",
+ *         "defaultTemplate": 1,
+ *         "defaultApprovalPolicy": 1,
+ *         "defaultLeasePeriod": 5,
+ *         "permittedMaxLeaseExtensions": 10,
+ *         "type": "Standard / Custom",
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:catalogId', permit.can('catalog:write'), problem.handle('patchCatalog', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.catalogId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
+  });
+  problem.validate(schema, { id });
+
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  const catalog = await CatalogRepository.findOne({ where: { id }, relations: { defaultTemplate: true, defaultApprovalPolicy: true } });
+  if (!catalog) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, catalog);
+  managed.check(req, catalog);
+
+  const b = patch.apply(req, {
+    ...pick(catalog, ['name', 'shortName', 'defaultLeasePeriod', 'permittedMaxLeaseExtensions', 'type', 'icon']),
+    defaultTemplate: catalog.defaultTemplate?.id,
+    defaultApprovalPolicy: catalog.defaultApprovalPolicy?.id,
+  });
+  // the icon is uploaded, a patch can only keep or remove it
+  const iconSchema = Joi.valid(catalog.icon).error(message('Please provide a valid icon'));
+  problem.validate(createSchema.fork(['b'], (schema) => (schema as ObjectSchema).keys({ icon: iconSchema })), { b });
+  const { osTemplate, approvalPolicy } = await findReferences(DB.getDataStore().manager, b);
+
+  const removedIcon = catalog.icon && !b.icon ? catalog.icon : undefined;
+  catalog.name = b.name;
+  catalog.shortName = b.shortName;
+  catalog.defaultTemplate = osTemplate;
+  catalog.defaultApprovalPolicy = approvalPolicy;
+  catalog.defaultLeasePeriod = b.defaultLeasePeriod;
+  catalog.permittedMaxLeaseExtensions = b.permittedMaxLeaseExtensions;
+  catalog.type = b.type;
+  catalog.icon = b.icon ?? null;
+  catalog.updatedBy = req.user?.id;
+  await etag.write(req, Catalog, catalog, (manager) => manager.save(catalog));
+  if (removedIcon) {
+    upload.cleanUp([removedIcon]);
+  }
+  etag.set(res, catalog);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /catalog/:catalogId Delete catalog
  * @apiName deleteCatalog
  * @apiGroup Catalogs
- * @apiPermission 'all'
+ * @apiPermission 'catalog:delete', 'catalog:admin' to purge
  *
  * @apiParam catalogId Catalog's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the catalog for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the catalog, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -634,41 +894,217 @@ router.put('/:catalogId', permit.allow('all'), async (req: express.Request, res:
  * @apiUse ErrorBlock
  */
 
-router.delete('/:catalogId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:catalogId', permit.can('catalog:delete'), permit.canIf((req) => req.query.hard === 'true', 'catalog:admin'), problem.handle('deleteCatalog', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.catalogId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for catalogId')),
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteCatalog]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  const hard = q.hard === 'true';
+
+  const catalog = await CatalogRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!catalog) {
+    throw new NotFoundError();
   }
+  etag.check(req, catalog);
+  managed.check(req, catalog);
 
-  try {
-    const CatalogRepository = DB.getDataStore().getRepository(Catalog);
-    const catalog = await CatalogRepository.findOneBy({ id });
-    if (!catalog) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('catalog', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('catalog', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, Catalog, catalog, (manager) => integrity.remove('catalog', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
+
+  if (hard) {
+    await etag.write(req, Catalog, catalog, (manager) => manager.remove(catalog));
+    if (catalog.icon) {
+      upload.cleanUp([catalog.icon]);
+    }
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    catalog.deletedBy = req.user?.id;
-    await CatalogRepository.save(catalog);
+  catalog.deletedBy = req.user?.id;
+  await etag.write(req, Catalog, catalog, async (manager) => {
+    await manager.save(catalog);
+    await manager.softRemove(catalog);
+  });
 
-    const result: UpdateResult = await CatalogRepository.softDelete(id);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteCatalog]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+/**
+ * @api {get} /catalog/:catalogId/dependents Fetch records depending on catalog
+ * @apiName fetchCatalogDependents
+ * @apiGroup Catalogs
+ * @apiPermission 'catalog:read'
+ *
+ * @apiParam catalogId Catalog's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:catalogId/dependents', permit.can('catalog:read'), problem.handle('fetchCatalogDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.catalogId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  const catalog = await CatalogRepository.findOneBy({ id });
+  if (!catalog) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('catalog', id) : await integrity.getDependents('catalog', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /catalog/:catalogId/restore Restore deleted catalog
+ * @apiName restoreCatalog
+ * @apiGroup Catalogs
+ * @apiPermission 'catalog:admin'
+ *
+ * @apiParam catalogId Catalog's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "catalog": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:catalogId/restore', permit.can('catalog:admin'), problem.handle('restoreCatalog', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.catalogId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
+  });
+  problem.validate(schema, { id });
+
+  const CatalogRepository = DB.getDataStore().getRepository(Catalog);
+  const catalog = await CatalogRepository.findOne({ where: { id }, withDeleted: true, relations: { defaultTemplate: true, defaultApprovalPolicy: true } });
+  if (!catalog) {
+    throw new NotFoundError();
+  }
+  if (!catalog.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+  // purged, or never set on a nullable relation, answered like a missing reference instead of failing
+  if (!catalog.defaultTemplate) {
+    throw new ValidationError([{ path: 'defaultTemplate', message: "Provided defaultTemplate doesn't exist", rule: 'reference.missing' }]);
+  }
+  if (catalog.defaultTemplate.deletedAt) {
+    throw new ValidationError([{ path: 'defaultTemplate', message: 'Provided defaultTemplate has been deleted, restore it first', rule: 'reference.deleted' }]);
+  }
+  if (!catalog.defaultApprovalPolicy) {
+    throw new ValidationError([{ path: 'defaultApprovalPolicy', message: "Provided defaultApprovalPolicy doesn't exist", rule: 'reference.missing' }]);
+  }
+  if (catalog.defaultApprovalPolicy.deletedAt) {
+    throw new ValidationError([{ path: 'defaultApprovalPolicy', message: 'Provided defaultApprovalPolicy has been deleted, restore it first', rule: 'reference.deleted' }]);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(Catalog);
+    await repository.recover(catalog);
+    await repository.save(Object.assign(catalog, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, catalog: restored });
+}));
+
+/**
+ * @api {get} /catalog/:catalogId/history Fetch change history of catalog
+ * @apiName fetchCatalogHistory
+ * @apiGroup Catalogs
+ * @apiPermission 'catalog:read' and 'audit:read'
+ *
+ * @apiParam catalogId Catalog's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "catalog",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:catalogId/history', permit.can('catalog:read', 'audit:read'), problem.handle('fetchCatalogHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.catalogId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for catalogId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'catalog', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
@@ -1,19 +1,114 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { isEmpty, omit, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Endpoint } from '../models/endpoint.js';
+import { EndpointDrift } from '../models/endpointDrift.js';
 import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ApiError, ConflictError, NotFoundError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
+import encryption from '../utils/helpers/encryption.js';
+import vsphere from '../utils/connectors/vsphere.js';
+import inventorySync from '../utils/jobs/inventorySync.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  shortName: 'string',
+  url: 'string',
+  username: 'string',
+  availableClusters: 'array',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    shortName: Joi.string().required().error(message('Please provide a valid shortName')),
+    url: Joi.string().required().error(message('Please provide a valid url')),
+    username: Joi.string().required().error(message('Please provide a valid username')),
+    password: Joi.string().required().error(message('Please provide a valid password')),
+    availableClusters: Joi.array()
+      .items(Joi.string().required().error(message('Please provide a valid availableClusters')))
+      .required()
+      .error(message('Please provide a valid array for availableClusters')),
+  }),
+});
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'endpoint',
+  entity: Endpoint,
+  create: async (manager: EntityManager, b: IEndpoint, req: express.Request) => {
+    problem.validate(createSchema, { b });
+
+    const endpoint = new Endpoint();
+    endpoint.name = b.name;
+    endpoint.shortName = b.shortName;
+    endpoint.url = b.url;
+    endpoint.username = b.username;
+    endpoint.password = b.password;
+    endpoint.availableClusters = b.availableClusters;
+    endpoint.createdBy = req.user?.id;
+    endpoint.updatedBy = req.user?.id;
+    return manager.getRepository(Endpoint).save(endpoint);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<IEndpoint>, req: express.Request) => {
+    const EndpointRepository = manager.getRepository(Endpoint);
+    const endpoint = await EndpointRepository.findOneBy({ id });
+    if (!endpoint) {
+      throw new NotFoundError();
+    }
+    managed.check(req, endpoint);
+
+    // the password is write-only, kept unless the update sets it
+    const b = { ...pick(endpoint, ['name', 'shortName', 'url', 'username', 'availableClusters']), ...changes };
+    problem.validate(createSchema.fork(['b.password'], (schema) => schema.optional()), { b });
+
+    endpoint.name = b.name;
+    endpoint.shortName = b.shortName;
+    endpoint.url = b.url;
+    endpoint.username = b.username;
+    if (typeof b.password !== 'undefined') {
+      endpoint.password = b.password;
+    }
+    endpoint.availableClusters = b.availableClusters;
+    endpoint.updatedBy = req.user?.id;
+    return EndpointRepository.save(endpoint);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'shortName', 'url', 'username', 'password', 'availableClusters'],
+  json: ['availableClusters'],
+  secret: 'password',
+};
+
 /* inject: upload-init */
 
 /**
@@ -25,6 +120,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -38,10 +145,16 @@ const router = express.Router();
  * @api {get} /endpoint/?page=1&limit=1 Fetch all endpoints
  * @apiName fetchAllEndpoints
  * @apiGroup Endpoints
- * @apiPermission 'all'
+ * @apiPermission 'endpoint:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted endpoints, requires 'endpoint:admin'
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -50,7 +163,6 @@ const router = express.Router();
  *      "shortName": true,
  *      "url": true,
  *      "username": true,
- *      "password": true,
  *      "availableClusters": true,
  *      "createdBy": true,
  *      "updatedBy": true,
@@ -65,7 +177,6 @@ const router = express.Router();
  *      "shortName": 'asc' / 'desc',
  *      "url": 'asc' / 'desc',
  *      "username": 'asc' / 'desc',
- *      "password": 'asc' / 'desc',
  *      "availableClusters": 'asc' / 'desc',
  *      "createdBy": 'asc' / 'desc',
  *      "updatedBy": 'asc' / 'desc',
@@ -83,7 +194,6 @@ const router = express.Router();
  *         "shortName": "IN",
  *         "url": "https://inxxxxxx.siemens.com",
  *         "username": "inxxxxusername",
- *         "password": "xxxxxx",
  *         "availableClusters": ["/DC0/vm/cluster"],
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
@@ -98,87 +208,90 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        shortName: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for shortName')).optional(),
-        url: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for url')).optional(),
-        username: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for username')).optional(),
-        password: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for password')).optional(),
-        availableClusters: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for availableClusters')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        id: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for id')).optional(),
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        shortName: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for shortName')).optional(),
-        url: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for url')).optional(),
-        username: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for username')).optional(),
-        password: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for password')).optional(),
-        availableClusters: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for availableClusters')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllEndpoints]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('endpoint:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'endpoint:admin'), problem.handle('fetchAllEndpoints', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+    }),
+    fields: Joi.object().keys({
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      shortName: Joi.boolean().valid(true).error(message('Please provide a valid field option for shortName')).optional(),
+      url: Joi.boolean().valid(true).error(message('Please provide a valid field option for url')).optional(),
+      username: Joi.boolean().valid(true).error(message('Please provide a valid field option for username')).optional(),
+      availableClusters: Joi.boolean().valid(true).error(message('Please provide a valid field option for availableClusters')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      id: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for id')).optional(),
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      shortName: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for shortName')).optional(),
+      url: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for url')).optional(),
+      username: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for username')).optional(),
+      availableClusters: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for availableClusters')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
 
-    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
-    const [result, count] = await EndpointRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoints: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllEndpoints]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
+  }
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
   }
-});
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  if (q.format === 'csv') {
+    return csv.send(res, 'endpoints.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(EndpointRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(EndpointRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoints: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /endpoint/:endpointId Fetch endpoint with given Id
  * @apiName fetchEndpoint
  * @apiGroup Endpoints
- * @apiPermission 'all'
+ * @apiPermission 'endpoint:read'
  *
  * @apiParam endpointId Endpoint's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -187,7 +300,6 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  *      "shortName": true,
  *      "url": true,
  *      "username": true,
- *      "password": true,
  *      "availableClusters": true,
  *      "createdBy": true,
  *      "updatedBy": true,
@@ -205,7 +317,6 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  *         "shortName": "IN",
  *         "url": "https://inxxxxxx.siemens.com",
  *         "username": "inxxxxusername",
- *         "password": "xxxxxx",
  *         "availableClusters": ["/DC0/vm/cluster"],
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
@@ -219,65 +330,101 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:endpointId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:endpointId', permit.can('endpoint:read'), problem.handle('fetchEndpoint', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.endpointId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for endpointId')),
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
     }),
     fields: Joi.object().keys({
-      id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      shortName: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for shortName')).optional(),
-      url: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for url')).optional(),
-      username: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for username')).optional(),
-      password: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for password')).optional(),
-      availableClusters: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for availableClusters')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      shortName: Joi.boolean().valid(true).error(message('Please provide a valid field option for shortName')).optional(),
+      url: Joi.boolean().valid(true).error(message('Please provide a valid field option for url')).optional(),
+      username: Joi.boolean().valid(true).error(message('Please provide a valid field option for username')).optional(),
+      availableClusters: Joi.boolean().valid(true).error(message('Please provide a valid field option for availableClusters')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchEndpoint]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q, fields });
+
+  const query: FindOneOptions = {
+    where: { id },
+  };
+
+  if (!isEmpty(fields)) {
+    query.select = fields;
   }
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.findOne(query);
+  if (!endpoint) {
+    throw new NotFoundError();
+  }
+  etag.set(res, endpoint);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint });
+}));
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+/**
+ * @api {get} /endpoint/:endpointId/drift Fetch latest drift report of endpoint
+ * @apiName fetchEndpointDrift
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:read'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "drift": {
+ *         "id": 1,
+ *         "endpoint": 1,
+ *         "status": "pending / applied / in-sync",
+ *         "report": {
+ *           "clusters": { "added": ["Cluster02"], "removed": [] },
+ *           "locations": [{ "id": 1, "name": "Keonics", "added": [], "removed": ["/DC0/vm/network"] }],
+ *           "missingTemplates": [{ "id": 2, "name": "Windows 11", "templateId": "/DC0/vm/template" }],
+ *           "unavailableNetworkTemplates": [{ "id": 1, "name": "Ubuntu 20.08", "availableNetwork": "/DC0/vm/network" }]
+ *         },
+ *         "createdAt": '2023-01-01T18:30:00.000Z',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
 
-    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
-    const endpoint = await EndpointRepository.findOne(query);
-    if (!endpoint) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchEndpoint]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+router.get('/:endpointId/drift', permit.can('endpoint:read'), problem.handle('fetchEndpointDrift', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+  });
+  problem.validate(schema, { id });
+
+  const EndpointDriftRepository = DB.getDataStore().getRepository(EndpointDrift);
+  const drift = await EndpointDriftRepository.findOne({ where: { endpoint: { id } }, loadRelationIds: true });
+  if (!drift) {
+    throw new NotFoundError();
   }
-});
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, drift });
+}));
 
 /**
  * @api {post} /endpoint/ Create endpoint
  * @apiName createEndpoint
  * @apiGroup Endpoints
- * @apiPermission 'all'
+ * @apiPermission 'endpoint:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -299,7 +446,6 @@ router.get('/:endpointId', permit.allow('all'), async (req: express.Request, res
  *         "shortName": "IN",
  *         "url": "https://inxxxxxx.siemens.com",
  *         "username": "inxxxxusername",
- *         "password": "xxxxxx",
  *         "availableClusters": ["/DC0/vm/cluster"],
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "createdAt": '2023-01-01T18:30:00.000Z'
@@ -309,51 +455,328 @@ router.get('/:endpointId', permit.allow('all'), async (req: express.Request, res
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('endpoint:write'), problem.handle('createEndpoint', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: IEndpoint = req.body;
 
+  // Validate Input
+  problem.validate(createSchema, { b });
+
+  const endpoint = new Endpoint();
+  endpoint.name = b.name;
+  endpoint.shortName = b.shortName;
+  endpoint.url = b.url;
+  endpoint.username = b.username;
+  endpoint.password = b.password;
+  endpoint.availableClusters = b.availableClusters;
+  endpoint.createdBy = req.user?.id;
+  endpoint.updatedBy = req.user?.id;
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  await EndpointRepository.save(endpoint);
+
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint: omit(endpoint, 'password') });
+}));
+
+/**
+ * @api {post} /endpoint/credentials/rotate Re-encrypt endpoint credentials with the active key
+ * @apiName rotateEndpointCredentials
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "keyId": "2023-04",
+ *       "rotated": 3 // no of endpoints re-encrypted
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/credentials/rotate', permit.can('endpoint:write'), problem.handle('rotateEndpointCredentials', ErrorCodes.E1014, ErrorMessages.E1014, async (_: express.Request, res: express.Response) => {
+  const keyId = encryption.getActiveKeyId();
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+
+  // raw values skip the column transformer, so the key id of each stored password can be read
+  const rows: Array<{ id: number; password: string }> = await EndpointRepository.createQueryBuilder('endpoint')
+    .withDeleted()
+    .select('endpoint.id', 'id')
+    .addSelect('endpoint.password', 'password')
+    .getRawMany();
+
+  let rotated = 0;
+  await DB.getDataStore().transaction(async (manager) => {
+    for (const row of rows) {
+      if (encryption.getKeyId(row.password) !== keyId) {
+        const password = encryption.isEncrypted(row.password) ? encryption.decrypt(row.password) : row.password;
+        await manager.getRepository(Endpoint).update(row.id, { password });
+        rotated += 1;
+      }
+    }
+  });
+
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, keyId, rotated });
+}));
+
+/**
+ * @api {post} /endpoint/:endpointId/test Test connectivity of endpoint
+ * @apiName testEndpoint
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "result": {
+ *         "reachable": true,
+ *         "authenticated": false,
+ *         "latency": 120, // milliseconds
+ *         "error": "Invalid credentials"
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/:endpointId/test', permit.can('endpoint:write'), problem.handle('testEndpoint', ErrorCodes.E1014, ErrorMessages.E1014, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      shortName: Joi.string().required().error(new Error('Please provide a valid shortName')),
-      url: Joi.string().required().error(new Error('Please provide a valid url')),
-      username: Joi.string().required().error(new Error('Please provide a valid username')),
-      password: Joi.string().required().error(new Error('Please provide a valid password')),
-      availableClusters: Joi.array()
-        .items(Joi.string().required().error(new Error('Please provide a valid availableClusters')))
-        .required()
-        .error(new Error('Please provide a valid array for availableClusters')),
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+  });
+  problem.validate(schema, { id });
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.createQueryBuilder('endpoint').addSelect('endpoint.password').where('endpoint.id = :id', { id }).getOne();
+  if (!endpoint) {
+    throw new NotFoundError();
+  }
+
+  const result = await vsphere.testConnection(endpoint);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, result });
+}));
+
+/**
+ * @api {post} /endpoint/:endpointId/discover?apply=true Discover inventory of endpoint
+ * @apiName discoverEndpoint
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ * @apiQuery {boolean} [apply] If apply is set to true, availableClusters is replaced with the discovered cluster names
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "inventory": {
+ *         "clusters": [{ "id": "domain-c8", "name": "Cluster01" }],
+ *         "datacenters": [{ "id": "datacenter-2", "name": "DC0" }],
+ *         "networks": [{ "id": "network-13", "name": "VM Network" }],
+ *         "templates": [{ "id": "6d5c34a0-7f7e-4d4c-9a9e-1f2c3b4a5d6e", "name": "ubuntu-22.04" }]
+ *       },
+ *       "applied": false
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/:endpointId/discover', permit.can('endpoint:write'), problem.handle('discoverEndpoint', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+    q: Joi.object().keys({
+      apply: Joi.boolean().error(message('Please provide a valid apply')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createEndpoint]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.createQueryBuilder('endpoint').addSelect('endpoint.password').where('endpoint.id = :id', { id }).getOne();
+  if (!endpoint) {
+    throw new NotFoundError();
   }
 
+  let inventory: IVSphereInventory;
   try {
-    const endpoint = new Endpoint();
-    endpoint.name = b.name;
-    endpoint.shortName = b.shortName;
-    endpoint.url = b.url;
-    endpoint.username = b.username;
-    endpoint.password = b.password;
-    endpoint.availableClusters = b.availableClusters;
-    endpoint.createdBy = req.user?.id;
-    endpoint.updatedBy = req.user?.id;
+    inventory = await vsphere.discover(endpoint);
+  } catch (err: unknown) {
+    logger.error('[discoverEndpoint]', vsphere.errorMessage(err));
+    throw new ApiError(ErrorCodes.E1015, ErrorMessages.E1015);
+  }
 
-    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
-    await EndpointRepository.save(endpoint);
+  const applied = q.apply === 'true';
+  if (applied) {
+    // saved without the password, which was only loaded to connect
+    await EndpointRepository.save({ id, availableClusters: inventory.clusters.map((cluster) => cluster.name), updatedBy: req.user?.id });
+  }
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, inventory, applied });
+}));
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createEndpoint]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
+/**
+ * @api {post} /endpoint/:endpointId/sync?apply=true Sync inventory of endpoint
+ * @apiName syncEndpoint
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ * @apiQuery {boolean} [apply] If apply is set to true, detected drift is applied right away instead of being left pending
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "drift": {
+ *         "id": 1,
+ *         "endpoint": 1,
+ *         "status": "pending / applied / in-sync",
+ *         "report": {
+ *           "clusters": { "added": ["Cluster02"], "removed": [] },
+ *           "locations": [{ "id": 1, "name": "Keonics", "added": [], "removed": ["/DC0/vm/network"] }],
+ *           "missingTemplates": [],
+ *           "unavailableNetworkTemplates": [{ "id": 1, "name": "Ubuntu 20.08", "availableNetwork": "/DC0/vm/network" }]
+ *         },
+ *         "createdAt": '2023-01-01T18:30:00.000Z',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/:endpointId/sync', permit.can('endpoint:write'), problem.handle('syncEndpoint', ErrorCodes.E1015, ErrorMessages.E1015, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+    q: Joi.object().keys({
+      apply: Joi.boolean().error(message('Please provide a valid apply')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const drift = await inventorySync.syncEndpoint(id, q.apply === 'true', req.user?.id).catch((err: unknown) => {
+    logger.error('[syncEndpoint]', vsphere.errorMessage(err));
+    throw new ApiError(ErrorCodes.E1015, ErrorMessages.E1015);
+  });
+  if (!drift) {
+    throw new NotFoundError();
   }
-});
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, drift: { ...drift, endpoint: drift.endpoint.id } });
+}));
+
+/**
+ * @api {post} /endpoint/:endpointId/drift/apply Apply pending drift of endpoint
+ * @apiName applyEndpointDrift
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "drift": {
+ *         "id": 1,
+ *         "endpoint": 1,
+ *         "status": "applied",
+ *         "report": { ... }
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/:endpointId/drift/apply', permit.can('endpoint:write'), problem.handle('applyEndpointDrift', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+  });
+  problem.validate(schema, { id });
+
+  const EndpointDriftRepository = DB.getDataStore().getRepository(EndpointDrift);
+  const drift = await EndpointDriftRepository.findOne({ where: { endpoint: { id }, status: 'pending' }, relations: { endpoint: true } });
+  if (!drift) {
+    throw new NotFoundError();
+  }
+
+  await inventorySync.applyDrift(drift, req.user?.id);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, drift: { ...drift, endpoint: drift.endpoint.id } });
+}));
+
+/**
+ * @api {post} /endpoint/bulk Create, update and delete endpoints in bulk
+ * @apiName bulkEndpoints
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write', 'endpoint:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "vCenter 1", "shortName": "vc1", "url": "https://vc1.example.com", "username": "admin", "password": "secret", "availableClusters": ["cluster-1"] }],
+ *         "update": [{ "id": 2, "password": "rotated" }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('endpoint:write'), permit.canIf(bulk.deletes, 'endpoint:delete'), problem.handle('bulkEndpoints', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkEndpoints', writes)));
+
+/**
+ * @api {post} /endpoint/import/csv Import endpoints from CSV
+ * @apiName importEndpointsCsv
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ * @apiDescription Creates a endpoint from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Files of GET /endpoint?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,shortName,url,username,password,availableClusters
+ *     vCenter 1,vc1,https://vc1.example.com,admin,secret,"[""cluster-1""]"
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('endpoint:write'), csv.receive, problem.handle('importEndpointsCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -361,9 +784,10 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /endpoint/:endpointId Update endpoint
  * @apiName updateEndpoint
  * @apiGroup Endpoints
- * @apiPermission 'all'
+ * @apiPermission 'endpoint:write'
  *
  * @apiParam endpointId Endpoint's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Endpoint Name",
@@ -384,7 +808,6 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  *         "shortName": "IN",
  *         "url": "https://inxxxxxx.siemens.com",
  *         "username": "inxxxxusername",
- *         "password": "xxxxxx",
  *         "availableClusters": ["/DC0/vm/cluster"],
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedAt": '2023-01-01T18:30:00.000Z'
@@ -394,35 +817,33 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:endpointId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:endpointId', permit.can('endpoint:write'), problem.handle('updateEndpoint', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.endpointId, 10);
   const b: Partial<IEndpoint> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for endpointId')),
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
-      shortName: Joi.string().error(new Error('Please provide a valid shortName')),
-      url: Joi.string().error(new Error('Please provide a valid url')),
-      username: Joi.string().error(new Error('Please provide a valid username')),
-      password: Joi.string().error(new Error('Please provide a valid password')),
+      name: Joi.string().error(message('Please provide a valid name')),
+      shortName: Joi.string().error(message('Please provide a valid shortName')),
+      url: Joi.string().error(message('Please provide a valid url')),
+      username: Joi.string().error(message('Please provide a valid username')),
+      password: Joi.string().error(message('Please provide a valid password')),
       availableClusters: Joi.array()
-        .items(Joi.string().error(new Error('Please provide a valid availableClusters')))
-        .error(new Error('Please provide a valid array for availableClusters')),
+        .items(Joi.string().error(message('Please provide a valid availableClusters')))
+        .error(message('Please provide a valid array for availableClusters')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateEndpoint]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
   const endpoint = await EndpointRepository.findOneBy({ id });
   if (!endpoint) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, endpoint);
+  managed.check(req, endpoint);
 
   if (typeof b.name !== 'undefined') {
     endpoint.name = b.name;
@@ -448,26 +869,99 @@ router.put('/:endpointId', permit.allow('all'), async (req: express.Request, res
     endpoint.availableClusters = b.availableClusters;
   }
 
-  try {
-    endpoint.updatedBy = req.user?.id;
-    await EndpointRepository.save(endpoint);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateEndpoint]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  endpoint.updatedBy = req.user?.id;
+  await etag.write(req, Endpoint, endpoint, (manager) => manager.save(endpoint));
+  etag.set(res, endpoint);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint: omit(endpoint, 'password') });
+}));
+
+/**
+ * @api {patch} /endpoint/:endpointId Patch endpoint
+ * @apiName patchEndpoint
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:write'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/json-patch+json):
+ *     [
+ *         { "op": "add", "path": "/availableClusters/-", "value": "Cluster02" }
+ *     ]
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "endpoint": {
+ *         "id": 1,
+ *         "name": "Endpoint Name",
+ *         "shortName": "IN",
+ *         "url": "https://inxxxxxx.siemens.com",
+ *         "username": "inxxxxusername",
+ *         "availableClusters": ["/DC0/vm/cluster"],
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:endpointId', permit.can('endpoint:write'), problem.handle('patchEndpoint', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+  });
+  problem.validate(schema, { id });
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.findOneBy({ id });
+  if (!endpoint) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, endpoint);
+  managed.check(req, endpoint);
+
+  // the password is write-only, a patch can set it and keeps it otherwise
+  const b = patch.apply<Omit<IEndpoint, 'id' | 'password'> & { password?: string }>(req, pick(endpoint, ['name', 'shortName', 'url', 'username', 'availableClusters']));
+  problem.validate(createSchema.fork(['b.password'], (schema) => schema.optional()), { b });
+
+  endpoint.name = b.name;
+  endpoint.shortName = b.shortName;
+  endpoint.url = b.url;
+  endpoint.username = b.username;
+  if (typeof b.password !== 'undefined') {
+    endpoint.password = b.password;
+  }
+  endpoint.availableClusters = b.availableClusters;
+  endpoint.updatedBy = req.user?.id;
+  await etag.write(req, Endpoint, endpoint, (manager) => manager.save(endpoint));
+  etag.set(res, endpoint);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint: omit(endpoint, 'password') });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /endpoint/:endpointId Delete endpoint
  * @apiName deleteEndpoint
  * @apiGroup Endpoints
- * @apiPermission 'all'
+ * @apiPermission 'endpoint:delete', 'endpoint:admin' to purge
  *
  * @apiParam endpointId Endpoint's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the endpoint for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the endpoint, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -477,41 +971,201 @@ router.put('/:endpointId', permit.allow('all'), async (req: express.Request, res
  * @apiUse ErrorBlock
  */
 
-router.delete('/:endpointId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:endpointId', permit.can('endpoint:delete'), permit.canIf((req) => req.query.hard === 'true', 'endpoint:admin'), problem.handle('deleteEndpoint', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.endpointId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for endpointId')),
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteEndpoint]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const hard = q.hard === 'true';
+
+  const endpoint = await EndpointRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!endpoint) {
+    throw new NotFoundError();
   }
+  etag.check(req, endpoint);
+  managed.check(req, endpoint);
 
-  try {
-    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
-    const endpoint = await EndpointRepository.findOneBy({ id });
-    if (!endpoint) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('endpoint', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('endpoint', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, Endpoint, endpoint, (manager) => integrity.remove('endpoint', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    endpoint.deletedBy = req.user?.id;
-    await EndpointRepository.save(endpoint);
+  if (hard) {
+    await etag.write(req, Endpoint, endpoint, (manager) => manager.remove(endpoint));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await EndpointRepository.softDelete(id);
+  endpoint.deletedBy = req.user?.id;
+  await etag.write(req, Endpoint, endpoint, async (manager) => {
+    await manager.save(endpoint);
+    await manager.softRemove(endpoint);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteEndpoint]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /endpoint/:endpointId/dependents Fetch records depending on endpoint
+ * @apiName fetchEndpointDependents
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:read'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:endpointId/dependents', permit.can('endpoint:read'), problem.handle('fetchEndpointDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.findOneBy({ id });
+  if (!endpoint) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('endpoint', id) : await integrity.getDependents('endpoint', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /endpoint/:endpointId/restore Restore deleted endpoint
+ * @apiName restoreEndpoint
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:admin'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "endpoint": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:endpointId/restore', permit.can('endpoint:admin'), problem.handle('restoreEndpoint', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+  });
+  problem.validate(schema, { id });
+
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.findOne({ where: { id }, withDeleted: true });
+  if (!endpoint) {
+    throw new NotFoundError();
+  }
+  if (!endpoint.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(Endpoint);
+    await repository.recover(endpoint);
+    await repository.save(Object.assign(endpoint, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, endpoint: restored });
+}));
+
+/**
+ * @api {get} /endpoint/:endpointId/history Fetch change history of endpoint
+ * @apiName fetchEndpointHistory
+ * @apiGroup Endpoints
+ * @apiPermission 'endpoint:read' and 'audit:read'
+ *
+ * @apiParam endpointId Endpoint's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "endpoint",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:endpointId/history', permit.can('endpoint:read', 'audit:read'), problem.handle('fetchEndpointHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.endpointId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for endpointId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'endpoint', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
@@ -0,0 +1,85 @@
+import express from 'express';
+import HttpStatus from 'http-status';
+import DB from '../utils/connectors/typeorm.js';
+import redis from '../utils/connectors/redis.js';
+import logger from '../utils/logger.js';
+import { Status } from '../types/enums/Status.js';
+
+/*
+ * Probes for docker-compose and Kubernetes, they need no token and answer with real HTTP status codes
+ */
+
+const router = express.Router();
+
+/**
+ * @api {get} /healthz Liveness probe
+ * @apiName healthz
+ * @apiGroup Health
+ * @apiPermission none
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success"
+ *     }
+ */
+router.get('/healthz', (_: express.Request, res: express.Response) => {
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+});
+
+/**
+ * @api {get} /readyz Readiness probe
+ * @apiName readyz
+ * @apiGroup Health
+ * @apiPermission none
+ * @apiDescription Ready when the database is reachable, every migration is applied and Redis (when REDIS_URL is set) answers.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "checks": {
+ *         "database": "up",
+ *         "migrations": "applied",
+ *         "redis": "disabled"
+ *       }
+ *     }
+ * @apiErrorExample {json} Error-Response:
+ *     HTTP/1.1 503 Service Unavailable
+ *     {
+ *       "status": "error",
+ *       "checks": {
+ *         "database": "down",
+ *         "migrations": "unknown",
+ *         "redis": "disabled"
+ *       }
+ *     }
+ */
+router.get('/readyz', async (_: express.Request, res: express.Response) => {
+  const checks = { database: 'down', migrations: 'unknown', redis: redis.isEnabled() ? 'down' : 'disabled' };
+
+  try {
+    if (DB.getDataStore()?.isInitialized) {
+      await DB.getDataStore().query('SELECT 1');
+      checks.database = 'up';
+      checks.migrations = (await DB.getPendingMigrations()).length ? 'pending' : 'applied';
+    }
+  } catch (err: unknown) {
+    if (err instanceof Error) {
+      logger.error('[readyz]', err.message);
+    }
+  }
+
+  try {
+    if (redis.isEnabled() && (await redis.ping())) checks.redis = 'up';
+  } catch (err: unknown) {
+    if (err instanceof Error) {
+      logger.error('[readyz]', err.message);
+    }
+  }
+
+  const ready = checks.database === 'up' && checks.migrations === 'applied' && checks.redis !== 'down';
+  res.status(ready ? HttpStatus.OK : HttpStatus.SERVICE_UNAVAILABLE).send({ status: ready ? Status.SUCCESS : Status.ERROR, checks });
+});
+
+export default router;
@@ -1,19 +1,114 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { isEmpty, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Location } from '../models/location.js';
-import logger from '../utils/logger.js';
+import { Endpoint } from '../models/endpoint.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  availableNetworks: 'array',
+  endpoint: 'relation',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    availableNetworks: Joi.array()
+      .items(Joi.string().required().error(message('Please provide a valid availableNetworks')))
+      .required()
+      .error(message('Please provide a valid array for availableNetworks')),
+    endpoint: Joi.number().optional().error(message('Please provide a valid number for endpoint')),
+  }),
+});
+
+/*
+ * The endpoint of a create or PATCH body, one that doesn't exist fails like an invalid field.
+ * Looked up through the manager of the write, in the transaction of a bulk or CSV import
+ */
+const findEndpoint: (manager: EntityManager, id?: number | null) => Promise<Endpoint | null> = async (manager, id) => {
+  if (typeof id !== 'number') return null;
+  const EndpointRepository = manager.getRepository(Endpoint);
+  const endpoint = await EndpointRepository.findOneBy({ id });
+  if (!endpoint) {
+    throw new ValidationError([{ path: 'body.endpoint', message: "Provided endpoint doesn't exist", rule: 'reference.missing' }]);
+  }
+  return endpoint;
+};
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'location',
+  entity: Location,
+  create: async (manager: EntityManager, b: ILocation, req: express.Request) => {
+    problem.validate(createSchema, { b });
+
+    const location = new Location();
+    const endpoint = await findEndpoint(manager, b.endpoint);
+    if (endpoint) {
+      location.endpoint = endpoint;
+    }
+
+    location.name = b.name;
+    location.availableNetworks = b.availableNetworks;
+    location.createdBy = req.user?.id;
+    location.updatedBy = req.user?.id;
+    return manager.getRepository(Location).save(location);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<ILocation>, req: express.Request) => {
+    const LocationRepository = manager.getRepository(Location);
+    const location = await LocationRepository.findOne({ where: { id }, relations: { endpoint: true } });
+    if (!location) {
+      throw new NotFoundError();
+    }
+    managed.check(req, location);
+
+    const b = { ...pick(location, ['name', 'availableNetworks']), endpoint: location.endpoint?.id, ...changes };
+    problem.validate(createSchema, { b });
+
+    location.name = b.name;
+    location.availableNetworks = b.availableNetworks;
+    location.endpoint = await findEndpoint(manager, b.endpoint);
+    location.updatedBy = req.user?.id;
+    return LocationRepository.save(location);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'availableNetworks', 'endpoint'],
+  relations: { endpoint: Endpoint },
+  json: ['availableNetworks'],
+};
+
 /* inject: upload-init */
 
 /**
@@ -25,6 +120,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -38,16 +145,23 @@ const router = express.Router();
  * @api {get} /location/?page=1&limit=1 Fetch all locations
  * @apiName fetchAllLocations
  * @apiGroup Locations
- * @apiPermission 'all'
+ * @apiPermission 'location:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted locations, requires 'location:admin'
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
  *      "id": true,
  *      "name": true,
  *      "availableNetworks": true,
+ *      "endpoint": true,
  *      "createdBy": true,
  *      "updatedBy": true,
  *      "createdAt": true,
@@ -59,6 +173,7 @@ const router = express.Router();
  *      "id": 'asc' / 'desc',
  *      "name": 'asc' / 'desc',
  *      "availableNetworks": 'asc' / 'desc',
+ *      "endpoint": 'asc' / 'desc',
  *      "createdBy": 'asc' / 'desc',
  *      "updatedBy": 'asc' / 'desc',
  *      "createdAt": 'asc' / 'desc',
@@ -73,6 +188,7 @@ const router = express.Router();
  *         "id": 1,
  *         "name": "Keonics",
  *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1,
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "deletedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
@@ -86,85 +202,95 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        availableNetworks: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for availableNetworks')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        id: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for id')).optional(),
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        availableNetworks: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for availableNetworks')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllLocations]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('location:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'location:admin'), problem.handle('fetchAllLocations', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+    }),
+    fields: Joi.object().keys({
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      availableNetworks: Joi.boolean().valid(true).error(message('Please provide a valid field option for availableNetworks')).optional(),
+      endpoint: Joi.boolean().valid(true).error(message('Please provide a valid field option for endpoint')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      id: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for id')).optional(),
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      availableNetworks: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for availableNetworks')).optional(),
+      endpoint: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for endpoint')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
 
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    const [result, count] = await LocationRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, locations: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllLocations]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
   }
-});
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
+  }
+
+  query.loadRelationIds = true;
+
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  if (q.format === 'csv') {
+    return csv.send(res, 'locations.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(LocationRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(LocationRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, locations: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /location/:locationId Fetch location with given Id
  * @apiName fetchLocation
  * @apiGroup Locations
- * @apiPermission 'all'
+ * @apiPermission 'location:read'
  *
  * @apiParam locationId Location's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
  *      "id": true,
  *      "name": true,
  *      "availableNetworks": true,
+ *      "endpoint": true,
  *      "createdBy": true,
  *      "updatedBy": true,
  *      "createdAt": true,
@@ -179,6 +305,7 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  *         "id": 1,
  *         "name": "Keonics",
  *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1,
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "deletedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
@@ -191,66 +318,60 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:locationId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:locationId', permit.can('location:read'), problem.handle('fetchLocation', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.locationId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for locationId')),
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
     }),
     fields: Joi.object().keys({
-      id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      availableNetworks: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for availableNetworks')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      availableNetworks: Joi.boolean().valid(true).error(message('Please provide a valid field option for availableNetworks')).optional(),
+      endpoint: Joi.boolean().valid(true).error(message('Please provide a valid field option for endpoint')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchLocation]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, q, fields });
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    const location = await LocationRepository.findOne(query);
-    if (!location) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchLocation]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  query.loadRelationIds = true;
+
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  const location = await LocationRepository.findOne(query);
+  if (!location) {
+    throw new NotFoundError();
   }
-});
+  etag.set(res, location);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
+}));
 
 /**
  * @api {post} /location/ Create location
  * @apiName createLocation
  * @apiGroup Locations
- * @apiPermission 'all'
+ * @apiPermission 'location:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Keonics",
- *         "availableNetworks": ["/DC0/vm/network"]
+ *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1
  *     }
  *
  * @apiSuccessExample {json} Success-Response:
@@ -261,6 +382,7 @@ router.get('/:locationId', permit.allow('all'), async (req: express.Request, res
  *         "id": 1,
  *         "name": "Keonics",
  *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1,
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "createdAt": '2023-01-01T18:30:00.000Z'
  *       }
@@ -269,43 +391,89 @@ router.get('/:locationId', permit.allow('all'), async (req: express.Request, res
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('location:write'), problem.handle('createLocation', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: ILocation = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      availableNetworks: Joi.array()
-        .items(Joi.string().required().error(new Error('Please provide a valid availableNetworks')))
-        .required()
-        .error(new Error('Please provide a valid array for availableNetworks')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createLocation]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(createSchema, { b });
+
+  const location = new Location();
+  const endpoint = await findEndpoint(DB.getDataStore().manager, b.endpoint);
+  if (endpoint) {
+    location.endpoint = endpoint;
   }
 
-  try {
-    const location = new Location();
-    location.name = b.name;
-    location.availableNetworks = b.availableNetworks;
-    location.createdBy = req.user?.id;
-    location.updatedBy = req.user?.id;
+  location.name = b.name;
+  location.availableNetworks = b.availableNetworks;
+  location.createdBy = req.user?.id;
+  location.updatedBy = req.user?.id;
 
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    await LocationRepository.save(location);
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  await LocationRepository.save(location);
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createLocation]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
+}));
+
+/**
+ * @api {post} /location/bulk Create, update and delete locations in bulk
+ * @apiName bulkLocations
+ * @apiGroup Locations
+ * @apiPermission 'location:write', 'location:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "DC 2", "availableNetworks": ["vlan-10"], "endpoint": 1 }],
+ *         "update": [{ "id": 2, "availableNetworks": ["vlan-10", "vlan-20"] }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('location:write'), permit.canIf(bulk.deletes, 'location:delete'), problem.handle('bulkLocations', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkLocations', writes)));
+
+/**
+ * @api {post} /location/import/csv Import locations from CSV
+ * @apiName importLocationsCsv
+ * @apiGroup Locations
+ * @apiPermission 'location:write'
+ * @apiDescription Creates a location from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Relations are given by name. Files of GET /location?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,availableNetworks,endpoint
+ *     Bangalore,"[""/DC0/vm/VLAN10""]",vCenter 1
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('location:write'), csv.receive, problem.handle('importLocationsCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -313,13 +481,15 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /location/:locationId Update location
  * @apiName updateLocation
  * @apiGroup Locations
- * @apiPermission 'all'
+ * @apiPermission 'location:write'
  *
  * @apiParam locationId Location's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Keonics",
- *         "availableNetworks": ["/DC0/vm/network"]
+ *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1
  *     }
  *
  * @apiSuccessExample {json} Success-Response:
@@ -330,6 +500,7 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  *         "id": 1,
  *         "name": "Keonics",
  *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1,
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedAt": '2023-01-01T18:30:00.000Z'
  *       }
@@ -338,31 +509,30 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:locationId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:locationId', permit.can('location:write'), problem.handle('updateLocation', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.locationId, 10);
   const b: Partial<ILocation> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for locationId')),
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
+      name: Joi.string().error(message('Please provide a valid name')),
       availableNetworks: Joi.array()
-        .items(Joi.string().error(new Error('Please provide a valid availableNetworks')))
-        .error(new Error('Please provide a valid array for availableNetworks')),
+        .items(Joi.string().error(message('Please provide a valid availableNetworks')))
+        .error(message('Please provide a valid array for availableNetworks')),
+      endpoint: Joi.number().allow(null).error(message('Please provide a valid number for endpoint')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateLocation]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const LocationRepository = DB.getDataStore().getRepository(Location);
   const location = await LocationRepository.findOneBy({ id });
   if (!location) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, location);
+  managed.check(req, location);
 
   if (typeof b.name !== 'undefined') {
     location.name = b.name;
@@ -372,26 +542,102 @@ router.put('/:locationId', permit.allow('all'), async (req: express.Request, res
     location.availableNetworks = b.availableNetworks;
   }
 
-  try {
-    location.updatedBy = req.user?.id;
-    await LocationRepository.save(location);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateLocation]', err.message);
+  if (b.endpoint === null) {
+    location.endpoint = null;
+  } else if (typeof b.endpoint !== 'undefined') {
+    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+    const endpoint = await EndpointRepository.findOneBy({ id: b.endpoint });
+    if (!endpoint) {
+      throw new ValidationError([{ path: 'body.endpoint', message: "Provided endpoint doesn't exist", rule: 'reference.missing' }]);
     }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+    location.endpoint = endpoint;
   }
-});
+
+  location.updatedBy = req.user?.id;
+  await etag.write(req, Location, location, (manager) => manager.save(location));
+  etag.set(res, location);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
+}));
+
+/**
+ * @api {patch} /location/:locationId Patch location
+ * @apiName patchLocation
+ * @apiGroup Locations
+ * @apiPermission 'location:write'
+ *
+ * @apiParam locationId Location's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/json-patch+json):
+ *     [
+ *         { "op": "add", "path": "/availableNetworks/-", "value": "/DC0/vm/VLAN20" }
+ *     ]
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "location": {
+ *         "id": 1,
+ *         "name": "Keonics",
+ *         "availableNetworks": ["/DC0/vm/network"],
+ *         "endpoint": 1,
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:locationId', permit.can('location:write'), problem.handle('patchLocation', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.locationId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
+  });
+  problem.validate(schema, { id });
+
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  const location = await LocationRepository.findOne({ where: { id }, relations: { endpoint: true } });
+  if (!location) {
+    throw new NotFoundError();
+  }
+  etag.check(req, location);
+  managed.check(req, location);
+
+  const b = patch.apply(req, { ...pick(location, ['name', 'availableNetworks']), endpoint: location.endpoint?.id });
+  problem.validate(createSchema, { b });
+
+  location.name = b.name;
+  location.availableNetworks = b.availableNetworks;
+  location.endpoint = await findEndpoint(DB.getDataStore().manager, b.endpoint);
+  location.updatedBy = req.user?.id;
+  await etag.write(req, Location, location, (manager) => manager.save(location));
+  etag.set(res, location);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /location/:locationId Delete location
  * @apiName deleteLocation
  * @apiGroup Locations
- * @apiPermission 'all'
+ * @apiPermission 'location:delete', 'location:admin' to purge
  *
  * @apiParam locationId Location's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the location for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the location, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -401,41 +647,204 @@ router.put('/:locationId', permit.allow('all'), async (req: express.Request, res
  * @apiUse ErrorBlock
  */
 
-router.delete('/:locationId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:locationId', permit.can('location:delete'), permit.canIf((req) => req.query.hard === 'true', 'location:admin'), problem.handle('deleteLocation', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.locationId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for locationId')),
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteLocation]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  const hard = q.hard === 'true';
+
+  const location = await LocationRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!location) {
+    throw new NotFoundError();
   }
+  etag.check(req, location);
+  managed.check(req, location);
 
-  try {
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    const location = await LocationRepository.findOneBy({ id });
-    if (!location) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('location', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('location', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, Location, location, (manager) => integrity.remove('location', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    location.deletedBy = req.user?.id;
-    await LocationRepository.save(location);
+  if (hard) {
+    await etag.write(req, Location, location, (manager) => manager.remove(location));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await LocationRepository.softDelete(id);
+  location.deletedBy = req.user?.id;
+  await etag.write(req, Location, location, async (manager) => {
+    await manager.save(location);
+    await manager.softRemove(location);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteLocation]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /location/:locationId/dependents Fetch records depending on location
+ * @apiName fetchLocationDependents
+ * @apiGroup Locations
+ * @apiPermission 'location:read'
+ *
+ * @apiParam locationId Location's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:locationId/dependents', permit.can('location:read'), problem.handle('fetchLocationDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.locationId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  const location = await LocationRepository.findOneBy({ id });
+  if (!location) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('location', id) : await integrity.getDependents('location', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /location/:locationId/restore Restore deleted location
+ * @apiName restoreLocation
+ * @apiGroup Locations
+ * @apiPermission 'location:admin'
+ *
+ * @apiParam locationId Location's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "location": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:locationId/restore', permit.can('location:admin'), problem.handle('restoreLocation', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.locationId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
+  });
+  problem.validate(schema, { id });
+
+  const LocationRepository = DB.getDataStore().getRepository(Location);
+  const location = await LocationRepository.findOne({ where: { id }, withDeleted: true, relations: { endpoint: true } });
+  if (!location) {
+    throw new NotFoundError();
+  }
+  if (!location.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+  if (location.endpoint?.deletedAt) {
+    throw new ValidationError([{ path: 'endpoint', message: 'Provided endpoint has been deleted, restore it first', rule: 'reference.deleted' }]);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(Location);
+    await repository.recover(location);
+    await repository.save(Object.assign(location, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, location: restored });
+}));
+
+/**
+ * @api {get} /location/:locationId/history Fetch change history of location
+ * @apiName fetchLocationHistory
+ * @apiGroup Locations
+ * @apiPermission 'location:read' and 'audit:read'
+ *
+ * @apiParam locationId Location's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "location",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:locationId/history', permit.can('location:read', 'audit:read'), problem.handle('fetchLocationHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.locationId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for locationId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'location', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
@@ -0,0 +1,61 @@
+import express from 'express';
+import HttpStatus from 'http-status';
+import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import permissions from '../utils/auth/permissions.js';
+import { Status } from '../types/enums/Status.js';
+import { Role } from '../types/enums/Role.js';
+import { ErrorCodes } from '../types/errors/codes.js';
+import { ErrorMessages } from '../types/errors/messages.js';
+
+const router = express.Router();
+
+/**
+ * @apiDefine ErrorBlock
+ * @apiErrorExample {json} Error-Response:
+ *     HTTP/1.1 200 Complete
+ *     {
+ *       "status": "error",
+ *       "code": XXXX,
+ *       "error": <i>Error message.</i>
+ *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
+ */
+
+/**
+ * @api {get} /me/permissions Fetch effective permissions of the current user
+ * @apiName fetchMyPermissions
+ * @apiGroup Me
+ * @apiPermission 'all'
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "user": {
+ *         "id": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "roles": ["user"]
+ *       },
+ *       "permissions": ["catalog:read", "endpoint:read"]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/permissions', permit.allow(Role.ALL), problem.handle('fetchMyPermissions', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const roles = req.user?.roles ?? [];
+  const effective = await permissions.getPermissions(roles);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, user: { id: req.user?.id ?? null, roles }, permissions: effective });
+}));
+
+export default router;
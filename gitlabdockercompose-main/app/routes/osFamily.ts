@@ -1,19 +1,86 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { isEmpty, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
 import DB from '../utils/connectors/typeorm.js';
 import { OsFamily } from '../models/osFamily.js';
-import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  shortName: 'string',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    shortName: Joi.string().required().error(message('Please provide a valid shortName')),
+  }),
+});
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'osfamily',
+  entity: OsFamily,
+  create: async (manager: EntityManager, b: IOsFamily, req: express.Request) => {
+    problem.validate(createSchema, { b });
+
+    const osfamily = new OsFamily();
+    osfamily.name = b.name;
+    osfamily.shortName = b.shortName;
+    osfamily.createdBy = req.user?.id;
+    osfamily.updatedBy = req.user?.id;
+    return manager.getRepository(OsFamily).save(osfamily);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<IOsFamily>, req: express.Request) => {
+    const OsFamilyRepository = manager.getRepository(OsFamily);
+    const osfamily = await OsFamilyRepository.findOneBy({ id });
+    if (!osfamily) {
+      throw new NotFoundError();
+    }
+    managed.check(req, osfamily);
+
+    const b = { ...pick(osfamily, ['name', 'shortName']), ...changes };
+    problem.validate(createSchema, { b });
+
+    osfamily.name = b.name;
+    osfamily.shortName = b.shortName;
+    osfamily.updatedBy = req.user?.id;
+    return OsFamilyRepository.save(osfamily);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'shortName'],
+};
+
 /* inject: upload-init */
 
 /**
@@ -25,6 +92,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -38,10 +117,16 @@ const router = express.Router();
  * @api {get} /osfamily/?page=1&limit=1 Fetch all osfamilies
  * @apiName fetchAllOsFamilies
  * @apiGroup OsFamilies
- * @apiPermission 'all'
+ * @apiPermission 'osfamily:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted osfamilys, requires 'osfamily:admin'
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -86,79 +171,84 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        shortName: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for shortName')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        id: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for id')).optional(),
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        shortName: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for shortName')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllOsFamilies]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('osfamily:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'osfamily:admin'), problem.handle('fetchAllOsFamilies', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+    }),
+    fields: Joi.object().keys({
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      shortName: Joi.boolean().valid(true).error(message('Please provide a valid field option for shortName')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      id: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for id')).optional(),
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      shortName: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for shortName')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    const [result, count] = await OsFamilyRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamilies: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllOsFamilies]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
+
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
   }
-});
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
+  }
+
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  if (q.format === 'csv') {
+    return csv.send(res, 'osfamilies.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(OsFamilyRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(OsFamilyRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamilies: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /osfamily/:osfamilyId Fetch osfamily with given Id
  * @apiName fetchOsFamily
  * @apiGroup OsFamilies
- * @apiPermission 'all'
+ * @apiPermission 'osfamily:read'
  *
  * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -191,61 +281,51 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:osfamilyId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:osfamilyId', permit.can('osfamily:read'), problem.handle('fetchOsFamily', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.osfamilyId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for osfamilyId')),
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
     }),
     fields: Joi.object().keys({
-      id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      shortName: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for shortName')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      shortName: Joi.boolean().valid(true).error(message('Please provide a valid field option for shortName')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchOsFamily]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, q, fields });
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    const osfamily = await OsFamilyRepository.findOne(query);
-    if (!osfamily) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchOsFamily]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  const osfamily = await OsFamilyRepository.findOne(query);
+  if (!osfamily) {
+    throw new NotFoundError();
   }
-});
+  etag.set(res, osfamily);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
+}));
 
 /**
  * @api {post} /osfamily/ Create osfamily
  * @apiName createOsFamily
  * @apiGroup OsFamilies
- * @apiPermission 'all'
+ * @apiPermission 'osfamily:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -269,40 +349,84 @@ router.get('/:osfamilyId', permit.allow('all'), async (req: express.Request, res
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('osfamily:write'), problem.handle('createOsFamily', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: IOsFamily = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      shortName: Joi.string().required().error(new Error('Please provide a valid shortName')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createOsFamily]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(createSchema, { b });
 
-  try {
-    const osfamily = new OsFamily();
-    osfamily.name = b.name;
-    osfamily.shortName = b.shortName;
-    osfamily.createdBy = req.user?.id;
-    osfamily.updatedBy = req.user?.id;
+  const osfamily = new OsFamily();
+  osfamily.name = b.name;
+  osfamily.shortName = b.shortName;
+  osfamily.createdBy = req.user?.id;
+  osfamily.updatedBy = req.user?.id;
+
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  await OsFamilyRepository.save(osfamily);
 
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    await OsFamilyRepository.save(osfamily);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
+}));
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createOsFamily]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+/**
+ * @api {post} /osfamily/bulk Create, update and delete osfamilies in bulk
+ * @apiName bulkOsFamilies
+ * @apiGroup OsFamilies
+ * @apiPermission 'osfamily:write', 'osfamily:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "Ubuntu", "shortName": "ubuntu" }],
+ *         "update": [{ "id": 2, "shortName": "rhel" }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('osfamily:write'), permit.canIf(bulk.deletes, 'osfamily:delete'), problem.handle('bulkOsFamilies', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkOsFamilies', writes)));
+
+/**
+ * @api {post} /osfamily/import/csv Import osfamilies from CSV
+ * @apiName importOsFamiliesCsv
+ * @apiGroup OsFamilies
+ * @apiPermission 'osfamily:write'
+ * @apiDescription Creates a osfamily from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Files of GET /osfamily?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,shortName
+ *     Ubuntu,ubuntu
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('osfamily:write'), csv.receive, problem.handle('importOsFamiliesCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -310,9 +434,10 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /osfamily/:osfamilyId Update osfamily
  * @apiName updateOsFamily
  * @apiGroup OsFamilies
- * @apiPermission 'all'
+ * @apiPermission 'osfamily:write'
  *
  * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Linux",
@@ -335,29 +460,27 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:osfamilyId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:osfamilyId', permit.can('osfamily:write'), problem.handle('updateOsFamily', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.osfamilyId, 10);
   const b: Partial<IOsFamily> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for osfamilyId')),
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
-      shortName: Joi.string().error(new Error('Please provide a valid shortName')),
+      name: Joi.string().error(message('Please provide a valid name')),
+      shortName: Joi.string().error(message('Please provide a valid shortName')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateOsFamily]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
   const osfamily = await OsFamilyRepository.findOneBy({ id });
   if (!osfamily) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, osfamily);
+  managed.check(req, osfamily);
 
   if (typeof b.name !== 'undefined') {
     osfamily.name = b.name;
@@ -367,26 +490,89 @@ router.put('/:osfamilyId', permit.allow('all'), async (req: express.Request, res
     osfamily.shortName = b.shortName;
   }
 
-  try {
-    osfamily.updatedBy = req.user?.id;
-    await OsFamilyRepository.save(osfamily);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateOsFamily]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  osfamily.updatedBy = req.user?.id;
+  await etag.write(req, OsFamily, osfamily, (manager) => manager.save(osfamily));
+  etag.set(res, osfamily);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
+}));
+
+/**
+ * @api {patch} /osfamily/:osfamilyId Patch osfamily
+ * @apiName patchOsFamily
+ * @apiGroup OsFamilies
+ * @apiPermission 'osfamily:write'
+ *
+ * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/merge-patch+json):
+ *     {
+ *         "shortName": "UBU"
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "osfamily": {
+ *         "id": 1,
+ *         "name": "Linux",
+ *         "shortName": "LN",
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:osfamilyId', permit.can('osfamily:write'), problem.handle('patchOsFamily', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.osfamilyId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
+  });
+  problem.validate(schema, { id });
+
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  const osfamily = await OsFamilyRepository.findOneBy({ id });
+  if (!osfamily) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, osfamily);
+  managed.check(req, osfamily);
+
+  const b = patch.apply(req, pick(osfamily, ['name', 'shortName']));
+  problem.validate(createSchema, { b });
+
+  osfamily.name = b.name;
+  osfamily.shortName = b.shortName;
+  osfamily.updatedBy = req.user?.id;
+  await etag.write(req, OsFamily, osfamily, (manager) => manager.save(osfamily));
+  etag.set(res, osfamily);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /osfamily/:osfamilyId Delete osfamily
  * @apiName deleteOsFamily
  * @apiGroup OsFamilies
- * @apiPermission 'all'
+ * @apiPermission 'osfamily:delete', 'osfamily:admin' to purge
  *
  * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the osfamily for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the osfamily, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -396,41 +582,201 @@ router.put('/:osfamilyId', permit.allow('all'), async (req: express.Request, res
  * @apiUse ErrorBlock
  */
 
-router.delete('/:osfamilyId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:osfamilyId', permit.can('osfamily:delete'), permit.canIf((req) => req.query.hard === 'true', 'osfamily:admin'), problem.handle('deleteOsFamily', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.osfamilyId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for osfamilyId')),
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteOsFamily]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  const hard = q.hard === 'true';
+
+  const osfamily = await OsFamilyRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!osfamily) {
+    throw new NotFoundError();
   }
+  etag.check(req, osfamily);
+  managed.check(req, osfamily);
 
-  try {
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    const osfamily = await OsFamilyRepository.findOneBy({ id });
-    if (!osfamily) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('osfamily', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('osfamily', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, OsFamily, osfamily, (manager) => integrity.remove('osfamily', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    osfamily.deletedBy = req.user?.id;
-    await OsFamilyRepository.save(osfamily);
+  if (hard) {
+    await etag.write(req, OsFamily, osfamily, (manager) => manager.remove(osfamily));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await OsFamilyRepository.softDelete(id);
+  osfamily.deletedBy = req.user?.id;
+  await etag.write(req, OsFamily, osfamily, async (manager) => {
+    await manager.save(osfamily);
+    await manager.softRemove(osfamily);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteOsFamily]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /osfamily/:osfamilyId/dependents Fetch records depending on osfamily
+ * @apiName fetchOsFamilyDependents
+ * @apiGroup OsFamilies
+ * @apiPermission 'osfamily:read'
+ *
+ * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:osfamilyId/dependents', permit.can('osfamily:read'), problem.handle('fetchOsFamilyDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.osfamilyId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  const osfamily = await OsFamilyRepository.findOneBy({ id });
+  if (!osfamily) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('osfamily', id) : await integrity.getDependents('osfamily', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /osfamily/:osfamilyId/restore Restore deleted osfamily
+ * @apiName restoreOsFamily
+ * @apiGroup OsFamilies
+ * @apiPermission 'osfamily:admin'
+ *
+ * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "osfamily": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:osfamilyId/restore', permit.can('osfamily:admin'), problem.handle('restoreOsFamily', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.osfamilyId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
+  });
+  problem.validate(schema, { id });
+
+  const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+  const osfamily = await OsFamilyRepository.findOne({ where: { id }, withDeleted: true });
+  if (!osfamily) {
+    throw new NotFoundError();
+  }
+  if (!osfamily.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(OsFamily);
+    await repository.recover(osfamily);
+    await repository.save(Object.assign(osfamily, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, osfamily: restored });
+}));
+
+/**
+ * @api {get} /osfamily/:osfamilyId/history Fetch change history of osfamily
+ * @apiName fetchOsFamilyHistory
+ * @apiGroup OsFamilies
+ * @apiPermission 'osfamily:read' and 'audit:read'
+ *
+ * @apiParam osfamilyId OsFamily's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "osfamily",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:osfamilyId/history', permit.can('osfamily:read', 'audit:read'), problem.handle('fetchOsFamilyHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.osfamilyId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for osfamilyId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'osfamily', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
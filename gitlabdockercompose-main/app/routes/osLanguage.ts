@@ -1,19 +1,82 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { isEmpty, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
 import DB from '../utils/connectors/typeorm.js';
 import { OsLanguage } from '../models/osLanguage.js';
-import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+  }),
+});
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'oslanguage',
+  entity: OsLanguage,
+  create: async (manager: EntityManager, b: IOsLanguage, req: express.Request) => {
+    problem.validate(createSchema, { b });
+
+    const oslanguage = new OsLanguage();
+    oslanguage.name = b.name;
+    oslanguage.createdBy = req.user?.id;
+    oslanguage.updatedBy = req.user?.id;
+    return manager.getRepository(OsLanguage).save(oslanguage);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<IOsLanguage>, req: express.Request) => {
+    const OsLanguageRepository = manager.getRepository(OsLanguage);
+    const oslanguage = await OsLanguageRepository.findOneBy({ id });
+    if (!oslanguage) {
+      throw new NotFoundError();
+    }
+    managed.check(req, oslanguage);
+
+    const b = { ...pick(oslanguage, ['name']), ...changes };
+    problem.validate(createSchema, { b });
+
+    oslanguage.name = b.name;
+    oslanguage.updatedBy = req.user?.id;
+    return OsLanguageRepository.save(oslanguage);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name'],
+};
+
 /* inject: upload-init */
 
 /**
@@ -25,6 +88,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -38,10 +113,16 @@ const router = express.Router();
  * @api {get} /oslanguage/?page=1&limit=1 Fetch all oslanguages
  * @apiName fetchAllOsLanguages
  * @apiGroup OsLanguages
- * @apiPermission 'all'
+ * @apiPermission 'oslanguage:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted oslanguages, requires 'oslanguage:admin'
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -83,77 +164,82 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        id: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for id')).optional(),
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllOsLanguages]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('oslanguage:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'oslanguage:admin'), problem.handle('fetchAllOsLanguages', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+    }),
+    fields: Joi.object().keys({
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      id: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for id')).optional(),
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
 
-    const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
-    const [result, count] = await OsLanguageRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguages: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllOsLanguages]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
   }
-});
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
+  }
+
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  if (q.format === 'csv') {
+    return csv.send(res, 'oslanguages.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(OsLanguageRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(OsLanguageRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguages: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /oslanguage/:oslanguageId Fetch oslanguage with given Id
  * @apiName fetchOsLanguage
  * @apiGroup OsLanguages
- * @apiPermission 'all'
+ * @apiPermission 'oslanguage:read'
  *
  * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -184,60 +270,50 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:oslanguageId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:oslanguageId', permit.can('oslanguage:read'), problem.handle('fetchOsLanguage', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.oslanguageId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for oslanguageId')),
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
     }),
     fields: Joi.object().keys({
-      id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchOsLanguage]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, q, fields });
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
-    const oslanguage = await OsLanguageRepository.findOne(query);
-    if (!oslanguage) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchOsLanguage]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  const oslanguage = await OsLanguageRepository.findOne(query);
+  if (!oslanguage) {
+    throw new NotFoundError();
   }
-});
+  etag.set(res, oslanguage);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
+}));
 
 /**
  * @api {post} /oslanguage/ Create oslanguage
  * @apiName createOsLanguage
  * @apiGroup OsLanguages
- * @apiPermission 'all'
+ * @apiPermission 'oslanguage:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -259,38 +335,83 @@ router.get('/:oslanguageId', permit.allow('all'), async (req: express.Request, r
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('oslanguage:write'), problem.handle('createOsLanguage', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: IOsLanguage = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createOsLanguage]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(createSchema, { b });
 
-  try {
-    const oslanguage = new OsLanguage();
-    oslanguage.name = b.name;
-    oslanguage.createdBy = req.user?.id;
-    oslanguage.updatedBy = req.user?.id;
+  const oslanguage = new OsLanguage();
+  oslanguage.name = b.name;
+  oslanguage.createdBy = req.user?.id;
+  oslanguage.updatedBy = req.user?.id;
 
-    const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
-    await OsLanguageRepository.save(oslanguage);
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  await OsLanguageRepository.save(oslanguage);
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createOsLanguage]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
+}));
+
+/**
+ * @api {post} /oslanguage/bulk Create, update and delete oslanguages in bulk
+ * @apiName bulkOsLanguages
+ * @apiGroup OsLanguages
+ * @apiPermission 'oslanguage:write', 'oslanguage:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "English" }],
+ *         "update": [{ "id": 2, "name": "German" }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('oslanguage:write'), permit.canIf(bulk.deletes, 'oslanguage:delete'), problem.handle('bulkOsLanguages', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkOsLanguages', writes)));
+
+/**
+ * @api {post} /oslanguage/import/csv Import oslanguages from CSV
+ * @apiName importOsLanguagesCsv
+ * @apiGroup OsLanguages
+ * @apiPermission 'oslanguage:write'
+ * @apiDescription Creates a oslanguage from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Files of GET /oslanguage?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name
+ *     English
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('oslanguage:write'), csv.receive, problem.handle('importOsLanguagesCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -298,9 +419,10 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /oslanguage/:oslanguageId Update oslanguage
  * @apiName updateOsLanguage
  * @apiGroup OsLanguages
- * @apiPermission 'all'
+ * @apiPermission 'oslanguage:write'
  *
  * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "English"
@@ -321,53 +443,112 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:oslanguageId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:oslanguageId', permit.can('oslanguage:write'), problem.handle('updateOsLanguage', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.oslanguageId, 10);
   const b: Partial<IOsLanguage> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for oslanguageId')),
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
+      name: Joi.string().error(message('Please provide a valid name')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateOsLanguage]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
   const oslanguage = await OsLanguageRepository.findOneBy({ id });
   if (!oslanguage) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, oslanguage);
+  managed.check(req, oslanguage);
 
   if (typeof b.name !== 'undefined') {
     oslanguage.name = b.name;
   }
 
-  try {
-    oslanguage.updatedBy = req.user?.id;
-    await OsLanguageRepository.save(oslanguage);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateOsLanguage]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  oslanguage.updatedBy = req.user?.id;
+  await etag.write(req, OsLanguage, oslanguage, (manager) => manager.save(oslanguage));
+  etag.set(res, oslanguage);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
+}));
+
+/**
+ * @api {patch} /oslanguage/:oslanguageId Patch oslanguage
+ * @apiName patchOsLanguage
+ * @apiGroup OsLanguages
+ * @apiPermission 'oslanguage:write'
+ *
+ * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/merge-patch+json):
+ *     {
+ *         "name": "English"
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "oslanguage": {
+ *         "id": 1,
+ *         "name": "English",
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:oslanguageId', permit.can('oslanguage:write'), problem.handle('patchOsLanguage', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.oslanguageId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
+  });
+  problem.validate(schema, { id });
+
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  const oslanguage = await OsLanguageRepository.findOneBy({ id });
+  if (!oslanguage) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, oslanguage);
+  managed.check(req, oslanguage);
+
+  const b = patch.apply(req, pick(oslanguage, ['name']));
+  problem.validate(createSchema, { b });
+
+  oslanguage.name = b.name;
+  oslanguage.updatedBy = req.user?.id;
+  await etag.write(req, OsLanguage, oslanguage, (manager) => manager.save(oslanguage));
+  etag.set(res, oslanguage);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /oslanguage/:oslanguageId Delete oslanguage
  * @apiName deleteOsLanguage
  * @apiGroup OsLanguages
- * @apiPermission 'all'
+ * @apiPermission 'oslanguage:delete', 'oslanguage:admin' to purge
  *
  * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the oslanguage for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the oslanguage, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -377,41 +558,201 @@ router.put('/:oslanguageId', permit.allow('all'), async (req: express.Request, r
  * @apiUse ErrorBlock
  */
 
-router.delete('/:oslanguageId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:oslanguageId', permit.can('oslanguage:delete'), permit.canIf((req) => req.query.hard === 'true', 'oslanguage:admin'), problem.handle('deleteOsLanguage', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.oslanguageId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for oslanguageId')),
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteOsLanguage]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  const hard = q.hard === 'true';
+
+  const oslanguage = await OsLanguageRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!oslanguage) {
+    throw new NotFoundError();
   }
+  etag.check(req, oslanguage);
+  managed.check(req, oslanguage);
 
-  try {
-    const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
-    const oslanguage = await OsLanguageRepository.findOneBy({ id });
-    if (!oslanguage) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('oslanguage', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('oslanguage', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, OsLanguage, oslanguage, (manager) => integrity.remove('oslanguage', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    oslanguage.deletedBy = req.user?.id;
-    await OsLanguageRepository.save(oslanguage);
+  if (hard) {
+    await etag.write(req, OsLanguage, oslanguage, (manager) => manager.remove(oslanguage));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await OsLanguageRepository.softDelete(id);
+  oslanguage.deletedBy = req.user?.id;
+  await etag.write(req, OsLanguage, oslanguage, async (manager) => {
+    await manager.save(oslanguage);
+    await manager.softRemove(oslanguage);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteOsLanguage]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /oslanguage/:oslanguageId/dependents Fetch records depending on oslanguage
+ * @apiName fetchOsLanguageDependents
+ * @apiGroup OsLanguages
+ * @apiPermission 'oslanguage:read'
+ *
+ * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:oslanguageId/dependents', permit.can('oslanguage:read'), problem.handle('fetchOsLanguageDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.oslanguageId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  const oslanguage = await OsLanguageRepository.findOneBy({ id });
+  if (!oslanguage) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('oslanguage', id) : await integrity.getDependents('oslanguage', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /oslanguage/:oslanguageId/restore Restore deleted oslanguage
+ * @apiName restoreOsLanguage
+ * @apiGroup OsLanguages
+ * @apiPermission 'oslanguage:admin'
+ *
+ * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "oslanguage": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:oslanguageId/restore', permit.can('oslanguage:admin'), problem.handle('restoreOsLanguage', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.oslanguageId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
+  });
+  problem.validate(schema, { id });
+
+  const OsLanguageRepository = DB.getDataStore().getRepository(OsLanguage);
+  const oslanguage = await OsLanguageRepository.findOne({ where: { id }, withDeleted: true });
+  if (!oslanguage) {
+    throw new NotFoundError();
+  }
+  if (!oslanguage.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(OsLanguage);
+    await repository.recover(oslanguage);
+    await repository.save(Object.assign(oslanguage, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, oslanguage: restored });
+}));
+
+/**
+ * @api {get} /oslanguage/:oslanguageId/history Fetch change history of oslanguage
+ * @apiName fetchOsLanguageHistory
+ * @apiGroup OsLanguages
+ * @apiPermission 'oslanguage:read' and 'audit:read'
+ *
+ * @apiParam oslanguageId OsLanguage's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "oslanguage",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:oslanguageId/history', permit.can('oslanguage:read', 'audit:read'), problem.handle('fetchOsLanguageHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.oslanguageId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for oslanguageId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'oslanguage', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
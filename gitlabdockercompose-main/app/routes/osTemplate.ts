@@ -1,21 +1,127 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { has, isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { has, isEmpty, orderBy, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
+import history from '../utils/helpers/history.js';
 import DB from '../utils/connectors/typeorm.js';
 import { OsTemplate } from '../models/osTemplate.js';
 import { OsFamily } from '../models/osFamily.js';
 import { Location } from '../models/location.js';
-import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  templateId: 'string',
+  osFamily: 'relation',
+  location: 'relation',
+  availableNetwork: 'string',
+  networkUnavailable: 'boolean',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    templateId: Joi.string().required().error(message('Please provide a valid templateId')),
+    osFamily: Joi.number().required().error(message('Please provide a valid number for osFamily')),
+    location: Joi.number().required().error(message('Please provide a valid number for location')),
+    availableNetwork: Joi.string().required().error(message('Please provide a valid availableNetwork')),
+  }),
+});
+
+/*
+ * The records a create or PATCH body points at, the network has to be one of the location.
+ * Looked up through the manager of the write, in the transaction of a bulk or CSV import
+ */
+const findReferences: (manager: EntityManager, b: Pick<IOsTemplate, 'osFamily' | 'location' | 'availableNetwork'>) => Promise<{ osFamily: OsFamily; location: Location }> = async (manager, b) => {
+  const OsFamilyRepository = manager.getRepository(OsFamily);
+  const osFamily = await OsFamilyRepository.findOneBy({ id: b.osFamily });
+  if (!osFamily) {
+    throw new ValidationError([{ path: 'body.osFamily', message: "Provided osFamily doesn't exist", rule: 'reference.missing' }]);
+  }
+  const LocationRepository = manager.getRepository(Location);
+  const location = await LocationRepository.findOneBy({ id: b.location });
+  if (!location) {
+    throw new ValidationError([{ path: 'body.location', message: "Provided location doesn't exist", rule: 'reference.missing' }]);
+  }
+
+  if (!location.availableNetworks.includes(b.availableNetwork)) {
+    throw new ValidationError([{ path: 'body.availableNetwork', message: 'Provided availableNetwork is not part of location', rule: 'reference.mismatch' }]);
+  }
+  return { osFamily, location };
+};
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'ostemplate',
+  entity: OsTemplate,
+  create: async (manager: EntityManager, b: IOsTemplate, req: express.Request) => {
+    problem.validate(createSchema, { b });
+    const { osFamily, location } = await findReferences(manager, b);
+
+    const ostemplate = new OsTemplate();
+    ostemplate.name = b.name;
+    ostemplate.templateId = b.templateId;
+    ostemplate.osFamily = osFamily;
+    ostemplate.location = location;
+    ostemplate.availableNetwork = b.availableNetwork;
+    ostemplate.createdBy = req.user?.id;
+    ostemplate.updatedBy = req.user?.id;
+    return manager.getRepository(OsTemplate).save(ostemplate);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<IOsTemplate>, req: express.Request) => {
+    const OsTemplateRepository = manager.getRepository(OsTemplate);
+    const ostemplate = await OsTemplateRepository.findOne({ where: { id }, relations: { osFamily: true, location: true } });
+    if (!ostemplate) {
+      throw new NotFoundError();
+    }
+    managed.check(req, ostemplate);
+
+    const b = { ...pick(ostemplate, ['name', 'templateId', 'availableNetwork']), osFamily: ostemplate.osFamily?.id, location: ostemplate.location?.id, ...changes };
+    problem.validate(createSchema, { b });
+    const { osFamily, location } = await findReferences(manager, b);
+
+    ostemplate.name = b.name;
+    ostemplate.templateId = b.templateId;
+    ostemplate.availableNetwork = b.availableNetwork;
+    ostemplate.osFamily = osFamily;
+    ostemplate.location = location;
+    ostemplate.updatedBy = req.user?.id;
+    return OsTemplateRepository.save(ostemplate);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'templateId', 'osFamily', 'location', 'availableNetwork'],
+  relations: { osFamily: OsFamily, location: Location },
+};
+
 /* inject: upload-init */
 
 /**
@@ -27,6 +133,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -40,10 +158,17 @@ const router = express.Router();
  * @api {get} /ostemplate/?page=1&limit=1&relations=true Fetch all ostemplates
  * @apiName fetchAllOsTemplates
  * @apiGroup OsTemplates
- * @apiPermission 'all'
+ * @apiPermission 'ostemplate:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted ostemplates, requires 'ostemplate:admin'
+ * @apiQuery {string} [asOf] ISO date to list the ostemplates as they were at that instant, can't be combined with filter, cursor or withDeleted
  * @apiQuery {boolean} [relations] If relations is set to true, returned object will have foreign keys populated with foreign documents
  *
  * @apiHeaderExample {json} X-API-Fields:
@@ -54,6 +179,7 @@ const router = express.Router();
  *      "osFamily": true,
  *      "location": true,
  *      "availableNetwork": true,
+ *      "networkUnavailable": true,
  *      "createdBy": true,
  *      "updatedBy": true,
  *      "createdAt": true,
@@ -68,6 +194,7 @@ const router = express.Router();
  *      "osFamily": 'asc' / 'desc',
  *      "location": 'asc' / 'desc',
  *      "availableNetwork": 'asc' / 'desc',
+ *      "networkUnavailable": 'asc' / 'desc',
  *      "createdBy": 'asc' / 'desc',
  *      "updatedBy": 'asc' / 'desc',
  *      "createdAt": 'asc' / 'desc',
@@ -85,6 +212,7 @@ const router = express.Router();
  *         "osFamily": 1,
  *         "location": 1,
  *         "availableNetwork": "/DC0/vm/network",
+ *         "networkUnavailable": false,
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "deletedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
@@ -98,95 +226,116 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        templateId: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for templateId')).optional(),
-        osFamily: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for osFamily')).optional(),
-        location: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for location')).optional(),
-        availableNetwork: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for availableNetwork')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        id: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for id')).optional(),
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        templateId: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for templateId')).optional(),
-        osFamily: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for osFamily')).optional(),
-        location: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for location')).optional(),
-        availableNetwork: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for availableNetwork')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllOsTemplates]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('ostemplate:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'ostemplate:admin'), problem.handle('fetchAllOsTemplates', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+      asOf: Joi.date().iso().error(message('Please provide a valid asOf')).optional(),
+    })
+      .without('asOf', ['filter', 'cursor', 'withDeleted'])
+      .messages({ 'object.without': 'Please provide asOf without filter, cursor or withDeleted' }),
+    fields: Joi.object().keys({
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      templateId: Joi.boolean().valid(true).error(message('Please provide a valid field option for templateId')).optional(),
+      osFamily: Joi.boolean().valid(true).error(message('Please provide a valid field option for osFamily')).optional(),
+      location: Joi.boolean().valid(true).error(message('Please provide a valid field option for location')).optional(),
+      availableNetwork: Joi.boolean().valid(true).error(message('Please provide a valid field option for availableNetwork')).optional(),
+      networkUnavailable: Joi.boolean().valid(true).error(message('Please provide a valid field option for networkUnavailable')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      id: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for id')).optional(),
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      templateId: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for templateId')).optional(),
+      osFamily: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for osFamily')).optional(),
+      location: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for location')).optional(),
+      availableNetwork: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for availableNetwork')).optional(),
+      networkUnavailable: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for networkUnavailable')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
+  // rebuilt from the audit log
+  if (typeof q.asOf === 'string') {
+    const records = orderBy(await history.find('ostemplate', new Date(q.asOf), { relations: q.relations === 'true' || q.format === 'csv' }), Object.keys(sort), Object.values(sort).map(String) as Array<'asc' | 'desc'>);
+    if (q.format === 'csv') {
+      return csv.send(res, 'ostemplates.csv', csvColumns, csv.columns(csvColumns, fields), [records]);
     }
+    const result = records.slice(page * limit, (page + 1) * limit).map((record) => (isEmpty(fields) ? record : pick(record, Object.keys(fields))));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplates: result, count: records.length, pages: Math.ceil(records.length / limit) });
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (has(q, 'relations') && q.relations === 'true') {
-      query.relations = {
-        osFamily: true,
-        location: true,
-      };
-    } else {
-      query.loadRelationIds = true;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    const [result, count] = await OsTemplateRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplates: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllOsTemplates]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
+
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
   }
-});
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
+  }
+
+  if (has(q, 'relations') && q.relations === 'true') {
+    query.relations = {
+      osFamily: true,
+      location: true,
+    };
+  } else {
+    query.loadRelationIds = true;
+  }
+
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  if (q.format === 'csv') {
+    return csv.send(res, 'ostemplates.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(OsTemplateRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(OsTemplateRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplates: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /ostemplate/:ostemplateId?relations=true Fetch ostemplate with given Id
  * @apiName fetchOsTemplate
  * @apiGroup OsTemplates
- * @apiPermission 'all'
+ * @apiPermission 'ostemplate:read'
  *
  * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  * @apiQuery {boolean} [relations] If relations is set to true, returned object will have foreign keys populated with foreign documents
+ * @apiQuery {string} [asOf] ISO date to fetch the ostemplate as it was at that instant
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -196,6 +345,7 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  *      "osFamily": true,
  *      "location": true,
  *      "availableNetwork": true,
+ *      "networkUnavailable": true,
  *      "createdBy": true,
  *      "updatedBy": true,
  *      "createdAt": true,
@@ -213,6 +363,7 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  *         "osFamily": 1,
  *         "location": 1,
  *         "availableNetwork": "/DC0/vm/network",
+ *         "networkUnavailable": false,
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "deletedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
@@ -225,73 +376,75 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:ostemplateId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:ostemplateId', permit.can('ostemplate:read'), problem.handle('fetchOsTemplate', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.ostemplateId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for ostemplateId')),
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      asOf: Joi.date().iso().error(message('Please provide a valid asOf')).optional(),
     }),
     fields: Joi.object().keys({
-      id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      templateId: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for templateId')).optional(),
-      osFamily: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for osFamily')).optional(),
-      location: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for location')).optional(),
-      availableNetwork: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for availableNetwork')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      templateId: Joi.boolean().valid(true).error(message('Please provide a valid field option for templateId')).optional(),
+      osFamily: Joi.boolean().valid(true).error(message('Please provide a valid field option for osFamily')).optional(),
+      location: Joi.boolean().valid(true).error(message('Please provide a valid field option for location')).optional(),
+      availableNetwork: Joi.boolean().valid(true).error(message('Please provide a valid field option for availableNetwork')).optional(),
+      networkUnavailable: Joi.boolean().valid(true).error(message('Please provide a valid field option for networkUnavailable')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchOsTemplate]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q, fields });
+
+  // rebuilt from the audit log
+  if (typeof q.asOf === 'string') {
+    const [ostemplate] = await history.find('ostemplate', new Date(q.asOf), { ids: [id], relations: q.relations === 'true' });
+    if (!ostemplate) {
+      throw new NotFoundError();
+    }
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate: isEmpty(fields) ? ostemplate : pick(ostemplate, Object.keys(fields)) });
   }
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    if (has(q, 'relations') && q.relations === 'true') {
-      query.relations = {
-        osFamily: true,
-        location: true,
-      };
-    } else {
-      query.loadRelationIds = true;
-    }
+  if (has(q, 'relations') && q.relations === 'true') {
+    query.relations = {
+      osFamily: true,
+      location: true,
+    };
+  } else {
+    query.loadRelationIds = true;
+  }
 
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    const ostemplate = await OsTemplateRepository.findOne(query);
-    if (!ostemplate) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchOsTemplate]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  const ostemplate = await OsTemplateRepository.findOne(query);
+  if (!ostemplate) {
+    throw new NotFoundError();
   }
-});
+  // expanded relations can change without the version
+  if (!query.relations) etag.set(res, ostemplate);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
+}));
 
 /**
  * @api {post} /ostemplate/ Create ostemplate
  * @apiName createOsTemplate
  * @apiGroup OsTemplates
- * @apiPermission 'all'
+ * @apiPermission 'ostemplate:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -312,6 +465,7 @@ router.get('/:ostemplateId', permit.allow('all'), async (req: express.Request, r
  *         "osFamily": 1,
  *         "location": 1,
  *         "availableNetwork": "/DC0/vm/network",
+ *         "networkUnavailable": false,
  *         "createdBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "createdAt": '2023-01-01T18:30:00.000Z'
  *       }
@@ -320,61 +474,89 @@ router.get('/:ostemplateId', permit.allow('all'), async (req: express.Request, r
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('ostemplate:write'), problem.handle('createOsTemplate', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: IOsTemplate = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      templateId: Joi.string().required().error(new Error('Please provide a valid templateId')),
-      osFamily: Joi.number().required().error(new Error('Please provide a valid number for osFamily')),
-      location: Joi.number().required().error(new Error('Please provide a valid number for location')),
-      availableNetwork: Joi.string().required().error(new Error('Please provide a valid availableNetwork')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createOsTemplate]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(createSchema, { b });
 
-  try {
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    const osFamily = await OsFamilyRepository.findOneBy({ id: b.osFamily });
-    if (!osFamily) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided osFamily doesn't exist" });
-    }
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    const location = await LocationRepository.findOneBy({ id: b.location });
-    if (!location) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided location doesn't exist" });
-    }
+  const { osFamily, location } = await findReferences(DB.getDataStore().manager, b);
 
-    if (!location.availableNetworks.includes(b.availableNetwork)) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: 'Provided availableNetwork is not part of location' });
-    }
+  const ostemplate = new OsTemplate();
+  ostemplate.name = b.name;
+  ostemplate.templateId = b.templateId;
+  ostemplate.osFamily = osFamily;
+  ostemplate.location = location;
+  ostemplate.availableNetwork = b.availableNetwork;
+  ostemplate.createdBy = req.user?.id;
+  ostemplate.updatedBy = req.user?.id;
 
-    const ostemplate = new OsTemplate();
-    ostemplate.name = b.name;
-    ostemplate.templateId = b.templateId;
-    ostemplate.osFamily = osFamily;
-    ostemplate.location = location;
-    ostemplate.availableNetwork = b.availableNetwork;
-    ostemplate.createdBy = req.user?.id;
-    ostemplate.updatedBy = req.user?.id;
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  await OsTemplateRepository.save(ostemplate);
 
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    await OsTemplateRepository.save(ostemplate);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
+}));
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createOsTemplate]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+/**
+ * @api {post} /ostemplate/bulk Create, update and delete ostemplates in bulk
+ * @apiName bulkOsTemplates
+ * @apiGroup OsTemplates
+ * @apiPermission 'ostemplate:write', 'ostemplate:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "Ubuntu 22.04", "templateId": "vm-101", "osFamily": 1, "location": 1, "availableNetwork": "vlan-10" }],
+ *         "update": [{ "id": 2, "templateId": "vm-102" }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('ostemplate:write'), permit.canIf(bulk.deletes, 'ostemplate:delete'), problem.handle('bulkOsTemplates', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkOsTemplates', writes)));
+
+/**
+ * @api {post} /ostemplate/import/csv Import ostemplates from CSV
+ * @apiName importOsTemplatesCsv
+ * @apiGroup OsTemplates
+ * @apiPermission 'ostemplate:write'
+ * @apiDescription Creates a ostemplate from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Relations are given by name. Files of GET /ostemplate?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,templateId,osFamily,location,availableNetwork
+ *     Ubuntu 22.04,/DC0/vm/template,Ubuntu,Bangalore,/DC0/vm/VLAN10
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('ostemplate:write'), csv.receive, problem.handle('importOsTemplatesCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -382,9 +564,10 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /ostemplate/:ostemplateId Update ostemplate
  * @apiName updateOsTemplate
  * @apiGroup OsTemplates
- * @apiPermission 'all'
+ * @apiPermission 'ostemplate:write'
  *
  * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Ubuntu 20.08",
@@ -403,6 +586,7 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  *         "osFamily": 1,
  *         "location": 1,
  *         "availableNetwork": "/DC0/vm/network",
+ *         "networkUnavailable": false,
  *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
  *         "updatedAt": '2023-01-01T18:30:00.000Z'
  *       }
@@ -411,32 +595,30 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:ostemplateId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:ostemplateId', permit.can('ostemplate:write'), problem.handle('updateOsTemplate', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.ostemplateId, 10);
   const b: Partial<IOsTemplate> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for ostemplateId')),
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
-      templateId: Joi.string().error(new Error('Please provide a valid templateId')),
-      osFamily: Joi.number().required().error(new Error('Please provide a valid number for osFamily')),
-      location: Joi.number().required().error(new Error('Please provide a valid number for location')),
-      availableNetwork: Joi.string().error(new Error('Please provide a valid availableNetwork')),
+      name: Joi.string().error(message('Please provide a valid name')),
+      templateId: Joi.string().error(message('Please provide a valid templateId')),
+      osFamily: Joi.number().required().error(message('Please provide a valid number for osFamily')),
+      location: Joi.number().required().error(message('Please provide a valid number for location')),
+      availableNetwork: Joi.string().error(message('Please provide a valid availableNetwork')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateOsTemplate]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
   const ostemplate = await OsTemplateRepository.findOne({ where: { id }, relations: { location: true } });
   if (!ostemplate) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, ostemplate);
+  managed.check(req, ostemplate);
 
   if (typeof b.name !== 'undefined') {
     ostemplate.name = b.name;
@@ -450,7 +632,7 @@ router.put('/:ostemplateId', permit.allow('all'), async (req: express.Request, r
     const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
     const osFamily = await OsFamilyRepository.findOneBy({ id: b.osFamily });
     if (!osFamily) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided osFamily doesn't exist" });
+      throw new ValidationError([{ path: 'body.osFamily', message: "Provided osFamily doesn't exist", rule: 'reference.missing' }]);
     }
     ostemplate.osFamily = osFamily;
   }
@@ -459,38 +641,110 @@ router.put('/:ostemplateId', permit.allow('all'), async (req: express.Request, r
     const LocationRepository = DB.getDataStore().getRepository(Location);
     const location = await LocationRepository.findOneBy({ id: b.location });
     if (!location) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: "Provided location doesn't exist" });
+      throw new ValidationError([{ path: 'body.location', message: "Provided location doesn't exist", rule: 'reference.missing' }]);
     }
     ostemplate.location = location;
   }
 
   if (typeof b.availableNetwork !== 'undefined') {
     if (!ostemplate.location?.availableNetworks.includes(b.availableNetwork)) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: 'Provided availableNetwork is not part of location' });
+      throw new ValidationError([{ path: 'body.availableNetwork', message: 'Provided availableNetwork is not part of location', rule: 'reference.mismatch' }]);
     }
     ostemplate.availableNetwork = b.availableNetwork;
+    ostemplate.networkUnavailable = false;
   }
 
-  try {
-    ostemplate.updatedBy = req.user?.id;
-    await OsTemplateRepository.save(ostemplate);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateOsTemplate]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  ostemplate.updatedBy = req.user?.id;
+  await etag.write(req, OsTemplate, ostemplate, (manager) => manager.save(ostemplate));
+  etag.set(res, ostemplate);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
+}));
+
+/**
+ * @api {patch} /ostemplate/:ostemplateId Patch ostemplate
+ * @apiName patchOsTemplate
+ * @apiGroup OsTemplates
+ * @apiPermission 'ostemplate:write'
+ *
+ * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/merge-patch+json):
+ *     {
+ *         "availableNetwork": "/DC0/vm/VLAN20"
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "ostemplate": {
+ *         "id": 1,
+ *         "name": "Ubuntu 20.08",
+ *         "templateId": "/DC0/vm/template",
+ *         "osFamily": 1,
+ *         "location": 1,
+ *         "availableNetwork": "/DC0/vm/network",
+ *         "networkUnavailable": false,
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:ostemplateId', permit.can('ostemplate:write'), problem.handle('patchOsTemplate', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.ostemplateId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
+  });
+  problem.validate(schema, { id });
+
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  const ostemplate = await OsTemplateRepository.findOne({ where: { id }, relations: { osFamily: true, location: true } });
+  if (!ostemplate) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, ostemplate);
+  managed.check(req, ostemplate);
+
+  const b = patch.apply(req, { ...pick(ostemplate, ['name', 'templateId', 'availableNetwork']), osFamily: ostemplate.osFamily?.id, location: ostemplate.location?.id });
+  problem.validate(createSchema, { b });
+  const { osFamily, location } = await findReferences(DB.getDataStore().manager, b);
+
+  ostemplate.name = b.name;
+  ostemplate.templateId = b.templateId;
+  ostemplate.availableNetwork = b.availableNetwork;
+  ostemplate.osFamily = osFamily;
+  ostemplate.location = location;
+  ostemplate.updatedBy = req.user?.id;
+  await etag.write(req, OsTemplate, ostemplate, (manager) => manager.save(ostemplate));
+  etag.set(res, ostemplate);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /ostemplate/:ostemplateId Delete ostemplate
  * @apiName deleteOsTemplate
  * @apiGroup OsTemplates
- * @apiPermission 'all'
+ * @apiPermission 'ostemplate:delete', 'ostemplate:admin' to purge
  *
  * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the ostemplate for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the ostemplate, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -500,41 +754,214 @@ router.put('/:ostemplateId', permit.allow('all'), async (req: express.Request, r
  * @apiUse ErrorBlock
  */
 
-router.delete('/:ostemplateId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:ostemplateId', permit.can('ostemplate:delete'), permit.canIf((req) => req.query.hard === 'true', 'ostemplate:admin'), problem.handle('deleteOsTemplate', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.ostemplateId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for ostemplateId')),
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteOsTemplate]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  const hard = q.hard === 'true';
+
+  const ostemplate = await OsTemplateRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!ostemplate) {
+    throw new NotFoundError();
   }
+  etag.check(req, ostemplate);
+  managed.check(req, ostemplate);
 
-  try {
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    const ostemplate = await OsTemplateRepository.findOneBy({ id });
-    if (!ostemplate) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('ostemplate', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('ostemplate', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, OsTemplate, ostemplate, (manager) => integrity.remove('ostemplate', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    ostemplate.deletedBy = req.user?.id;
-    await OsTemplateRepository.save(ostemplate);
+  if (hard) {
+    await etag.write(req, OsTemplate, ostemplate, (manager) => manager.remove(ostemplate));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await OsTemplateRepository.softDelete(id);
+  ostemplate.deletedBy = req.user?.id;
+  await etag.write(req, OsTemplate, ostemplate, async (manager) => {
+    await manager.save(ostemplate);
+    await manager.softRemove(ostemplate);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteOsTemplate]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /ostemplate/:ostemplateId/dependents Fetch records depending on ostemplate
+ * @apiName fetchOsTemplateDependents
+ * @apiGroup OsTemplates
+ * @apiPermission 'ostemplate:read'
+ *
+ * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:ostemplateId/dependents', permit.can('ostemplate:read'), problem.handle('fetchOsTemplateDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.ostemplateId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  const ostemplate = await OsTemplateRepository.findOneBy({ id });
+  if (!ostemplate) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('ostemplate', id) : await integrity.getDependents('ostemplate', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /ostemplate/:ostemplateId/restore Restore deleted ostemplate
+ * @apiName restoreOsTemplate
+ * @apiGroup OsTemplates
+ * @apiPermission 'ostemplate:admin'
+ *
+ * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "ostemplate": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:ostemplateId/restore', permit.can('ostemplate:admin'), problem.handle('restoreOsTemplate', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.ostemplateId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
+  });
+  problem.validate(schema, { id });
+
+  const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+  const ostemplate = await OsTemplateRepository.findOne({ where: { id }, withDeleted: true, relations: { osFamily: true, location: true } });
+  if (!ostemplate) {
+    throw new NotFoundError();
+  }
+  if (!ostemplate.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+  // purged, or never set on a nullable relation, answered like a missing reference instead of failing
+  if (!ostemplate.osFamily) {
+    throw new ValidationError([{ path: 'osFamily', message: "Provided osFamily doesn't exist", rule: 'reference.missing' }]);
+  }
+  if (ostemplate.osFamily.deletedAt) {
+    throw new ValidationError([{ path: 'osFamily', message: 'Provided osFamily has been deleted, restore it first', rule: 'reference.deleted' }]);
+  }
+  if (!ostemplate.location) {
+    throw new ValidationError([{ path: 'location', message: "Provided location doesn't exist", rule: 'reference.missing' }]);
+  }
+  if (ostemplate.location.deletedAt) {
+    throw new ValidationError([{ path: 'location', message: 'Provided location has been deleted, restore it first', rule: 'reference.deleted' }]);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(OsTemplate);
+    await repository.recover(ostemplate);
+    await repository.save(Object.assign(ostemplate, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, ostemplate: restored });
+}));
+
+/**
+ * @api {get} /ostemplate/:ostemplateId/history Fetch change history of ostemplate
+ * @apiName fetchOsTemplateHistory
+ * @apiGroup OsTemplates
+ * @apiPermission 'ostemplate:read' and 'audit:read'
+ *
+ * @apiParam ostemplateId OsTemplate's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "ostemplate",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:ostemplateId/history', permit.can('ostemplate:read', 'audit:read'), problem.handle('fetchOsTemplateHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.ostemplateId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for ostemplateId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'ostemplate', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
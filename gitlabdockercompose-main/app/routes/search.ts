@@ -0,0 +1,106 @@
+import express from 'express';
+import HttpStatus from 'http-status';
+import { ObjectSchema } from 'joi';
+import Joi, { message } from '../utils/helpers/joi.js';
+import search from '../utils/helpers/search.js';
+import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import permissions from '../utils/auth/permissions.js';
+import { Status } from '../types/enums/Status.js';
+import { Role } from '../types/enums/Role.js';
+import { ErrorCodes } from '../types/errors/codes.js';
+import { ErrorMessages } from '../types/errors/messages.js';
+
+const router = express.Router();
+
+/**
+ * @apiDefine ErrorBlock
+ * @apiErrorExample {json} Error-Response:
+ *     HTTP/1.1 200 Complete
+ *     {
+ *       "status": "error",
+ *       "code": XXXX,
+ *       "error": <i>Error message.</i>
+ *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
+ */
+
+/**
+ * @api {get} /search?q=ubuntu%2022%20bangalore Search the configuration catalog
+ * @apiName search
+ * @apiGroup Search
+ * @apiPermission 'all' (results are limited to the kinds the user can read)
+ *
+ * @apiQuery {string} q Words to search for in names and short names
+ * @apiQuery {string} [kind] Comma separated kinds to search in (catalog, ostemplate, osfamily, location, size, endpoint)
+ * @apiQuery {number} [limit] No of results to return, defaults to 20
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{
+ *         "kind": "ostemplate",
+ *         "id": 1,
+ *         "name": "Ubuntu 22.04",
+ *         "shortName": null,
+ *         "rank": 1.06
+ *       }, {
+ *         "kind": "location",
+ *         "id": 3,
+ *         "name": "Bangalore",
+ *         "shortName": null,
+ *         "rank": 1.03
+ *       }],
+ *       "count": 2
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/', permit.allow(Role.ALL), problem.handle('search', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      q: Joi.string()
+        .trim()
+        .pattern(/[\p{L}\p{N}]/u)
+        .max(200)
+        .error(message('Please provide a valid q'))
+        .required(),
+      kind: Joi.string()
+        .pattern(new RegExp(`^(${search.kinds.join('|')})(,(${search.kinds.join('|')}))*$`))
+        .error(message('Please provide a valid kind'))
+        .optional(),
+      limit: Joi.number().integer().min(1).max(100).error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { q });
+
+  const requested = typeof q.kind === 'string' ? q.kind.split(',') : search.kinds;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 20;
+
+  // only search in what the user is allowed to read
+  const roles = req.user?.roles ?? [];
+  const kinds: string[] = [];
+  for (const kind of requested) {
+    if (await permissions.hasPermissions(roles, [`${kind}:read`])) kinds.push(kind);
+  }
+
+  const results = await search.find(String(q.q), { kinds, limit });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, results, count: results.length });
+}));
+
+export default router;
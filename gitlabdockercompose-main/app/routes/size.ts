@@ -1,19 +1,94 @@
 import express from 'express';
 import HttpStatus from 'http-status';
-import { ObjectSchema, ValidationResult } from 'joi';
-import { isEmpty } from 'lodash';
-import { FindOneOptions, FindManyOptions, UpdateResult } from 'typeorm';
-import Joi from '../utils/helpers/joi.js';
+import { ObjectSchema } from 'joi';
+import { isEmpty, pick } from 'lodash';
+import { EntityManager, FindOneOptions, FindManyOptions } from 'typeorm';
+import Joi, { message } from '../utils/helpers/joi.js';
+import filter from '../utils/helpers/filter.js';
+import pagination from '../utils/helpers/pagination.js';
+import integrity from '../utils/helpers/integrity.js';
+import audit from '../utils/helpers/audit.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Size } from '../models/size.js';
-import logger from '../utils/logger.js';
 import permit from '../utils/auth/permit.js';
+import problem from '../utils/helpers/problem.js';
+import etag from '../utils/helpers/etag.js';
+import managed from '../utils/helpers/managed.js';
+import patch from '../utils/helpers/patch.js';
+import bulk from '../utils/helpers/bulk.js';
+import csv from '../utils/helpers/csv.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import permissions from '../utils/auth/permissions.js';
 import { Status } from '../types/enums/Status.js';
 import { ErrorCodes } from '../types/errors/codes.js';
 import { ErrorMessages } from '../types/errors/messages.js';
 
 const router = express.Router();
 
+// columns accepted by ?filter[<column>][<operator>]=<value> on the list route
+const filterColumns: IFilterColumns = {
+  id: 'number',
+  name: 'string',
+  cpus: 'number',
+  ram: 'number',
+  storage: 'number',
+  createdBy: 'string',
+  updatedBy: 'string',
+  createdAt: 'date',
+  updatedAt: 'date',
+};
+
+// body of a create, what a PATCH leaves of the record has to pass it as well
+const createSchema: ObjectSchema = Joi.object().keys({
+  b: Joi.object().keys({
+    name: Joi.string().required().error(message('Please provide a valid name')),
+    cpus: Joi.number().required().error(message('Please provide a valid number for cpus')),
+    ram: Joi.number().required().error(message('Please provide a valid number for ram')),
+    storage: Joi.number().required().error(message('Please provide a valid number for storage')),
+  }),
+});
+
+// creates and updates of the bulk and CSV import routes, checked like POST and PUT
+const writes = {
+  kind: 'size',
+  entity: Size,
+  create: async (manager: EntityManager, b: ISize, req: express.Request) => {
+    problem.validate(createSchema, { b });
+
+    const size = new Size();
+    size.name = b.name;
+    size.cpus = b.cpus;
+    size.ram = b.ram;
+    size.storage = b.storage;
+    size.createdBy = req.user?.id;
+    size.updatedBy = req.user?.id;
+    return manager.getRepository(Size).save(size);
+  },
+  update: async (manager: EntityManager, id: number, changes: Partial<ISize>, req: express.Request) => {
+    const SizeRepository = manager.getRepository(Size);
+    const size = await SizeRepository.findOneBy({ id });
+    if (!size) {
+      throw new NotFoundError();
+    }
+    managed.check(req, size);
+
+    const b = { ...pick(size, ['name', 'cpus', 'ram', 'storage']), ...changes };
+    problem.validate(createSchema, { b });
+
+    size.name = b.name;
+    size.cpus = b.cpus;
+    size.ram = b.ram;
+    size.storage = b.storage;
+    size.updatedBy = req.user?.id;
+    return SizeRepository.save(size);
+  },
+};
+
+// columns of the CSV export and import, relations by name
+const csvColumns = {
+  fields: ['name', 'cpus', 'ram', 'storage'],
+};
+
 /* inject: upload-init */
 
 /**
@@ -25,6 +100,18 @@ const router = express.Router();
  *       "code": XXXX,
  *       "error": <i>Error message.</i>
  *     }
+ * @apiErrorExample {json} Problem-Response (Accept-Version: 2):
+ *     HTTP/1.1 422 Unprocessable Entity
+ *     Content-Type: application/problem+json
+ *     {
+ *       "type": "urn:error:E1007",
+ *       "title": "Validation failed for the provided input",
+ *       "status": 422,
+ *       "detail": "Please provide a valid name",
+ *       "instance": "/size",
+ *       "code": 1007,
+ *       "errors": [{ "path": "body.name", "message": "Please provide a valid name" }, { "path": "body.cpus", "message": "Please provide a valid number for cpus" }]
+ *     }
  * @apiErrorExample {json} Auth-Failed:
  *     HTTP/1.1 401 Unauthorized
  *     {
@@ -38,10 +125,16 @@ const router = express.Router();
  * @api {get} /size/?page=1&limit=1 Fetch all sizes
  * @apiName fetchAllSizes
  * @apiGroup Sizes
- * @apiPermission 'all'
+ * @apiPermission 'size:read'
  *
  * @apiQuery {number} [page] Page number of result
  * @apiQuery {number} [limit] No of results to return per page
+ * @apiQuery {object} [filter] Filter by column, e.g. filter[name][like]=small&filter[id][in]=1,2
+ *   (operators: eq, ne, gt, gte, lt, lte, in, like, isnull)
+ * @apiQuery {string} [cursor] Switches to cursor pagination, pass it empty for the first page and next_cursor for the following ones
+ * @apiQuery {boolean} [count] Pass false to skip counting the total results
+ * @apiQuery {string="json","csv"} [format=json] csv answers with every matching record as a CSV file, page, limit and cursor don't apply
+ * @apiQuery {boolean} [withDeleted] Include deleted sizes, requires 'size:admin'
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -92,83 +185,88 @@ const router = express.Router();
  * @apiError ErrorRetrieving
  * @apiUse ErrorBlock
  */
-router.get('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
-  try {
-    const q: qs.ParsedQs = req.query;
-    const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
-    const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
-
-    // Validate Input
-    const schema: ObjectSchema = Joi.object().keys({
-      q: Joi.object().keys({
-        page: Joi.number().error(new Error('Please provide a valid page')).optional(),
-        limit: Joi.number().error(new Error('Please provide a valid limit')).optional(),
-        relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
-      }),
-      fields: Joi.object().keys({
-        id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-        name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-        cpus: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for cpus')).optional(),
-        ram: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for ram')).optional(),
-        storage: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for storage')).optional(),
-        createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-        updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-        createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-        updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
-      }),
-      sort: Joi.object().keys({
-        id: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for id')).optional(),
-        name: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for name')).optional(),
-        cpus: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for cpus')).optional(),
-        ram: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for ram')).optional(),
-        storage: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for storage')).optional(),
-        createdBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdBy')).optional(),
-        updatedBy: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedBy')).optional(),
-        createdAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for createdAt')).optional(),
-        updatedAt: Joi.string().valid('asc', 'desc').error(new Error('Please provide a valid sort option for updatedAt')).optional(),
-      }),
-    });
-    const validation: ValidationResult = schema.validate({ q, fields });
-    if (validation.error) {
-      logger.info('[fetchAllSizes]', validation.error.message);
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-    }
+router.get('/', permit.can('size:read'), permit.canIf((req) => req.query.withDeleted === 'true', 'size:admin'), problem.handle('fetchAllSizes', ErrorCodes.E1001, ErrorMessages.E1001, async (req: express.Request, res: express.Response) => {
+  const q: qs.ParsedQs = req.query;
+  const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
+  const sort: { [key: string]: boolean } = JSON.parse(req.get('X-API-Sort') || '{}');
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
+      filter: filter.schema(filterColumns),
+      ...pagination.schema(filterColumns),
+      withDeleted: Joi.boolean().error(message('Please provide a valid withDeleted')).optional(),
+      format: Joi.string().valid('json', 'csv').error(message('Please provide a valid format')).optional(),
+    }),
+    fields: Joi.object().keys({
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      cpus: Joi.boolean().valid(true).error(message('Please provide a valid field option for cpus')).optional(),
+      ram: Joi.boolean().valid(true).error(message('Please provide a valid field option for ram')).optional(),
+      storage: Joi.boolean().valid(true).error(message('Please provide a valid field option for storage')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
+    }),
+    sort: Joi.object().keys({
+      id: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for id')).optional(),
+      name: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for name')).optional(),
+      cpus: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for cpus')).optional(),
+      ram: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for ram')).optional(),
+      storage: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for storage')).optional(),
+      createdBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdBy')).optional(),
+      updatedBy: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedBy')).optional(),
+      createdAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for createdAt')).optional(),
+      updatedAt: Joi.string().valid('asc', 'desc').error(message('Please provide a valid sort option for updatedAt')).optional(),
+    }),
+  });
+  problem.validate(schema, { q, fields, sort });
 
-    const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
-    const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
 
-    const query: FindManyOptions = {
-      skip: page * limit,
-      take: limit,
-    };
+  const query: FindManyOptions = {
+    skip: page * limit,
+    take: limit,
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    if (!isEmpty(sort)) {
-      query.order = sort;
-    }
+  if (!isEmpty(sort)) {
+    query.order = sort;
+  }
 
-    const SizeRepository = DB.getDataStore().getRepository(Size);
-    const [result, count] = await SizeRepository.findAndCount(query);
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, sizes: result, count, pages: Math.ceil(count / limit) });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchAllSizes]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1001, error: ErrorMessages.E1001 });
+  if (q.withDeleted === 'true') {
+    query.withDeleted = true;
   }
-});
+
+  if (!isEmpty(q.filter)) {
+    query.where = filter.toWhere(q.filter as IFilterQuery, filterColumns);
+  }
+
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  if (q.format === 'csv') {
+    return csv.send(res, 'sizes.csv', csvColumns, csv.columns(csvColumns, fields), csv.pages(SizeRepository, query, csvColumns));
+  }
+  const { result, ...paging } = await pagination.paginate(SizeRepository, query, { limit, cursor: q.cursor, count: q.count !== 'false', sort, columns: filterColumns });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, sizes: result, ...paging });
+}));
 
 /* inject: route-get */
 /**
  * @api {get} /size/:sizeId Fetch size with given Id
  * @apiName fetchSize
  * @apiGroup Sizes
- * @apiPermission 'all'
+ * @apiPermission 'size:read'
  *
  * @apiParam sizeId Size's Unique Id
+ * @apiHeader {String} [If-None-Match] ETag of a previous response, answered with 304 Not Modified while the record is unchanged
  *
  * @apiHeaderExample {json} X-API-Fields:
  *   {
@@ -205,63 +303,53 @@ router.get('/', permit.allow('all'), async (req: express.Request, res: express.R
  * @apiUse ErrorBlock
  */
 
-router.get('/:sizeId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.get('/:sizeId', permit.can('size:read'), problem.handle('fetchSize', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.sizeId, 10);
   const q: qs.ParsedQs = req.query;
   const fields: { [key: string]: boolean } = JSON.parse(req.get('X-API-Fields') || '{}');
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for sizeId')),
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
     q: Joi.object().keys({
-      relations: Joi.boolean().error(new Error('Please provide a valid relations')).optional(),
+      relations: Joi.boolean().error(message('Please provide a valid relations')).optional(),
     }),
     fields: Joi.object().keys({
-      id: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for id')).optional(),
-      name: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for name')).optional(),
-      cpus: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for cpus')).optional(),
-      ram: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for ram')).optional(),
-      storage: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for storage')).optional(),
-      createdBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdBy')).optional(),
-      updatedBy: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedBy')).optional(),
-      createdAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for createdAt')).optional(),
-      updatedAt: Joi.boolean().valid(true).error(new Error('Please provide a valid field option for updatedAt')).optional(),
+      id: Joi.boolean().valid(true).error(message('Please provide a valid field option for id')).optional(),
+      name: Joi.boolean().valid(true).error(message('Please provide a valid field option for name')).optional(),
+      cpus: Joi.boolean().valid(true).error(message('Please provide a valid field option for cpus')).optional(),
+      ram: Joi.boolean().valid(true).error(message('Please provide a valid field option for ram')).optional(),
+      storage: Joi.boolean().valid(true).error(message('Please provide a valid field option for storage')).optional(),
+      createdBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdBy')).optional(),
+      updatedBy: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedBy')).optional(),
+      createdAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for createdAt')).optional(),
+      updatedAt: Joi.boolean().valid(true).error(message('Please provide a valid field option for updatedAt')).optional(),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, q, fields });
-  if (validation.error) {
-    logger.info('[fetchSize]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, q, fields });
 
-  try {
-    const query: FindOneOptions = {
-      where: { id },
-    };
+  const query: FindOneOptions = {
+    where: { id },
+  };
 
-    if (!isEmpty(fields)) {
-      query.select = fields;
-    }
+  if (!isEmpty(fields)) {
+    query.select = fields;
+  }
 
-    const SizeRepository = DB.getDataStore().getRepository(Size);
-    const size = await SizeRepository.findOne(query);
-    if (!size) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-    }
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[fetchSize]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1002, error: ErrorMessages.E1002 });
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  const size = await SizeRepository.findOne(query);
+  if (!size) {
+    throw new NotFoundError();
   }
-});
+  etag.set(res, size);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
+}));
 
 /**
  * @api {post} /size/ Create size
  * @apiName createSize
  * @apiGroup Sizes
- * @apiPermission 'all'
+ * @apiPermission 'size:write'
  *
  * @apiHeaderExample {json} Input:
  *     {
@@ -289,44 +377,86 @@ router.get('/:sizeId', permit.allow('all'), async (req: express.Request, res: ex
  * @apiUse ErrorBlock
  */
 
-router.post('/', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.post('/', permit.can('size:write'), problem.handle('createSize', ErrorCodes.E1003, ErrorMessages.E1003, async (req: express.Request, res: express.Response) => {
   const b: ISize = req.body;
 
   // Validate Input
-  const schema: ObjectSchema = Joi.object().keys({
-    b: Joi.object().keys({
-      name: Joi.string().required().error(new Error('Please provide a valid name')),
-      cpus: Joi.number().required().error(new Error('Please provide a valid number for cpus')),
-      ram: Joi.number().required().error(new Error('Please provide a valid number for ram')),
-      storage: Joi.number().required().error(new Error('Please provide a valid number for storage')),
-    }),
-  });
-  const validation: ValidationResult = schema.validate({ b });
-  if (validation.error) {
-    logger.info('[createSize]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(createSchema, { b });
 
-  try {
-    const size = new Size();
-    size.name = b.name;
-    size.cpus = b.cpus;
-    size.ram = b.ram;
-    size.storage = b.storage;
-    size.createdBy = req.user?.id;
-    size.updatedBy = req.user?.id;
+  const size = new Size();
+  size.name = b.name;
+  size.cpus = b.cpus;
+  size.ram = b.ram;
+  size.storage = b.storage;
+  size.createdBy = req.user?.id;
+  size.updatedBy = req.user?.id;
 
-    const SizeRepository = DB.getDataStore().getRepository(Size);
-    await SizeRepository.save(size);
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  await SizeRepository.save(size);
 
-    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[createSize]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1003, error: ErrorMessages.E1003 });
-  }
-});
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
+}));
+
+/**
+ * @api {post} /size/bulk Create, update and delete sizes in bulk
+ * @apiName bulkSizes
+ * @apiGroup Sizes
+ * @apiPermission 'size:write', 'size:delete' to delete
+ * @apiDescription Creates, then updates, then deletes in a single transaction. In atomic mode (the default) the first failing item
+ *   rolls back everything and is answered as the error, in partial mode the others go through and every item gets its result.
+ *
+ * @apiHeaderExample {json} Input:
+ *     {
+ *         "mode": "partial",
+ *         "create": [{ "name": "Small", "cpus": 2, "ram": 1024, "storage": 10 }],
+ *         "update": [{ "id": 2, "cpus": 4 }],
+ *         "delete": [3]
+ *     }
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [
+ *         { "operation": "create", "index": 0, "status": "success", "id": 4 },
+ *         { "operation": "update", "index": 0, "status": "success", "id": 2 },
+ *         { "operation": "delete", "index": 0, "status": "error", "code": 1006, "error": "Unable to find the requested resource with provided identifier" }
+ *       ],
+ *       "failed": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/bulk', permit.can('size:write'), permit.canIf(bulk.deletes, 'size:delete'), problem.handle('bulkSizes', ErrorCodes.E1014, ErrorMessages.E1014, bulk.handle('bulkSizes', writes)));
+
+/**
+ * @api {post} /size/import/csv Import sizes from CSV
+ * @apiName importSizesCsv
+ * @apiGroup Sizes
+ * @apiPermission 'size:write'
+ * @apiDescription Creates a size from every row of the file without an id and updates the one with the id otherwise, in a single transaction.
+ *   A row is validated like the body of a create, empty cells are left out. Files of GET /size?format=csv can be imported as they are.
+ *   Nothing is saved while a row fails, the errors of all rows are answered at once (file.<row>.<column>, the header being row 1).
+ *
+ * @apiBody {File} file CSV file with a header row, as multipart/form-data
+ * @apiParamExample {text} file:
+ *     name,cpus,ram,storage
+ *     Small,2,1024,10
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "results": [{ "row": 2, "action": "create", "id": 4 }],
+ *       "created": 1,
+ *       "updated": 0
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.post('/import/csv', permit.can('size:write'), csv.receive, problem.handle('importSizesCsv', ErrorCodes.E1014, ErrorMessages.E1014, csv.handle(csvColumns, writes)));
 
 /* inject: route-post */
 /* inject: route-put */
@@ -334,9 +464,10 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @api {put} /size/:sizeId Update size
  * @apiName updateSize
  * @apiGroup Sizes
- * @apiPermission 'all'
+ * @apiPermission 'size:write'
  *
  * @apiParam sizeId Size's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being updated, a record changed in the meantime is answered with code 1017
  * @apiHeaderExample {json} Input:
  *     {
  *         "name": "Small",
@@ -363,31 +494,29 @@ router.post('/', permit.allow('all'), async (req: express.Request, res: express.
  * @apiUse ErrorBlock
  */
 
-router.put('/:sizeId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.put('/:sizeId', permit.can('size:write'), problem.handle('updateSize', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.sizeId, 10);
   const b: Partial<ISize> = req.body;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for sizeId')),
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
     b: Joi.object().keys({
-      name: Joi.string().error(new Error('Please provide a valid name')),
-      cpus: Joi.number().error(new Error('Please provide a valid number for cpus')),
-      ram: Joi.number().error(new Error('Please provide a valid number for ram')),
-      storage: Joi.number().error(new Error('Please provide a valid number for storage')),
+      name: Joi.string().error(message('Please provide a valid name')),
+      cpus: Joi.number().error(message('Please provide a valid number for cpus')),
+      ram: Joi.number().error(message('Please provide a valid number for ram')),
+      storage: Joi.number().error(message('Please provide a valid number for storage')),
     }),
   });
-  const validation: ValidationResult = schema.validate({ id, b });
-  if (validation.error) {
-    logger.info('[updateSize]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
-  }
+  problem.validate(schema, { id, b });
 
   const SizeRepository = DB.getDataStore().getRepository(Size);
   const size = await SizeRepository.findOneBy({ id });
   if (!size) {
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+    throw new NotFoundError();
   }
+  etag.check(req, size);
+  managed.check(req, size);
 
   if (typeof b.name !== 'undefined') {
     size.name = b.name;
@@ -405,26 +534,94 @@ router.put('/:sizeId', permit.allow('all'), async (req: express.Request, res: ex
     size.storage = b.storage;
   }
 
-  try {
-    size.updatedBy = req.user?.id;
-    await SizeRepository.save(size);
-    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[updateSize]', err.message);
-    }
-    res.status(HttpStatus.OK).send({ status: Status.ERROR, codes: ErrorCodes.E1004, error: ErrorMessages.E1004 });
+  size.updatedBy = req.user?.id;
+  await etag.write(req, Size, size, (manager) => manager.save(size));
+  etag.set(res, size);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
+}));
+
+/**
+ * @api {patch} /size/:sizeId Patch size
+ * @apiName patchSize
+ * @apiGroup Sizes
+ * @apiPermission 'size:write'
+ *
+ * @apiParam sizeId Size's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being patched, a record changed in the meantime is answered with code 1017
+ * @apiHeader {String} Content-Type application/merge-patch+json or application/json-patch+json
+ * @apiHeaderExample {json} Input (application/json-patch+json):
+ *     [
+ *         { "op": "test", "path": "/cpus", "value": 2 },
+ *         { "op": "replace", "path": "/cpus", "value": 4 }
+ *     ]
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "size": {
+ *         "id": 1,
+ *         "name": "Small",
+ *         "cpus": 2,
+ *         "ram": 1024,
+ *         "storage": 10,
+ *         "updatedBy": 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0',
+ *         "updatedAt": '2023-01-01T18:30:00.000Z'
+ *       }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+
+router.patch('/:sizeId', permit.can('size:write'), problem.handle('patchSize', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.sizeId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
+  });
+  problem.validate(schema, { id });
+
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  const size = await SizeRepository.findOneBy({ id });
+  if (!size) {
+    throw new NotFoundError();
   }
-});
+  etag.check(req, size);
+  managed.check(req, size);
+
+  const b = patch.apply(req, pick(size, ['name', 'cpus', 'ram', 'storage']));
+  problem.validate(createSchema, { b });
+
+  size.name = b.name;
+  size.cpus = b.cpus;
+  size.ram = b.ram;
+  size.storage = b.storage;
+  size.updatedBy = req.user?.id;
+  await etag.write(req, Size, size, (manager) => manager.save(size));
+  etag.set(res, size);
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size });
+}));
 
 /* inject: route-delete */
 /**
  * @api {delete} /size/:sizeId Delete size
  * @apiName deleteSize
  * @apiGroup Sizes
- * @apiPermission 'all'
+ * @apiPermission 'size:delete', 'size:admin' to purge
  *
  * @apiParam sizeId Size's Unique Id
+ * @apiHeader {String} [If-Match] ETag of the record being deleted, a record changed in the meantime is answered with code 1017
+ * @apiQuery {boolean} [hard] Purge the size for good instead of marking it deleted, also purges already deleted ones
+ * @apiQuery {boolean} [cascade] Also delete the records depending on the size, requires the delete permission for each of them
+ * @apiErrorExample {json} Dependents-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "error",
+ *       "code": 1016,
+ *       "error": "Resource with provided identifier is still referenced by other resources",
+ *       "dependents": [{ "kind": "catalog", "id": 1, "name": "Ubuntu VM" }]
+ *     }
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
  *     {
@@ -434,41 +631,201 @@ router.put('/:sizeId', permit.allow('all'), async (req: express.Request, res: ex
  * @apiUse ErrorBlock
  */
 
-router.delete('/:sizeId', permit.allow('all'), async (req: express.Request, res: express.Response) => {
+router.delete('/:sizeId', permit.can('size:delete'), permit.canIf((req) => req.query.hard === 'true', 'size:admin'), problem.handle('deleteSize', ErrorCodes.E1005, ErrorMessages.E1005, async (req: express.Request, res: express.Response) => {
   const id: number = parseInt(req.params.sizeId, 10);
+  const q: qs.ParsedQs = req.query;
 
   // Validate Input
   const schema: ObjectSchema = Joi.object().keys({
-    id: Joi.number().required().error(new Error('Please provide a valid number for sizeId')),
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
+    q: Joi.object().keys({
+      hard: Joi.boolean().error(message('Please provide a valid hard')).optional(),
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
   });
-  const validation: ValidationResult = schema.validate({ id });
-  if (validation.error) {
-    logger.info('[deleteSize]', validation.error.message);
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1007, error: validation.error.message });
+  problem.validate(schema, { id, q });
+
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  const hard = q.hard === 'true';
+
+  const size = await SizeRepository.findOne({ where: { id }, withDeleted: hard });
+  if (!size) {
+    throw new NotFoundError();
   }
+  etag.check(req, size);
+  managed.check(req, size);
 
-  try {
-    const SizeRepository = DB.getDataStore().getRepository(Size);
-    const size = await SizeRepository.findOneBy({ id });
-    if (!size) {
-      return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
+  // records pointing at this one block the delete, unless they are deleted along with it
+  const dependents = await integrity.getDependents('size', id, hard);
+  if (dependents.length && q.cascade !== 'true') {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  if (dependents.length) {
+    const chain = await integrity.getChain('size', id, hard);
+    if (!(await permissions.hasPermissions(req.user?.roles ?? [], integrity.getRequiredPermissions(chain, hard)))) {
+      return permit.refuse(req, res);
     }
+    await etag.write(req, Size, size, (manager) => integrity.remove('size', id, chain, { hard, userId: req.user?.id, manager }));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents: chain });
+  }
 
-    size.deletedBy = req.user?.id;
-    await SizeRepository.save(size);
+  if (hard) {
+    await etag.write(req, Size, size, (manager) => manager.remove(size));
+    return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+  }
 
-    const result: UpdateResult = await SizeRepository.softDelete(id);
+  size.deletedBy = req.user?.id;
+  await etag.write(req, Size, size, async (manager) => {
+    await manager.save(size);
+    await manager.softRemove(size);
+  });
 
-    if (typeof result.affected !== 'undefined' && result.affected > 0) {
-      return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1006, error: ErrorMessages.E1006 });
-  } catch (err: unknown) {
-    if (err instanceof Error) {
-      logger.error('[deleteSize]', err.message);
-    }
-    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: ErrorCodes.E1005, error: ErrorMessages.E1005 });
+  return res.status(HttpStatus.OK).send({ status: Status.SUCCESS });
+}));
+
+/**
+ * @api {get} /size/:sizeId/dependents Fetch records depending on size
+ * @apiName fetchSizeDependents
+ * @apiGroup Sizes
+ * @apiPermission 'size:read'
+ *
+ * @apiParam sizeId Size's Unique Id
+ * @apiQuery {boolean} [cascade] Return everything a cascading delete would remove instead of the direct dependents only
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "dependents": [{
+ *         "kind": "catalog",
+ *         "id": 1,
+ *         "name": "Ubuntu VM"
+ *       }]
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:sizeId/dependents', permit.can('size:read'), problem.handle('fetchSizeDependents', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.sizeId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
+    q: Joi.object().keys({
+      cascade: Joi.boolean().error(message('Please provide a valid cascade')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  const size = await SizeRepository.findOneBy({ id });
+  if (!size) {
+    throw new NotFoundError();
   }
-});
+
+  const dependents = q.cascade === 'true' ? await integrity.getChain('size', id) : await integrity.getDependents('size', id);
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, dependents });
+}));
+
+/**
+ * @api {post} /size/:sizeId/restore Restore deleted size
+ * @apiName restoreSize
+ * @apiGroup Sizes
+ * @apiPermission 'size:admin'
+ *
+ * @apiParam sizeId Size's Unique Id
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "size": { ... }
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.post('/:sizeId/restore', permit.can('size:admin'), problem.handle('restoreSize', ErrorCodes.E1004, ErrorMessages.E1004, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.sizeId, 10);
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
+  });
+  problem.validate(schema, { id });
+
+  const SizeRepository = DB.getDataStore().getRepository(Size);
+  const size = await SizeRepository.findOne({ where: { id }, withDeleted: true });
+  if (!size) {
+    throw new NotFoundError();
+  }
+  if (!size.deletedAt) {
+    throw new ConflictError(ErrorCodes.E1021, ErrorMessages.E1021);
+  }
+
+  // through the entity, so the restore is audited
+  const restored = await DB.getDataStore().transaction(async (manager) => {
+    const repository = manager.getRepository(Size);
+    await repository.recover(size);
+    await repository.save(Object.assign(size, { deletedBy: null, updatedBy: req.user?.id }));
+    return repository.findOneBy({ id });
+  });
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, size: restored });
+}));
+
+/**
+ * @api {get} /size/:sizeId/history Fetch change history of size
+ * @apiName fetchSizeHistory
+ * @apiGroup Sizes
+ * @apiPermission 'size:read' and 'audit:read'
+ *
+ * @apiParam sizeId Size's Unique Id
+ * @apiQuery {number} [page] Page number, starting at 0
+ * @apiQuery {number} [limit] No of entries per page, defaults to 50
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "status": "success",
+ *       "history": [{
+ *         "id": 31,
+ *         "entity": "size",
+ *         "entityId": 1,
+ *         "action": "update",
+ *         "changes": {
+ *           "name": { "from": "...", "to": "..." }
+ *         },
+ *         "actor": "b2c0a5c4-3f5e-4a63-9c1e-0f6f0f5e4d2a",
+ *         "requestId": "0d1f6a57-8a2b-4f57-a0a4-4c3cbd7a8b60",
+ *         "ip": "10.0.0.12",
+ *         "createdAt": "2023-04-12T10:15:00.000Z"
+ *       }],
+ *       "count": 1,
+ *       "pages": 1
+ *     }
+ * @apiError ErrorRetrieving
+ * @apiUse ErrorBlock
+ */
+router.get('/:sizeId/history', permit.can('size:read', 'audit:read'), problem.handle('fetchSizeHistory', ErrorCodes.E1002, ErrorMessages.E1002, async (req: express.Request, res: express.Response) => {
+  const id: number = parseInt(req.params.sizeId, 10);
+  const q: qs.ParsedQs = req.query;
+
+  // Validate Input
+  const schema: ObjectSchema = Joi.object().keys({
+    id: Joi.number().required().error(message('Please provide a valid number for sizeId')),
+    q: Joi.object().keys({
+      page: Joi.number().error(message('Please provide a valid page')).optional(),
+      limit: Joi.number().error(message('Please provide a valid limit')).optional(),
+    }),
+  });
+  problem.validate(schema, { id, q });
+
+  const page = typeof q.page === 'string' ? parseInt(q.page, 10) : 0;
+  const limit = typeof q.limit === 'string' ? parseInt(q.limit, 10) : 50;
+
+  // purged records keep their history
+  const { entries, count, pages } = await audit.find({ entity: 'size', entityId: id }, { page, limit });
+  if (!count) {
+    throw new NotFoundError();
+  }
+  res.status(HttpStatus.OK).send({ status: Status.SUCCESS, history: entries, count, pages });
+}));
 
 export default router;
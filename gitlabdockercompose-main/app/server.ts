@@ -9,8 +9,12 @@ import helmet from 'helmet';
 import hpp from 'hpp';
 import dotenv from 'dotenv';
 import logger from './utils/logger.js';
-import DB from './utils/connectors/typeorm.js';
+import config from './utils/config.js';
 import router from './router.js';
+import context from './utils/helpers/context.js';
+import status from './utils/helpers/status.js';
+import i18n from './utils/helpers/i18n.js';
+import problem from './utils/helpers/problem.js';
 import { isTestEnv } from './utils/helpers/test.js';
 
 /*
@@ -23,9 +27,14 @@ if (envLoaded.error) {
 }
 
 /*
- * Initiates DB connection
+ * Validates the settings, the server doesn't start with a missing or invalid one
  */
-DB.init();
+try {
+  config.get();
+} catch (err: unknown) {
+  logger.error('[config]', err instanceof Error ? err.message : err);
+  process.exit(1);
+}
 
 /*
  * Initiates Express and loads following middlewares
@@ -35,6 +44,11 @@ DB.init();
  */
 const app = express();
 
+// needed behind a reverse proxy for the source IP in the audit log, e.g. TRUST_PROXY=1
+if (config.get().server.trustProxy !== undefined) {
+  app.set('trust proxy', config.get().server.trustProxy);
+}
+
 // [security] checks: start
 app.use(
   helmet({
@@ -42,15 +56,21 @@ app.use(
     crossOriginResourcePolicy: false,
   })
 );
-app.use(cors({ credentials: true, origin: '*' }));
+app.use(cors({ credentials: true, origin: '*', exposedHeaders: ['ETag', 'Warning'] }));
 app.use(hpp());
 // [security] checks: end
 
 if (!isTestEnv()) app.use(morgan('short'));
-app.use(bodyParser.json());
+// ahead of the body parsers, a malformed body is answered in the language of the request too
+app.use(i18n.middleware);
+// application/json and its +json variants, e.g. the PATCH formats
+app.use(bodyParser.json({ type: ['application/json', 'application/*+json'] }));
 app.use(bodyParser.urlencoded({ extended: true }));
-if (process.env.SERVER_STATIC) {
-  app.use('/', express.static(path.join(__dirname, process.env.SERVER_STATIC)));
+// after the body parsers, their stream callbacks would lose the request context
+app.use(context.middleware);
+app.use(status.middleware);
+if (config.get().server.static) {
+  app.use('/', express.static(path.join(__dirname, config.get().server.static ?? '')));
 }
 app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
 
@@ -59,6 +79,11 @@ app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
  */
 router.init(app);
 
+/*
+ * Answers the errors thrown by the routes, must come after them
+ */
+app.use(problem.middleware);
+
 /*
  * Server is created with the provided port
  */
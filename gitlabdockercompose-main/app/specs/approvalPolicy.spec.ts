@@ -2,9 +2,10 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import request from 'supertest';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
+import { signTestToken } from '../utils/helpers/test.js';
 import { ApprovalPolicy } from '../models/approvalPolicy.js';
 
-const token = 'none';
+const token = signTestToken(['admin']);
 
 const toCreate = {
   name: 'Policy 1',
@@ -20,8 +21,18 @@ describe('Approvalpolicy', () => {
   let id: string = 'none';
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+  });
+
+  it('should reject an approvalpolicy on /approvalpolicy POST without a token', async () => {
+    const res = await request(server)
+      .post('/approvalpolicy')
+      .send(toCreate)
+      .expect(401)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('access-denied');
   });
 
   it('should add a SINGLE approvalpolicy on /approvalpolicy POST', async () => {
@@ -101,6 +112,32 @@ describe('Approvalpolicy', () => {
     expect(getRes.body.approvalpolicy.policies[0]).toMatchObject(toUpdate.policies[0]);
   });
 
+  it('should fetch approvalpolicies as they were on /approvalpolicy?asOf= GET', async () => {
+    const asOf = new Date().toISOString();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await request(server)
+      .put(`/approvalpolicy/${id}`)
+      .set('Authorization', token)
+      .send({ ...toUpdate, name: 'Policy 2' })
+      .expect(200);
+
+    const res = await request(server)
+      .get(`/approvalpolicy/${id}?asOf=${asOf}`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.approvalpolicy.name).to.be.equal(toUpdate.name);
+
+    const listRes = await request(server).get(`/approvalpolicy?asOf=${asOf}&limit=1000`).set('Authorization', token).expect(200);
+    expect(listRes.body.status).to.be.equal('success');
+    expect(listRes.body.approvalpolicies.find((approvalpolicy: { id: string; name: string }) => approvalpolicy.id === id).name).to.be.equal(toUpdate.name);
+
+    const beforeRes = await request(server).get(`/approvalpolicy/${id}?asOf=2000-01-01T00:00:00Z`).set('Authorization', token).expect(200);
+    expect(beforeRes.body.status).to.be.equal('error');
+    expect(beforeRes.body.code).to.be.equal(1006);
+  });
+
   it('should delete a SINGLE approvalpolicy on /approvalpolicy/<id> DELETE', async () => {
     const res = await request(server)
       .delete(`/approvalpolicy/${id}`)
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import server from '../server.js';
+import DB from '../utils/connectors/typeorm.js';
+import { Size } from '../models/size.js';
+import { signTestToken } from '../utils/helpers/test.js';
+
+const token = signTestToken(['user']);
+const adminToken = signTestToken(['admin']);
+
+describe('Audit', () => {
+  let id: number;
+
+  beforeAll(async () => {
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+  });
+
+  it('should record changes of a size on /audit GET', async () => {
+    const createRes = await request(server).post('/size').set('Authorization', adminToken).set('X-Request-Id', 'audit-spec-create').send({ name: 'Audited', cpus: 2, ram: 1024, storage: 10 });
+    id = createRes.body.size.id;
+    await request(server).put(`/size/${id}`).set('Authorization', adminToken).send({ name: 'Audited', cpus: 4, ram: 1024, storage: 10 });
+    await request(server).delete(`/size/${id}`).set('Authorization', adminToken);
+    await request(server).post(`/size/${id}/restore`).set('Authorization', adminToken);
+
+    const res = await request(server)
+      .get(`/audit?entity=size&entityId=${id}`)
+      .set('Authorization', adminToken)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.entries.map((entry: IAuditLog) => entry.action)).to.be.deep.equal(['restore', 'delete', 'update', 'create']);
+    expect(res.body.entries[2].changes).to.be.deep.equal({ cpus: { from: 2, to: 4 } });
+    expect(res.body.entries[3].changes.name).to.be.deep.equal({ from: null, to: 'Audited' });
+    expect(res.body.entries[3].requestId).to.be.equal('audit-spec-create');
+    expect(res.body.entries[3].actor).to.be.a('string');
+    expect(res.body.entries[3].ip).to.be.a('string');
+  });
+
+  it('should list the history of a size on /size/<id>/history GET', async () => {
+    await request(server).get(`/size/${id}/history`).set('Authorization', token).expect(403);
+
+    const res = await request(server)
+      .get(`/size/${id}/history?limit=1`)
+      .set('Authorization', adminToken)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.history).to.have.lengthOf(1);
+    expect(res.body.history[0].action).to.be.equal('restore');
+    expect(res.body.count).to.be.equal(4);
+
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    await SizeRepository.delete(id);
+  });
+
+  it('should reject an invalid entity on /audit GET', async () => {
+    const res = await request(server)
+      .get('/audit?entity=unknown')
+      .set('Authorization', adminToken)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+  });
+});
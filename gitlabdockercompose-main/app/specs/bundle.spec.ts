@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import server from '../server.js';
+import DB from '../utils/connectors/typeorm.js';
+import { Size } from '../models/size.js';
+import seed from '../utils/helpers/seed.js';
+import { signTestToken } from '../utils/helpers/test.js';
+
+const adminToken = signTestToken(['admin']);
+
+// unique, the records of earlier runs share natural keys
+const name = `Bundled ${Date.now()}`;
+
+const toImport = {
+  version: 1,
+  sizes: [{ name, cpus: 2, ram: 1024, storage: 10 }],
+};
+
+describe('Bundle', () => {
+  beforeAll(async () => {
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+  });
+
+  afterAll(async () => {
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    await SizeRepository.delete({ name });
+  });
+
+  it('should report the changes without applying them on /import?dryRun=true POST', async () => {
+    const res = await request(server)
+      .post('/import?dryRun=true')
+      .set('Authorization', adminToken)
+      .send(toImport)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.dryRun).to.be.equal(true);
+    expect(res.body.changes).to.be.deep.equal([{ kind: 'size', key: name, action: 'create' }]);
+
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    expect(await SizeRepository.countBy({ name })).to.be.equal(0);
+  });
+
+  it('should upsert by natural key on /import POST', async () => {
+    const res = await request(server).post('/import').set('Authorization', adminToken).send(toImport).expect(200);
+    expect(res.body.summary).to.be.deep.equal({ create: 1, update: 0, unchanged: 0 });
+
+    const yamlRes = await request(server)
+      .post('/import')
+      .set('Authorization', adminToken)
+      .set('Content-Type', 'application/yaml')
+      .send(`version: 1\nsizes:\n  - name: ${name}\n    cpus: 4\n    ram: 1024\n    storage: 10\n`)
+      .expect(200);
+    expect(yamlRes.body.changes).to.be.deep.equal([{ kind: 'size', key: name, action: 'update', changes: { cpus: { from: 2, to: 4 } } }]);
+  });
+
+  it('should export the records by natural key on /export GET', async () => {
+    const res = await request(server).get('/export').set('Authorization', adminToken).expect(200).expect('Content-Disposition', 'attachment; filename="bundle.json"');
+    expect(res.body.version).to.be.equal(1);
+    expect(res.body.sizes).to.deep.include({ name, cpus: 4, ram: 1024, storage: 10 });
+    expect(res.body.endpoints.every((endpoint: IBundleItem) => !('password' in endpoint))).to.be.equal(true);
+
+    const yamlRes = await request(server).get('/export?format=yaml').set('Authorization', adminToken).expect(200).expect('Content-Type', /application\/yaml/);
+    expect(yamlRes.text).to.include(`name: ${name}`);
+  });
+
+  it('should reject records pointing at unknown ones on /import POST', async () => {
+    const res = await request(server)
+      .post('/import')
+      .set('Authorization', adminToken)
+      .send({ version: 1, locations: [{ name, availableNetworks: ['VLAN10'], endpoint: `missing ${Date.now()}` }] })
+      .expect(200);
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+    expect(res.body.errors[0]).to.include({ path: 'body.locations.0.endpoint', rule: 'reference.missing' });
+  });
+
+  it('should plan the desired state as text on /reconcile?dryRun=true POST', async () => {
+    const res = await request(server)
+      .post('/reconcile?dryRun=true')
+      .set('Authorization', adminToken)
+      .set('Accept', 'text/plain')
+      .send({ version: 1, sizes: [{ name, cpus: 8, ram: 1024, storage: 10 }] })
+      .expect(200)
+      .expect('Content-Type', /text\/plain/);
+    expect(res.text).to.include(`~ size "${name}"`);
+    expect(res.text).to.include('managed: false => true');
+    expect(res.text).to.match(/Plan: \d+ to create, \d+ to update, \d+ to delete\./);
+  });
+
+  it('should refuse to reconcile a kind with records sharing a natural key on /reconcile POST', async () => {
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    const twins = await SizeRepository.save([1, 2].map(() => Object.assign(new Size(), { name: `${name} twin`, cpus: 1, ram: 512, storage: 5 })));
+
+    const res = await request(server)
+      .post('/reconcile?dryRun=true')
+      .set('Authorization', adminToken)
+      .send({ version: 1, sizes: [{ name, cpus: 8, ram: 1024, storage: 10 }] })
+      .expect(200);
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1019);
+    expect(res.body.duplicates).to.deep.include({ kind: 'size', key: `${name} twin` });
+
+    await SizeRepository.delete(twins.map((twin) => twin.id));
+  });
+
+  it('should warn about manual changes of a managed record on /size/:id PUT', async () => {
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    await SizeRepository.update({ name }, { managed: true });
+    const size = await SizeRepository.findOneByOrFail({ name });
+
+    const res = await request(server).put(`/size/${size.id}`).set('Authorization', adminToken).send({ name, cpus: 4, ram: 2048, storage: 10 }).expect(200);
+    expect(res.body.status).to.be.equal('success');
+    expect(res.headers.warning).to.include('managed declaratively');
+  });
+
+  it('should seed a set again without changes', async () => {
+    expect(seed.list()).to.include.members(['baseline', 'demo', 'test']);
+    await seed.run(['test']);
+    const changes = await seed.run(['test']);
+    expect(changes.every((change) => change.action === 'unchanged')).to.be.equal(true);
+  });
+});
@@ -2,16 +2,18 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import request from 'supertest';
 import { isArray } from 'lodash';
 import path from 'path';
+import fs from 'fs-extra';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Catalog } from '../models/catalog.js';
+import seed from '../utils/helpers/seed.js';
+import { signTestToken } from '../utils/helpers/test.js';
 import { OsTemplate } from '../models/osTemplate.js';
-import { OsFamily } from '../models/osFamily.js';
-import { Location } from '../models/location.js';
 import { ApprovalPolicy } from '../models/approvalPolicy.js';
 
 const assetBasePath = path.join(__dirname, '../assets/test');
-const token = 'none';
+const token = signTestToken(['admin']);
+const readOnlyToken = signTestToken(['user']);
 
 const toCreate = {
   name: 'Standard Catalog',
@@ -41,35 +43,12 @@ describe('Catalog', () => {
   let id: string = 'none';
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+    await seed.run(['test']);
 
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    const osFamily = new OsFamily();
-    osFamily.name = 'Template';
-    osFamily.shortName = 'TPL';
-    await OsFamilyRepository.save(osFamily);
-
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    const location = new Location();
-    location.name = 'Template';
-    location.availableNetworks = ['/DC0/vm/network'];
-    await LocationRepository.save(location);
-
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    const osTemplate = new OsTemplate();
-    osTemplate.name = 'Template';
-    osTemplate.templateId = '/DC0/vm/template';
-    osTemplate.osFamily = osFamily;
-    osTemplate.location = location;
-    osTemplate.availableNetwork = '/DC0/vm/network';
-    await OsTemplateRepository.save(osTemplate);
-
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    const approvalPolicy = new ApprovalPolicy();
-    approvalPolicy.name = 'Approval Policy';
-    approvalPolicy.policies = [];
-    await ApprovalPolicyRepository.save(approvalPolicy);
+    const osTemplate = await DB.getDataStore().getRepository(OsTemplate).findOneByOrFail({ name: 'Spec' });
+    const approvalPolicy = await DB.getDataStore().getRepository(ApprovalPolicy).findOneByOrFail({ name: 'Spec' });
 
     toCreate.defaultTemplate = osTemplate.id;
     toCreate.defaultApprovalPolicy = approvalPolicy.id;
@@ -78,6 +57,27 @@ describe('Catalog', () => {
     toUpdate.defaultApprovalPolicy = approvalPolicy.id;
   });
 
+  it('should reject a catalog on /catalog POST without a token', async () => {
+    const res = await request(server)
+      .post('/catalog')
+      .send(toCreate)
+      .expect(401)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('access-denied');
+  });
+
+  it('should reject a catalog on /catalog POST for a read only user', async () => {
+    const res = await request(server)
+      .post('/catalog')
+      .set('Authorization', readOnlyToken)
+      .send(toCreate)
+      .expect(403)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('access-denied');
+  });
+
   it('should add a SINGLE catalog on /catalog POST', async () => {
     const res = await request(server)
       .post('/catalog')
@@ -211,6 +211,107 @@ describe('Catalog', () => {
     expect(getRes.body.catalog.type).to.be.equal(toUpdate.type);
   });
 
+  it('should remove the icon on /catalog/<id> PATCH with a JSON Merge Patch', async () => {
+    const res = await request(server)
+      .patch(`/catalog/${id}`)
+      .set('Authorization', token)
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ icon: null, defaultLeasePeriod: 6 }))
+      .expect(200);
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.catalog.icon).to.be.equal(null);
+    expect(res.body.catalog.defaultLeasePeriod).to.be.equal(6);
+    expect(res.body.catalog.name).to.be.equal(toUpdate.name);
+
+    // icons are uploaded, a patch can't point at another file
+    const invalidRes = await request(server)
+      .patch(`/catalog/${id}`)
+      .set('Authorization', token)
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ icon: 'catalogs/other.jpg' }))
+      .expect(200);
+    expect(invalidRes.body.code).to.be.equal(1007);
+  });
+
+  it('should refuse a stale If-Match on /catalog/<id> PUT', async () => {
+    const getRes = await request(server).get(`/catalog/${id}`).set('Authorization', token).expect(200);
+    const etag = getRes.get('ETag');
+    expect(etag).to.be.equal(`"${getRes.body.catalog.version}"`);
+
+    // unchanged, the portal keeps its copy
+    await request(server).get(`/catalog/${id}`).set('Authorization', token).set('If-None-Match', etag).expect(304);
+
+    const res = await request(server)
+      .put(`/catalog/${id}`)
+      .set('Authorization', token)
+      .set('If-Match', etag)
+      .send({ defaultLeasePeriod: 7 })
+      .expect(200);
+    expect(res.get('ETag')).to.be.equal(`"${getRes.body.catalog.version + 1}"`);
+
+    // the other admin still holds the old version
+    const staleRes = await request(server)
+      .put(`/catalog/${id}`)
+      .set('Authorization', token)
+      .set('If-Match', etag)
+      .send({ defaultLeasePeriod: 8 })
+      .expect(200);
+    expect(staleRes.body.status).to.be.equal('error');
+    expect(staleRes.body.code).to.be.equal(1017);
+    expect(staleRes.body.version).to.be.equal(getRes.body.catalog.version + 1);
+
+    await request(server).delete(`/catalog/${id}`).set('Authorization', token).set('If-Match', etag).set('Accept-Version', '2').expect(412);
+  });
+
+  it('should refuse a weak If-Match on /catalog/<id> PUT', async () => {
+    const getRes = await request(server).get(`/catalog/${id}`).set('Authorization', token).expect(200);
+
+    const res = await request(server)
+      .put(`/catalog/${id}`)
+      .set('Authorization', token)
+      .set('If-Match', `W/${getRes.get('ETag')}`)
+      .send({ defaultLeasePeriod: 9 })
+      .expect(200);
+    expect(res.body.code).to.be.equal(1017);
+  });
+
+  it('should refuse an If-Match outdated by a change committed during the PUT on /catalog/<id> PUT', async () => {
+    const getRes = await request(server).get(`/catalog/${id}`).set('Authorization', token).expect(200);
+
+    // the other admin's change holds the row while the PUT is checked
+    const runner = DB.getDataStore().createQueryRunner();
+    await runner.connect();
+    await runner.startTransaction();
+    await runner.query('SELECT "id" FROM "catalog" WHERE "id" = $1 FOR UPDATE', [id]);
+    const pending = request(server).put(`/catalog/${id}`).set('Authorization', token).set('If-Match', getRes.get('ETag')).send({ defaultLeasePeriod: 10 }).then((res) => res);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await runner.query('UPDATE "catalog" SET "defaultLeasePeriod" = 11, "version" = "version" + 1 WHERE "id" = $1', [id]);
+    await runner.commitTransaction();
+    await runner.release();
+
+    const res = await pending;
+    expect(res.body.code).to.be.equal(1017);
+    expect(res.body.version).to.be.equal(getRes.body.catalog.version + 1);
+    const catalog = await DB.getDataStore().getRepository(Catalog).findOneByOrFail({ id: parseInt(id, 10) });
+    expect(catalog.defaultLeasePeriod).to.be.equal(11);
+  });
+
+  it('should remove the icon of a purged catalog on /catalog/<id>?hard=true DELETE', async () => {
+    const catalog = await DB.getDataStore().getRepository(Catalog).save(Object.assign(new Catalog(), { ...toCreate, name: 'Purged', defaultTemplate: { id: toCreate.defaultTemplate }, defaultApprovalPolicy: { id: toCreate.defaultApprovalPolicy } }));
+    const uploadRes = await request(server)
+      .post(`/catalog/upload/${catalog.id}`)
+      .attach('icon', path.join(assetBasePath, toUpload.icon), toUpload.icon)
+      .set('Authorization', token)
+      .expect(200);
+    const icon = path.join(__dirname, '../../dist/uploads', uploadRes.body.accepted.icon);
+    expect(fs.existsSync(icon)).to.be.equal(true);
+
+    await request(server).delete(`/catalog/${catalog.id}?hard=true`).set('Authorization', token).expect(200);
+    // the file is removed after the response
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(fs.existsSync(icon)).to.be.equal(false);
+  });
+
   it('should delete a SINGLE catalog on /catalog/<id> DELETE', async () => {
     const res = await request(server)
       .delete(`/catalog/${id}`)
@@ -222,24 +323,5 @@ describe('Catalog', () => {
 
     const CatalogRepository = DB.getDataStore().getRepository(Catalog);
     await CatalogRepository.delete(id);
-
-    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
-    const osTemplate = await OsTemplateRepository.findOne({
-      where: { id: toCreate.defaultTemplate },
-      relations: { osFamily: true, location: true },
-    });
-
-    if (osTemplate) {
-      await OsTemplateRepository.delete(osTemplate.id);
-
-      const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-      await OsFamilyRepository.delete(osTemplate.osFamily.id);
-
-      const LocationRepository = DB.getDataStore().getRepository(Location);
-      await LocationRepository.delete(osTemplate.location.id);
-    }
-
-    const ApprovalPolicyRepository = DB.getDataStore().getRepository(ApprovalPolicy);
-    await ApprovalPolicyRepository.delete(toCreate.defaultApprovalPolicy);
   });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import config from '../utils/config.js';
+
+describe('Config', () => {
+  it('should apply the defaults for unset and empty settings', () => {
+    const loaded = config.load({ NODE_ENV: 'test', SQL_PORT: '', SQL_LOGGING: 'true' });
+    expect(loaded.server.port).to.be.equal(3000);
+    expect(loaded.sql.port).to.be.equal(5432);
+    expect(loaded.sql.logging).to.be.equal(true);
+    expect(loaded.auth.algorithms).to.be.deep.equal(['RS256']);
+    expect(loaded.inventorySync.mode).to.be.equal('report');
+  });
+
+  it('should report every invalid setting at once', () => {
+    let message = '';
+    try {
+      config.load({ NODE_ENV: 'test', SQL_PORT: 'five', INVENTORY_SYNC_MODE: 'always', ENCRYPTION_KEYS: 'nokey' });
+    } catch (err: unknown) {
+      message = (err as Error).message;
+    }
+    expect(message).to.include('"SQL_PORT" must be a number');
+    expect(message).to.include('"INVENTORY_SYNC_MODE" must be one of [report, apply]');
+    expect(message).to.include('"ENCRYPTION_KEYS" must be a comma separated list of <keyId>:<base64>');
+  });
+
+  it('should read secrets from <NAME>_FILE', () => {
+    const file = path.join(os.tmpdir(), `sql-pass-${process.pid}`);
+    fs.writeFileSync(file, 's3cret\n');
+    try {
+      expect(config.load({ NODE_ENV: 'test', SQL_PASS_FILE: file }).sql.pass).to.be.equal('s3cret');
+      expect(() => config.load({ NODE_ENV: 'test', SQL_PASS: 'other', SQL_PASS_FILE: file })).to.throw(/"SQL_PASS" and "SQL_PASS_FILE" can't both be set/);
+    } finally {
+      fs.removeSync(file);
+    }
+  });
+
+  it('should read the verification and encryption keys', () => {
+    const file = path.join(os.tmpdir(), `encryption-keys-${process.pid}`);
+    fs.writeJsonSync(file, { activeKeyId: 'k2', keys: { k1: 'a2V5MQ==', k2: 'a2V5Mg==' } });
+    try {
+      const loaded = config.load({ NODE_ENV: 'test', AUTH_PUBLIC_KEY: 'pem', AUTH_ISSUER: 'https://keycloak/realms/portal', ENCRYPTION_KEYS_FILE: file });
+      expect(loaded.auth.keys).to.be.deep.equal({ jwksFile: undefined, publicKey: 'pem' });
+      expect(loaded.auth.issuer).to.be.equal('https://keycloak/realms/portal');
+      expect(loaded.encryption).to.be.deep.equal({ keys: { k1: 'a2V5MQ==', k2: 'a2V5Mg==' }, activeKeyId: 'k2' });
+      expect(config.load({ NODE_ENV: 'test', ENCRYPTION_KEYS: 'k1:a2V5MQ==, k2:a2V5Mg==' }).encryption).to.be.deep.equal({ keys: { k1: 'a2V5MQ==', k2: 'a2V5Mg==' }, activeKeyId: 'k1' });
+    } finally {
+      fs.removeSync(file);
+    }
+  });
+
+  it('should redact the secrets of the effective config', () => {
+    const described = config.describe({ NODE_ENV: 'test', SQL_HOST: 'db', SQL_PASS: 's3cret', UNRELATED: 'x' });
+    expect(described.SQL_HOST).to.be.equal('db');
+    expect(described.SQL_PASS).to.be.equal('[redacted]');
+    expect(described).to.not.have.property('UNRELATED');
+  });
+});
@@ -1,10 +1,22 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import request from 'supertest';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Endpoint } from '../models/endpoint.js';
+import { Location } from '../models/location.js';
+import { OsTemplate } from '../models/osTemplate.js';
+import { OsFamily } from '../models/osFamily.js';
+import { signTestToken, mockVSphere } from '../utils/helpers/test.js';
+import config from '../utils/config.js';
 
-const token = 'none';
+process.env.ENCRYPTION_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
+config.reset();
+
+const token = signTestToken(['admin']);
+const readOnlyToken = signTestToken(['user']);
 
 const toCreate = {
   name: 'Endpoint Name',
@@ -24,12 +36,50 @@ const toUpdate = {
   availableClusters: ['/DC0/vm/cluster'],
 };
 
+const inventory = {
+  clusters: [{ id: 'domain-c8', name: 'Cluster01' }],
+  datacenters: [{ id: 'datacenter-2', name: 'DC0' }],
+  networks: [{ id: 'network-13', name: 'VM Network' }],
+  templates: [{ id: 'item-1', name: 'ubuntu-22.04' }],
+};
+
 describe('Endpoint', () => {
   let id: string = 'none';
+  let vSphereServer: http.Server;
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+
+    vSphereServer = http.createServer(mockVSphere(toCreate, inventory));
+    await new Promise<void>((resolve) => vSphereServer.listen(0, resolve));
+    toCreate.url = `http://127.0.0.1:${(vSphereServer.address() as AddressInfo).port}`;
+    toUpdate.url = toCreate.url;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => vSphereServer.close(resolve));
+  });
+
+  it('should reject a endpoint on /endpoint POST without a token', async () => {
+    const res = await request(server)
+      .post('/endpoint')
+      .send(toCreate)
+      .expect(401)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('access-denied');
+  });
+
+  it('should reject a endpoint on /endpoint POST for a read only user', async () => {
+    const res = await request(server)
+      .post('/endpoint')
+      .set('Authorization', readOnlyToken)
+      .send(toCreate)
+      .expect(403)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('access-denied');
   });
 
   it('should add a SINGLE endpoint on /endpoint POST', async () => {
@@ -51,8 +101,7 @@ describe('Endpoint', () => {
     expect(res.body.endpoint.url).to.be.equal(toCreate.url);
     expect(res.body.endpoint).to.have.property('username');
     expect(res.body.endpoint.username).to.be.equal(toCreate.username);
-    expect(res.body.endpoint).to.have.property('password');
-    expect(res.body.endpoint.password).to.be.equal(toCreate.password);
+    expect(res.body.endpoint).to.not.have.property('password');
     expect(res.body.endpoint).to.have.property('availableClusters');
     expect(res.body.endpoint.availableClusters).to.be.a('array');
     expect(res.body.endpoint.availableClusters[0]).to.be.equal(toCreate.availableClusters[0]);
@@ -91,8 +140,7 @@ describe('Endpoint', () => {
     expect(res.body.endpoint.url).to.be.equal(toCreate.url);
     expect(res.body.endpoint).to.have.property('username');
     expect(res.body.endpoint.username).to.be.equal(toCreate.username);
-    expect(res.body.endpoint).to.have.property('password');
-    expect(res.body.endpoint.password).to.be.equal(toCreate.password);
+    expect(res.body.endpoint).to.not.have.property('password');
     expect(res.body.endpoint).to.have.property('availableClusters');
     expect(res.body.endpoint.availableClusters).to.be.a('array');
     expect(res.body.endpoint.availableClusters[0]).to.be.equal(toCreate.availableClusters[0]);
@@ -126,13 +174,151 @@ describe('Endpoint', () => {
     expect(getRes.body.endpoint.url).to.be.equal(toUpdate.url);
     expect(getRes.body.endpoint).to.have.property('username');
     expect(getRes.body.endpoint.username).to.be.equal(toUpdate.username);
-    expect(getRes.body.endpoint).to.have.property('password');
-    expect(getRes.body.endpoint.password).to.be.equal(toUpdate.password);
+    expect(getRes.body.endpoint).to.not.have.property('password');
     expect(getRes.body.endpoint).to.have.property('availableClusters');
     expect(getRes.body.endpoint.availableClusters).to.be.a('array');
     expect(getRes.body.endpoint.availableClusters[0]).to.be.equal(toUpdate.availableClusters[0]);
   });
 
+  it('should test connectivity of a SINGLE endpoint on /endpoint/<id>/test POST', async () => {
+    const res = await request(server)
+      .post(`/endpoint/${id}/test`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.result).to.be.a('object');
+    expect(res.body.result.reachable).to.be.equal(true);
+    expect(res.body.result.authenticated).to.be.equal(true);
+    expect(res.body.result.latency).to.be.a('number');
+  });
+
+  it('should discover clusters of a SINGLE endpoint on /endpoint/<id>/discover POST', async () => {
+    const res = await request(server)
+      .post(`/endpoint/${id}/discover?apply=true`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.inventory.clusters).to.be.deep.equal(inventory.clusters);
+    expect(res.body.inventory.datacenters).to.be.deep.equal(inventory.datacenters);
+    expect(res.body.inventory.networks).to.be.deep.equal(inventory.networks);
+    expect(res.body.inventory.templates).to.be.deep.equal(inventory.templates);
+    expect(res.body.applied).to.be.equal(true);
+
+    const getRes = await request(server)
+      .get(`/endpoint/${id}`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(getRes.body.endpoint.availableClusters).to.be.deep.equal(['Cluster01']);
+  });
+
+  it('should record and apply inventory drift on /endpoint/<id>/sync POST', async () => {
+    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+    const osFamily = new OsFamily();
+    osFamily.name = 'Drift';
+    osFamily.shortName = 'DFT';
+    await OsFamilyRepository.save(osFamily);
+
+    const LocationRepository = DB.getDataStore().getRepository(Location);
+    const location = new Location();
+    location.name = 'Drift';
+    location.availableNetworks = ['VM Network', 'Retired Network'];
+    location.endpoint = await DB.getDataStore().getRepository(Endpoint).findOneByOrFail({ id: parseInt(id, 10) });
+    await LocationRepository.save(location);
+
+    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+    const osTemplate = new OsTemplate();
+    osTemplate.name = 'Drift';
+    osTemplate.templateId = 'ubuntu-22.04';
+    osTemplate.osFamily = osFamily;
+    osTemplate.location = location;
+    osTemplate.availableNetwork = 'Retired Network';
+    await OsTemplateRepository.save(osTemplate);
+
+    const res = await request(server)
+      .post(`/endpoint/${id}/sync`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.drift.status).to.be.equal('pending');
+    expect(res.body.drift.report.locations[0].removed).to.be.deep.equal(['Retired Network']);
+    expect(res.body.drift.report.missingTemplates).to.be.deep.equal([]);
+    expect(res.body.drift.report.unavailableNetworkTemplates[0].id).to.be.equal(osTemplate.id);
+
+    const driftRes = await request(server)
+      .get(`/endpoint/${id}/drift`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(driftRes.body.status).to.be.equal('success');
+    expect(driftRes.body.drift.status).to.be.equal('pending');
+
+    const applyRes = await request(server)
+      .post(`/endpoint/${id}/drift/apply`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(applyRes.body.status).to.be.equal('success');
+    expect(applyRes.body.drift.status).to.be.equal('applied');
+
+    const updatedLocation = await LocationRepository.findOneByOrFail({ id: location.id });
+    expect(updatedLocation.availableNetworks).to.be.deep.equal(['VM Network']);
+    const updatedOsTemplate = await OsTemplateRepository.findOneByOrFail({ id: osTemplate.id });
+    expect(updatedOsTemplate.networkUnavailable).to.be.equal(true);
+
+    await OsTemplateRepository.delete(osTemplate.id);
+    await LocationRepository.delete(location.id);
+    await OsFamilyRepository.delete(osFamily.id);
+  });
+
+  it('should store the endpoint password encrypted', async () => {
+    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+    const raw = await EndpointRepository.createQueryBuilder('endpoint').select('endpoint.password', 'password').where('endpoint.id = :id', { id }).getRawOne();
+    expect(raw.password).to.not.be.equal(toUpdate.password);
+    expect(raw.password.startsWith('enc:v1:test:')).to.be.equal(true);
+
+    const endpoint = await EndpointRepository.findOne({ where: { id: parseInt(id, 10) }, select: { id: true, password: true } });
+    expect(endpoint?.password).to.be.equal(toUpdate.password);
+  });
+
+  it('should reject password as a field option on /endpoint GET', async () => {
+    const res = await request(server)
+      .get('/endpoint')
+      .set('Authorization', token)
+      .set('X-API-Fields', JSON.stringify({ password: true }))
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+  });
+
+  it('should re-encrypt passwords with the active key on /endpoint/credentials/rotate POST', async () => {
+    process.env.ENCRYPTION_KEYS = `${process.env.ENCRYPTION_KEYS},next:${crypto.randomBytes(32).toString('base64')}`;
+    process.env.ENCRYPTION_KEY_ID = 'next';
+    config.reset();
+
+    const res = await request(server)
+      .post('/endpoint/credentials/rotate')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.keyId).to.be.equal('next');
+    expect(res.body.rotated).to.be.at.least(1);
+
+    const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+    const raw = await EndpointRepository.createQueryBuilder('endpoint').select('endpoint.password', 'password').where('endpoint.id = :id', { id }).getRawOne();
+    expect(raw.password.startsWith('enc:v1:next:')).to.be.equal(true);
+  });
+
   it('should delete a SINGLE endpoint on /endpoint/<id> DELETE', async () => {
     const res = await request(server)
       .delete(`/endpoint/${id}`)
@@ -0,0 +1,22 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import server from '../server.js';
+import DB from '../utils/connectors/typeorm.js';
+
+describe('Health', () => {
+  beforeAll(async () => {
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+  });
+
+  it('should answer the liveness probe on /healthz GET', async () => {
+    const res = await request(server).get('/healthz').expect(200).expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+  });
+
+  it('should answer the readiness probe on /readyz GET', async () => {
+    const res = await request(server).get('/readyz').expect(200).expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.checks).to.be.deep.equal({ database: 'up', migrations: 'applied', redis: 'disabled' });
+  });
+});
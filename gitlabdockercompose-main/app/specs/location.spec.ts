@@ -3,8 +3,9 @@ import request from 'supertest';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Location } from '../models/location.js';
+import { signTestToken } from '../utils/helpers/test.js';
 
-const token = 'none';
+const token = signTestToken(['admin']);
 
 const toCreate = {
   name: 'Keonics',
@@ -20,8 +21,8 @@ describe('Location', () => {
   let id: string = 'none';
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
   });
 
   it('should add a SINGLE location on /location POST', async () => {
@@ -101,6 +102,32 @@ describe('Location', () => {
     expect(getRes.body.location.availableNetworks[0]).to.be.equal(toUpdate.availableNetworks[0]);
   });
 
+  it('should add a network on /location/<id> PATCH with a JSON Patch', async () => {
+    const res = await request(server)
+      .patch(`/location/${id}`)
+      .set('Authorization', token)
+      .set('Content-Type', 'application/json-patch+json')
+      .send(JSON.stringify([
+        { op: 'test', path: '/availableNetworks/0', value: toUpdate.availableNetworks[0] },
+        { op: 'add', path: '/availableNetworks/-', value: '/DC1/vm/VLAN20' },
+      ]))
+      .expect(200);
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.location.availableNetworks).to.be.deep.equal([toUpdate.availableNetworks[0], '/DC1/vm/VLAN20']);
+
+    // the result is validated like a create
+    const invalidRes = await request(server)
+      .patch(`/location/${id}`)
+      .set('Authorization', token)
+      .set('Content-Type', 'application/json-patch+json')
+      .send(JSON.stringify([{ op: 'remove', path: '/name' }]))
+      .expect(200);
+    expect(invalidRes.body.code).to.be.equal(1007);
+    expect(invalidRes.body.errors[0].path).to.be.equal('body.name');
+
+    await request(server).patch(`/location/${id}`).set('Authorization', token).set('Accept-Version', '2').send({ name: 'Plain JSON' }).expect(415);
+  });
+
   it('should delete a SINGLE location on /location/<id> DELETE', async () => {
     const res = await request(server)
       .delete(`/location/${id}`)
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import server from '../server.js';
+import { signTestToken } from '../utils/helpers/test.js';
+
+const token = signTestToken(['user']);
+
+describe('Me', () => {
+  it('should list the effective permissions on /me/permissions GET', async () => {
+    const res = await request(server)
+      .get('/me/permissions')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.user).to.be.a('object');
+    expect(res.body.user.roles).to.include('user');
+    expect(res.body.permissions).to.be.a('array');
+    expect(res.body.permissions).to.include('catalog:read');
+    expect(res.body.permissions).to.include('approvalpolicy:read');
+    expect(res.body.permissions).to.not.include('catalog:write');
+  });
+
+  it('should list the anonymous permissions on /me/permissions GET without a token', async () => {
+    const res = await request(server)
+      .get('/me/permissions')
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.user.id).to.be.equal(null);
+    expect(res.body.permissions).to.not.include('catalog:read');
+    expect(res.body.permissions).to.not.include('approvalpolicy:read');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { DataSource } from 'typeorm';
+import DB from '../utils/connectors/typeorm.js';
+
+// unique, a failed run leaves its schema behind
+const schema = `synchronized_${Date.now()}`;
+
+// the tables synchronize created for the entities before the migrations, without the columns added since
+const synchronized = [
+  `CREATE TABLE "size" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "cpus" integer NOT NULL, "ram" integer NOT NULL, "storage" integer NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_66e3a0111d969aa0e5f73855c7a" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "os_language" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_2a5d4dbec48a8cc5dc05c125637" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "os_family" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "shortName" character varying(6) NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_ea0b4cf6d33f25236cda9f64e4b" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "endpoint" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "shortName" character varying NOT NULL, "url" character varying NOT NULL, "username" character varying NOT NULL, "password" character varying NOT NULL, "availableClusters" text array NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_7785c5c2cf24e6ab3abb7a2e89f" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "location" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "availableNetworks" text array NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_876d7bdba03c72251ec4c2dc827" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "approval_policy" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "policies" json NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, CONSTRAINT "PK_06da9549a940994965e137d4b8a" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "os_template" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "templateId" character varying NOT NULL, "availableNetwork" character varying NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, "osFamilyId" integer, "locationId" integer, CONSTRAINT "PK_6853e5ebf262a4e208d58debe13" PRIMARY KEY ("id"))`,
+  `CREATE TABLE "catalog" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "icon" text, "shortName" character varying NOT NULL, "defaultLeasePeriod" integer NOT NULL, "permittedMaxLeaseExtensions" integer NOT NULL, "type" character varying NOT NULL, "createdBy" character varying, "updatedBy" character varying, "deletedBy" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "deletedAt" TIMESTAMP, "defaultTemplateId" integer, "defaultApprovalPolicyId" integer, CONSTRAINT "PK_782754bded12b4e75ad4afff913" PRIMARY KEY ("id"))`,
+  `ALTER TABLE "os_template" ADD CONSTRAINT "FK_322bbe91f3c5c47bac596ac55a6" FOREIGN KEY ("osFamilyId") REFERENCES "os_family"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+  `ALTER TABLE "os_template" ADD CONSTRAINT "FK_56171b8adb499ed8bb5f13a5afe" FOREIGN KEY ("locationId") REFERENCES "location"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+  `ALTER TABLE "catalog" ADD CONSTRAINT "FK_89f695cb59fb5d36aeedc6c7f25" FOREIGN KEY ("defaultTemplateId") REFERENCES "os_template"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+  `ALTER TABLE "catalog" ADD CONSTRAINT "FK_c6ffef4f9f32c3d6e988ecc593a" FOREIGN KEY ("defaultApprovalPolicyId") REFERENCES "approval_policy"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+  `INSERT INTO "location" ("name", "availableNetworks") VALUES ('Synchronized', '{VLAN10}')`,
+];
+
+describe('Migrations', () => {
+  let datastore: DataSource;
+
+  beforeAll(async () => {
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+    await DB.getDataStore().query(`CREATE SCHEMA "${schema}"`);
+    // public for pg_trgm, the tables are created in and found in the schema of the spec first
+    datastore = await new DataSource({ ...DB.getOptions(), extra: { options: `-c search_path=${schema},public` } } as typeof datastore.options).initialize();
+    for (const statement of synchronized) {
+      await datastore.query(statement);
+    }
+  });
+
+  afterAll(async () => {
+    if (datastore?.isInitialized) await datastore.destroy();
+    await DB.getDataStore().query(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`);
+  });
+
+  it('should adopt a database set up by synchronize', async () => {
+    const applied = await datastore.runMigrations();
+    expect(applied.map((migration) => migration.name)).to.be.deep.equal(datastore.migrations.map((migration) => migration.name));
+
+    const columns = await datastore.query(`SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = $1`, [schema]);
+    expect(columns).to.deep.include({ table_name: 'location', column_name: 'endpointId' });
+    expect(columns).to.deep.include({ table_name: 'os_template', column_name: 'networkUnavailable' });
+    expect(columns).to.deep.include({ table_name: 'size', column_name: 'version' });
+
+    const [location] = await datastore.query(`SELECT "name", "version", "managed" FROM "location"`);
+    expect(location).to.be.deep.equal({ name: 'Synchronized', version: 1, managed: false });
+    expect(await DB.withMigrationExecutor(datastore, (executor) => executor.getPendingMigrations())).to.have.lengthOf(0);
+  });
+});
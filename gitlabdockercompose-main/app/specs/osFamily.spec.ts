@@ -2,9 +2,10 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import request from 'supertest';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
+import { signTestToken } from '../utils/helpers/test.js';
 import { OsFamily } from '../models/osFamily.js';
 
-const token = 'none';
+const token = signTestToken(['admin']);
 
 const toCreate = {
   name: 'Linux',
@@ -20,8 +21,8 @@ describe('Osfamily', () => {
   let id: string = 'none';
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
   });
 
   it('should add a SINGLE osfamily on /osfamily POST', async () => {
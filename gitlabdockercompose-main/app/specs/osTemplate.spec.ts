@@ -2,11 +2,13 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import request from 'supertest';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
+import { signTestToken } from '../utils/helpers/test.js';
 import { OsTemplate } from '../models/osTemplate.js';
 import { OsFamily } from '../models/osFamily.js';
 import { Location } from '../models/location.js';
+import seed from '../utils/helpers/seed.js';
 
-const token = 'none';
+const token = signTestToken(['admin']);
 
 const toCreate = {
   name: 'Ubuntu 20.08',
@@ -28,19 +30,12 @@ describe('Ostemplate', () => {
   let id: string = 'none';
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    const osFamily = new OsFamily();
-    osFamily.name = 'Template';
-    osFamily.shortName = 'TPL';
-    await OsFamilyRepository.save(osFamily);
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+    await seed.run(['test']);
 
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    const location = new Location();
-    location.name = 'Template';
-    location.availableNetworks = [toCreate.availableNetwork, toUpdate.availableNetwork];
-    await LocationRepository.save(location);
+    const osFamily = await DB.getDataStore().getRepository(OsFamily).findOneByOrFail({ shortName: 'spec' });
+    const location = await DB.getDataStore().getRepository(Location).findOneByOrFail({ name: 'Spec' });
 
     toCreate.osFamily = osFamily.id;
     toCreate.location = location.id;
@@ -137,6 +132,89 @@ describe('Ostemplate', () => {
     expect(getRes.body.ostemplate.availableNetwork).to.be.equal(toUpdate.availableNetwork);
   });
 
+  it('should fetch an ostemplate as it was with its relations on /ostemplate/<id>?asOf=&relations=true GET', async () => {
+    const asOf = new Date().toISOString();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await request(server)
+      .put(`/ostemplate/${id}`)
+      .set('Authorization', token)
+      .send({ ...toUpdate, name: 'Windows 12' })
+      .expect(200);
+
+    const res = await request(server)
+      .get(`/ostemplate/${id}?asOf=${asOf}&relations=true`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.ostemplate.name).to.be.equal(toUpdate.name);
+    expect(res.body.ostemplate.osFamily).to.include({ id: toUpdate.osFamily, shortName: 'spec' });
+    expect(res.body.ostemplate.location).to.include({ id: toUpdate.location, name: 'Spec' });
+
+    await request(server).put(`/ostemplate/${id}`).set('Authorization', token).send(toUpdate).expect(200);
+  });
+
+  it('should refuse to delete the osfamily of a live ostemplate on /osfamily/<id> DELETE', async () => {
+    const res = await request(server)
+      .delete(`/osfamily/${toCreate.osFamily}`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1016);
+    expect(res.body.dependents).to.deep.include({ kind: 'ostemplate', id, name: toUpdate.name });
+
+    const dependentsRes = await request(server)
+      .get(`/osfamily/${toCreate.osFamily}/dependents`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(dependentsRes.body.status).to.be.equal('success');
+    expect(dependentsRes.body.dependents).to.deep.include({ kind: 'ostemplate', id, name: toUpdate.name });
+  });
+
+  it('should delete the dependents along on /osfamily/<id>?cascade=true DELETE', async () => {
+    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
+    const osFamily = await OsFamilyRepository.save(Object.assign(new OsFamily(), { name: 'Cascade', shortName: 'CSC' }));
+    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+    const osTemplate = await OsTemplateRepository.save(
+      Object.assign(new OsTemplate(), { ...toCreate, name: 'Cascade', osFamily: { id: osFamily.id }, location: { id: toCreate.location } })
+    );
+
+    const res = await request(server)
+      .delete(`/osfamily/${osFamily.id}?cascade=true`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.dependents).to.deep.equal([{ kind: 'ostemplate', id: osTemplate.id, name: 'Cascade' }]);
+    expect(await OsTemplateRepository.findOneBy({ id: osTemplate.id })).to.be.equal(null);
+    expect(await OsFamilyRepository.findOneBy({ id: osFamily.id })).to.be.equal(null);
+
+    await OsTemplateRepository.delete(osTemplate.id);
+    await OsFamilyRepository.delete(osFamily.id);
+  });
+
+  it('should refuse to restore an ostemplate without its osFamily on /ostemplate/<id>/restore POST', async () => {
+    const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
+    const osTemplate = await OsTemplateRepository.save(
+      Object.assign(new OsTemplate(), { ...toCreate, name: 'Orphan', osFamily: { id: toCreate.osFamily }, location: { id: toCreate.location } })
+    );
+    await OsTemplateRepository.update(osTemplate.id, { osFamily: () => 'NULL' });
+    await OsTemplateRepository.softDelete(osTemplate.id);
+
+    const res = await request(server)
+      .post(`/ostemplate/${osTemplate.id}/restore`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+    expect(res.body.errors[0]).to.include({ path: 'osFamily', rule: 'reference.missing' });
+
+    await OsTemplateRepository.delete(osTemplate.id);
+  });
+
   it('should delete a SINGLE ostemplate on /ostemplate/<id> DELETE', async () => {
     const res = await request(server)
       .delete(`/ostemplate/${id}`)
@@ -148,11 +226,5 @@ describe('Ostemplate', () => {
 
     const OsTemplateRepository = DB.getDataStore().getRepository(OsTemplate);
     await OsTemplateRepository.delete(id);
-
-    const OsFamilyRepository = DB.getDataStore().getRepository(OsFamily);
-    await OsFamilyRepository.delete(toCreate.osFamily);
-
-    const LocationRepository = DB.getDataStore().getRepository(Location);
-    await LocationRepository.delete(toCreate.location);
   });
 });
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import server from '../server.js';
+import DB from '../utils/connectors/typeorm.js';
+import { signTestToken } from '../utils/helpers/test.js';
+import { Size } from '../models/size.js';
+import { OsFamily } from '../models/osFamily.js';
+
+const token = signTestToken(['admin']);
+
+describe('Search', () => {
+  let sizeId: number;
+  let osFamilyId: number;
+  let deletedId: number;
+
+  beforeAll(async () => {
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
+  });
+
+  it('should rank matches across entities on /search GET', async () => {
+    const sizeRes = await request(server).post('/size').set('Authorization', token).send({ name: 'Zephyrine Medium', cpus: 2, ram: 2048, storage: 50 });
+    sizeId = sizeRes.body.size.id;
+    const osFamilyRes = await request(server).post('/osfamily').set('Authorization', token).send({ name: 'Zephyrine Linux', shortName: 'zeph' });
+    osFamilyId = osFamilyRes.body.osfamily.id;
+    const deletedRes = await request(server).post('/size').set('Authorization', token).send({ name: 'Zephyrine Deleted', cpus: 2, ram: 2048, storage: 50 });
+    deletedId = deletedRes.body.size.id;
+    await request(server).delete(`/size/${deletedId}`).set('Authorization', token);
+
+    const res = await request(server)
+      .get('/search?q=zephyrine linux')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body).to.have.property('status');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.results).to.be.a('array');
+    expect(res.body.results[0]).to.include({ kind: 'osfamily', id: osFamilyId });
+    expect(res.body.results.map((result: ISearchResult) => `${result.kind}:${result.id}`)).to.include(`size:${sizeId}`);
+    expect(res.body.results.map((result: ISearchResult) => `${result.kind}:${result.id}`)).to.not.include(`size:${deletedId}`);
+  });
+
+  it('should match misspelled words on /search GET', async () => {
+    const res = await request(server)
+      .get('/search?q=zephyrin&kind=size')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.results.map((result: ISearchResult) => result.id)).to.include(sizeId);
+    expect(res.body.results.every((result: ISearchResult) => result.kind === 'size')).to.be.equal(true);
+
+    await DB.getDataStore().getRepository(Size).delete([sizeId, deletedId]);
+    await DB.getDataStore().getRepository(OsFamily).delete(osFamilyId);
+  });
+
+  it('should skip kinds the user cannot read on /search GET', async () => {
+    const res = await request(server)
+      .get('/search?q=zephyrine&kind=catalog,endpoint')
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.results).to.have.lengthOf(0);
+  });
+
+  it('should reject an invalid query on /search GET', async () => {
+    const res = await request(server)
+      .get('/search?q=%20%2A&kind=unknown')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+  });
+});
@@ -3,8 +3,10 @@ import request from 'supertest';
 import server from '../server.js';
 import DB from '../utils/connectors/typeorm.js';
 import { Size } from '../models/size.js';
+import { signTestToken } from '../utils/helpers/test.js';
 
-const token = 'none';
+const token = signTestToken(['admin']);
+const userToken = signTestToken(['user']);
 
 const toCreate = {
   name: 'Small',
@@ -24,8 +26,8 @@ describe('Size', () => {
   let id: string = 'none';
 
   beforeAll(async () => {
-    // Wait for database to initiate before running the test cases
-    await new Promise((resolve) => setTimeout(resolve, 200));
+    // Wait for the database to connect and migrate before running the test cases
+    await DB.init();
   });
 
   it('should add a SINGLE size on /size POST', async () => {
@@ -63,6 +65,276 @@ describe('Size', () => {
     expect(res.body.pages).to.be.a('number');
   });
 
+  it('should filter sizes on /size GET', async () => {
+    const res = await request(server)
+      .get(`/size?filter[cpus][gte]=${toCreate.cpus}&filter[name][like]=small&filter[id][in]=${id}`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.sizes).to.have.lengthOf(1);
+    expect(res.body.sizes[0].id).to.be.equal(id);
+
+    const emptyRes = await request(server)
+      .get(`/size?filter[cpus][gt]=${toCreate.cpus}&filter[id][eq]=${id}`)
+      .set('Authorization', token)
+      .expect(200);
+    expect(emptyRes.body.status).to.be.equal('success');
+    expect(emptyRes.body.sizes).to.have.lengthOf(0);
+
+    // _ and % match themselves, not any character
+    const literalRes = await request(server).get(`/size?filter[name][like]=sm_ll&filter[id][eq]=${id}`).set('Authorization', token).expect(200);
+    expect(literalRes.body.sizes).to.have.lengthOf(0);
+  });
+
+  it('should page sizes with a cursor on /size GET', async () => {
+    const extraRes = await request(server)
+      .post('/size')
+      .set('Authorization', token)
+      .send({ ...toCreate, name: 'Tiny' })
+      .expect(200);
+    const extraId = extraRes.body.size.id;
+
+    const res = await request(server)
+      .get(`/size?cursor=&limit=1&filter[id][in]=${id},${extraId}`)
+      .set('Authorization', token)
+      .set('X-API-Sort', JSON.stringify({ name: 'desc' }))
+      .set('X-API-Fields', JSON.stringify({ name: true }))
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.sizes).to.have.lengthOf(1);
+    expect(res.body.sizes[0]).to.be.deep.equal({ name: 'Tiny' });
+    expect(res.body.count).to.be.equal(2);
+    expect(res.body).to.not.have.property('pages');
+    expect(res.body.next_cursor).to.be.a('string');
+
+    const nextRes = await request(server)
+      .get(`/size?cursor=${res.body.next_cursor}&limit=1&count=false&filter[id][in]=${id},${extraId}`)
+      .set('Authorization', token)
+      .expect(200);
+    expect(nextRes.body.status).to.be.equal('success');
+    expect(nextRes.body.sizes).to.have.lengthOf(1);
+    expect(nextRes.body.sizes[0].id).to.be.equal(id);
+    expect(nextRes.body).to.not.have.property('count');
+    expect(nextRes.body.next_cursor).to.be.equal(null);
+
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    await SizeRepository.delete(extraId);
+  });
+
+  it('should page sizes by a timestamp shared within a millisecond on /size GET', async () => {
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    const ids: number[] = [];
+    for (const [name, updatedAt] of [['Micro 1', '2020-01-01 00:00:00.000300'], ['Micro 2', '2020-01-01 00:00:00.000100'], ['Micro 3', '2020-01-01 00:00:00.000200']]) {
+      const size = await SizeRepository.save(Object.assign(new Size(), { ...toCreate, name }));
+      await SizeRepository.update(size.id, { updatedAt: () => `'${updatedAt}'` });
+      ids.push(size.id);
+    }
+
+    const names: string[] = [];
+    let cursor = '';
+    do {
+      const res = await request(server)
+        .get(`/size?cursor=${cursor}&limit=1&count=false&filter[id][in]=${ids.join(',')}`)
+        .set('Authorization', token)
+        .set('X-API-Sort', JSON.stringify({ updatedAt: 'asc' }))
+        .expect(200);
+      expect(res.body.status).to.be.equal('success');
+      names.push(...res.body.sizes.map((size: ISize) => size.name));
+      cursor = res.body.next_cursor;
+    } while (cursor && names.length < 5);
+    expect(names).to.be.deep.equal(['Micro 2', 'Micro 3', 'Micro 1']);
+
+    await SizeRepository.delete(ids);
+  });
+
+  it('should reject an invalid cursor on /size GET', async () => {
+    const res = await request(server)
+      .get('/size?cursor=not-a-cursor')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+  });
+
+  it('should reject an invalid sort on /size GET', async () => {
+    const res = await request(server)
+      .get('/size')
+      .set('Authorization', token)
+      .set('X-API-Sort', JSON.stringify({ cpus: 'sideways' }))
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+  });
+
+  it('should reject an invalid filter on /size GET', async () => {
+    const res = await request(server)
+      .get('/size?filter[cpus][like]=2')
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+
+    const unknownRes = await request(server)
+      .get('/size?filter[unknown][eq]=2')
+      .set('Authorization', token)
+      .expect(200);
+    expect(unknownRes.body.status).to.be.equal('error');
+    expect(unknownRes.body.code).to.be.equal(1007);
+  });
+
+  it('should answer errors with their HTTP status on /size/<id> GET with Accept-Version: 2', async () => {
+    const invalidRes = await request(server).get('/size/abc').set('Authorization', token).set('Accept-Version', '2').expect(400);
+    expect(invalidRes.body.code).to.be.equal(1007);
+
+    const missingRes = await request(server).get('/size/999999999').set('Authorization', token).set('X-Status-Codes', 'http').expect(404);
+    expect(missingRes.body.code).to.be.equal(1006);
+
+    await request(server).put('/size/abc').set('Authorization', token).set('Accept-Version', '2').send({}).expect(422);
+    // legacy clients keep getting 200
+    await request(server).get('/size/999999999').set('Authorization', token).expect(200);
+  });
+
+  it('should report every invalid field as problem+json on /size POST with Accept-Version: 2', async () => {
+    const res = await request(server)
+      .post('/size')
+      .set('Authorization', token)
+      .set('Accept-Version', '2')
+      .send({ name: 'Invalid', cpus: 'two', ram: 'lots' })
+      .expect(422)
+      .expect('Content-Type', 'application/problem+json; charset=utf-8');
+    expect(res.body.type).to.be.equal('urn:error:E1007');
+    expect(res.body.status).to.be.equal(422);
+    expect(res.body.code).to.be.equal(1007);
+    expect(res.body.instance).to.be.equal('/size');
+    expect(res.body.errors.map((error: IProblemError) => error.path)).to.be.deep.equal(['body.cpus', 'body.ram', 'body.storage']);
+
+    const legacyRes = await request(server).post('/size').set('Authorization', token).send({ name: 'Invalid', cpus: 'two', ram: 'lots' }).expect(200);
+    expect(legacyRes.body.status).to.be.equal('error');
+    expect(legacyRes.body.error).to.be.equal('Please provide a valid number for cpus');
+    expect(legacyRes.body.errors).to.have.length(3);
+  });
+
+  it('should answer errors in the language of Accept-Language on /size POST', async () => {
+    const res = await request(server)
+      .post('/size')
+      .set('Authorization', token)
+      .set('Accept-Language', 'de-DE,de;q=0.9,en;q=0.8')
+      .set('Accept-Version', '2')
+      .send({ name: 'Invalid', cpus: 'two' })
+      .expect(422)
+      .expect('Content-Language', 'de');
+    expect(res.body.title).to.be.equal('Die Eingabe ist ungültig');
+    expect(res.body.detail).to.be.equal('Bitte geben Sie eine gültige Zahl für cpus an');
+    expect(res.body.errors[0].rule).to.be.equal('number.base');
+
+    // English for the locales without a catalog
+    const fallbackRes = await request(server).get('/size/999999999').set('Authorization', token).set('Accept-Language', 'ja').expect(200).expect('Content-Language', 'en');
+    expect(fallbackRes.body.error).to.be.equal('Unable to find the requested resource with provided identifier');
+  });
+
+  it('should apply all or nothing on /size/bulk POST', async () => {
+    const res = await request(server)
+      .post('/size/bulk')
+      .set('Authorization', token)
+      .send({ create: [{ name: 'Bulk Atomic', cpus: 1, ram: 512, storage: 5 }, { name: 'Bulk Invalid', cpus: 'one', ram: 512, storage: 5 }] })
+      .expect(200);
+    expect(res.body.status).to.be.equal('error');
+    expect(res.body.code).to.be.equal(1007);
+    expect(res.body.errors[0].path).to.be.equal('body.create.1.cpus');
+
+    // the valid create was rolled back along with the invalid one
+    const listRes = await request(server).get('/size?filter[name][eq]=Bulk%20Atomic').set('Authorization', token).expect(200);
+    expect(listRes.body.sizes).to.have.lengthOf(0);
+  });
+
+  it('should report every item on /size/bulk POST in partial mode', async () => {
+    const res = await request(server)
+      .post('/size/bulk')
+      .set('Authorization', token)
+      .send({
+        mode: 'partial',
+        create: [{ name: 'Bulk Partial', cpus: 1, ram: 512, storage: 5 }],
+        update: [{ id, cpus: toCreate.cpus }, { id: 999999999, cpus: 8 }],
+      })
+      .expect(200);
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.failed).to.be.equal(1);
+    expect(res.body.results[0]).to.include({ operation: 'create', index: 0, status: 'success' });
+    expect(res.body.results[1]).to.include({ operation: 'update', index: 0, status: 'success', id });
+    expect(res.body.results[2]).to.include({ operation: 'update', index: 1, status: 'error', code: 1006 });
+
+    const deleteRes = await request(server).post('/size/bulk').set('Authorization', token).send({ delete: [res.body.results[0].id] }).expect(200);
+    expect(deleteRes.body.results[0]).to.include({ operation: 'delete', status: 'success' });
+  });
+
+  it('should answer bulk errors with their HTTP status on /size/bulk POST with Accept-Version: 2', async () => {
+    const res = await request(server)
+      .post('/size/bulk')
+      .set('Authorization', token)
+      .set('Accept-Version', '2')
+      .send({ create: [{ name: 'Bulk Invalid', cpus: 'one', ram: 'lots', storage: 5 }] })
+      .expect(422)
+      .expect('Content-Type', 'application/problem+json; charset=utf-8');
+    expect(res.body.errors).to.have.length(2);
+
+    // every item carries its own code, the request itself succeeded
+    const partialRes = await request(server)
+      .post('/size/bulk')
+      .set('Authorization', token)
+      .set('Accept-Version', '2')
+      .send({ mode: 'partial', update: [{ id: 999999999, cpus: 8 }, { id, cpus: 'eight' }] })
+      .expect(200);
+    expect(partialRes.body.results.map((result: { code: number }) => result.code)).to.be.deep.equal([1006, 1007]);
+  });
+
+  it('should export sizes as CSV on /size?format=csv GET', async () => {
+    const res = await request(server)
+      .get(`/size?format=csv&filter[id][eq]=${id}`)
+      .set('Authorization', token)
+      .set('X-API-Fields', JSON.stringify({ id: true, name: true, cpus: true }))
+      .expect(200)
+      .expect('Content-Type', 'text/csv; charset=utf-8')
+      .expect('Content-Disposition', 'attachment; filename="sizes.csv"');
+    expect(res.text).to.be.equal(`id,name,cpus\r\n${id},${toCreate.name},${toCreate.cpus}\r\n`);
+  });
+
+  it('should import sizes from CSV on /size/import/csv POST', async () => {
+    const invalidRes = await request(server)
+      .post('/size/import/csv')
+      .set('Authorization', token)
+      .attach('file', Buffer.from('name,cpus,ram,storage\nCSV Small,1,512,5\nCSV Invalid,one,512,5\n'), 'sizes.csv')
+      .expect(200);
+    expect(invalidRes.body.status).to.be.equal('error');
+    expect(invalidRes.body.code).to.be.equal(1007);
+    expect(invalidRes.body.errors).to.deep.include({ path: 'file.3.cpus', message: 'Please provide a valid number for cpus', rule: 'number.base' });
+
+    const res = await request(server)
+      .post('/size/import/csv')
+      .set('Authorization', token)
+      .attach('file', Buffer.from('name,cpus,ram,storage\nCSV Small,1,512,5\n'), 'sizes.csv')
+      .expect(200);
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body).to.include({ created: 1, updated: 0 });
+    const createdId = res.body.results[0].id;
+
+    // as exported, the empty and read only cells are left alone
+    const updateRes = await request(server)
+      .post('/size/import/csv')
+      .set('Authorization', token)
+      .attach('file', Buffer.from(`id,name,cpus,ram,storage,createdAt\n${createdId},,4,,,2023-01-01T00:00:00.000Z\n`), 'sizes.csv')
+      .expect(200);
+    expect(updateRes.body.results).to.be.deep.equal([{ row: 2, action: 'update', id: createdId }]);
+
+    const SizeRepository = DB.getDataStore().getRepository(Size);
+    expect(await SizeRepository.findOneBy({ id: createdId })).to.include({ name: 'CSV Small', cpus: 4, ram: 512 });
+    await SizeRepository.delete(createdId);
+  });
+
   it('should list a SINGLE size on /size/<id> GET', async () => {
     const res = await request(server)
       .get(`/size/${id}`)
@@ -122,8 +394,51 @@ describe('Size', () => {
       .expect('Content-Type', 'application/json; charset=utf-8');
     expect(res.body).to.have.property('status');
     expect(res.body.status).to.be.equal('success');
+  });
+
+  it('should list deleted sizes on /size?withDeleted=true GET', async () => {
+    const res = await request(server)
+      .get(`/size?withDeleted=true&filter[id][eq]=${id}`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.sizes).to.have.lengthOf(1);
+    expect(res.body.sizes[0].deletedAt).to.be.a('string');
+  });
+
+  it('should require size:admin on /size?withDeleted=true GET', async () => {
+    const res = await request(server).get('/size?withDeleted=true').set('Authorization', userToken).expect(403);
+    expect(res.body.status).to.be.equal('access-denied');
+  });
+
+  it('should restore a SINGLE size on /size/<id>/restore POST', async () => {
+    const res = await request(server)
+      .post(`/size/${id}/restore`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
+    expect(res.body.size.id).to.be.equal(id);
+    expect(res.body.size.deletedAt).to.be.equal(null);
+    expect(res.body.size.deletedBy).to.be.equal(null);
+
+    const againRes = await request(server).post(`/size/${id}/restore`).set('Authorization', token).expect(200);
+    expect(againRes.body.status).to.be.equal('error');
+    expect(againRes.body.code).to.be.equal(1021);
+  });
+
+  it('should purge a SINGLE size on /size/<id>?hard=true DELETE', async () => {
+    await request(server).delete(`/size/${id}?hard=true`).set('Authorization', userToken).expect(403);
+
+    const res = await request(server)
+      .delete(`/size/${id}?hard=true`)
+      .set('Authorization', token)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8');
+    expect(res.body.status).to.be.equal('success');
 
     const SizeRepository = DB.getDataStore().getRepository(Size);
-    await SizeRepository.delete(id);
+    expect(await SizeRepository.findOne({ where: { id: Number(id) }, withDeleted: true })).to.be.equal(null);
   });
 });
@@ -1,3 +1,9 @@
+type IFilterColumnType = 'number' | 'string' | 'boolean' | 'date' | 'relation' | 'array';
+
+interface IFilterColumns {
+  [column: string]: IFilterColumnType;
+}
+
 interface IFilterQuery {
-  [key: string]: any[];
+  [column: string]: { [operator: string]: string };
 }
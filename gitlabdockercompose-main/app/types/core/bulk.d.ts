@@ -0,0 +1,10 @@
+interface IBulkResult {
+  operation: 'create' | 'update' | 'delete';
+  index: number;
+  status: string;
+  id?: number;
+  code?: number;
+  error?: string;
+  errors?: IProblemError[];
+  [member: string]: unknown;
+}
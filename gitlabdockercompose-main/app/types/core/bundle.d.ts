@@ -0,0 +1,17 @@
+// a record of a bundle, relations hold the natural key of the record they point at
+interface IBundleItem {
+  [field: string]: unknown;
+}
+
+interface IBundle {
+  version: number;
+  exportedAt?: string;
+  [member: string]: IBundleItem[] | number | string | undefined;
+}
+
+interface IBundleChange {
+  kind: string;
+  key: string;
+  action: 'create' | 'update' | 'delete' | 'unchanged';
+  changes?: IAuditChanges;
+}
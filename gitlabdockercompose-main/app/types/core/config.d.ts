@@ -0,0 +1,59 @@
+interface IConfig {
+  server: {
+    port: number;
+    static?: string;
+    trustProxy?: number | string;
+  };
+  sql: {
+    host: string;
+    port: number;
+    user: string;
+    pass: string;
+    db: string;
+    logging: boolean;
+    migrationsRun: boolean;
+    connectRetries: number;
+    connectDelay: number;
+  };
+  redis: {
+    url?: string;
+  };
+  auth: {
+    algorithms: string[];
+    clientId?: string;
+    issuer?: string;
+    audience?: string;
+    keys: {
+      jwksFile?: string;
+      publicKey?: string;
+    };
+    permissionsFile?: string;
+    permissionsTtl: number;
+  };
+  encryption: {
+    keys: { [keyId: string]: string };
+    activeKeyId?: string;
+  };
+  vsphere: {
+    timeout: number;
+    insecure: boolean;
+  };
+  inventorySync: {
+    interval: number;
+    mode: 'report' | 'apply';
+  };
+  retention: {
+    days: number;
+    interval: number;
+  };
+  locales: {
+    dir?: string;
+  };
+  reconcile: {
+    manualChanges: 'allow' | 'warn' | 'block';
+  };
+  seed: {
+    sets: string[];
+    dir?: string;
+  };
+}
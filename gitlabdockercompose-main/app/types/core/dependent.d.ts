@@ -0,0 +1,5 @@
+interface IDependent {
+  kind: string;
+  id: number;
+  name: string;
+}
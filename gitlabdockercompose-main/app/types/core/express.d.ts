@@ -2,6 +2,7 @@ declare module 'express-serve-static-core' {
   interface Request {
     user: IUser;
     fileError: { [key: string]: string };
+    locale: string;
   }
 }
 
@@ -0,0 +1,4 @@
+interface IMessageCatalog {
+  errors: { [code: string]: string };
+  validation: { [rule: string]: string };
+}
@@ -0,0 +1,3 @@
+interface IPermissionMap {
+  [role: string]: string[];
+}
@@ -0,0 +1,16 @@
+interface IProblemError {
+  path: string;
+  message: string;
+  rule?: string;
+}
+
+interface IProblem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: number;
+  errors?: Array<IProblemError>;
+  [member: string]: unknown;
+}
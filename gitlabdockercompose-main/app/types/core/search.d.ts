@@ -0,0 +1,7 @@
+interface ISearchResult {
+  kind: string;
+  id: number;
+  name: string;
+  shortName: string | null;
+  rank: number;
+}
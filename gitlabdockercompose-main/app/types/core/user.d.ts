@@ -0,0 +1,6 @@
+interface IUser {
+  id: string;
+  username?: string;
+  email?: string;
+  roles: string[];
+}
@@ -0,0 +1,24 @@
+interface IVSphereCredentials {
+  url: string;
+  username: string;
+  password: string;
+}
+
+interface IVSphereConnectionResult {
+  reachable: boolean;
+  authenticated: boolean;
+  latency: number;
+  error?: string;
+}
+
+interface IVSphereObject {
+  id: string;
+  name: string;
+}
+
+interface IVSphereInventory {
+  clusters: Array<IVSphereObject>;
+  datacenters: Array<IVSphereObject>;
+  networks: Array<IVSphereObject>;
+  templates: Array<IVSphereObject>;
+}
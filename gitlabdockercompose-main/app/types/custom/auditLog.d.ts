@@ -0,0 +1,15 @@
+interface IAuditChanges {
+  [field: string]: { from: unknown; to: unknown };
+}
+
+interface IAuditLog {
+  id: number;
+  entity: string;
+  entityId: number;
+  action: 'create' | 'update' | 'delete' | 'restore' | 'purge';
+  changes: IAuditChanges;
+  actor: string | null;
+  requestId: string | null;
+  ip: string | null;
+  createdAt: Date;
+}
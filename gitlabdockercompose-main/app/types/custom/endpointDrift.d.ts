@@ -0,0 +1,11 @@
+interface IInventoryDriftChange {
+  added: Array<string>;
+  removed: Array<string>;
+}
+
+interface IInventoryDriftReport {
+  clusters: IInventoryDriftChange;
+  locations: Array<IInventoryDriftChange & { id: number; name: string }>;
+  missingTemplates: Array<{ id: number; name: string; templateId: string }>;
+  unavailableNetworkTemplates: Array<{ id: number; name: string; availableNetwork: string }>;
+}
@@ -2,4 +2,5 @@ interface ILocation {
   id: number;
   name: string;
   availableNetworks: Array<string>;
+  endpoint?: number | null;
 }
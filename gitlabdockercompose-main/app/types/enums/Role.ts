@@ -0,0 +1,5 @@
+export const enum Role {
+  ALL = 'all',
+  ADMIN = 'admin',
+  USER = 'user',
+}
@@ -14,6 +14,13 @@ export const enum ErrorCodes {
   E1012 = 1012,
   E1013 = 1013,
   E1014 = 1014,
+  E1015 = 1015,
+  E1016 = 1016,
+  E1017 = 1017,
+  E1018 = 1018,
+  E1019 = 1019,
+  E1020 = 1020,
+  E1021 = 1021,
   E2001 = 2001,
   E6301 = 6301,
 }
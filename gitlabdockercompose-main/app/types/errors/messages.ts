@@ -14,6 +14,13 @@ export const enum ErrorMessages {
   E1012 = 'Account has been deactivated',
   E1013 = 'Error authenticating your account',
   E1014 = 'Error performing the requested action',
+  E1015 = 'Unable to connect to the endpoint with provided identifier',
+  E1016 = 'Resource with provided identifier is still referenced by other resources',
+  E1017 = 'Resource with provided identifier has been changed since it was read',
+  E1018 = 'Unsupported patch format, send application/merge-patch+json or application/json-patch+json',
+  E1019 = 'Several resources share the natural key of a bundle record',
+  E1020 = 'Resource with provided identifier is managed declaratively, change its desired state instead',
+  E1021 = 'Resource with provided identifier is not deleted',
   E2001 = 'Unable to send notification via the given channel',
   E6301 = 'Namespace is required while creating redis instances',
 }
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import jwt, { Algorithm, JwtHeader, JwtPayload, SigningKeyCallback } from 'jsonwebtoken';
+import config from '../config.js';
+
+/*
+ * Verifies bearer tokens issued by keycloak (or any OIDC provider) without calling out to it.
+ * The verification key is picked from the configuration in the following order:
+ *  AUTH_JWKS_FILE: path to a JWKS document, the key is matched using the token's "kid"
+ *  AUTH_PUBLIC_KEY (or AUTH_PUBLIC_KEY_FILE): PEM encoded public key
+ */
+
+const keyCache: { [source: string]: crypto.KeyObject[] } = {};
+
+const loadKeys: () => crypto.KeyObject[] = () => {
+  const { jwksFile, publicKey } = config.get().auth.keys;
+  const source = jwksFile || publicKey;
+  if (!source) {
+    throw new Error('No verification key configured, set AUTH_JWKS_FILE, AUTH_PUBLIC_KEY_FILE or AUTH_PUBLIC_KEY');
+  }
+  if (keyCache[source]) return keyCache[source];
+
+  let keys: crypto.KeyObject[];
+  if (jwksFile) {
+    const jwks: { keys: crypto.JsonWebKey[] } = fs.readJsonSync(jwksFile);
+    keys = jwks.keys.map((key) => {
+      const keyObject = crypto.createPublicKey({ key, format: 'jwk' });
+      // KeyObject doesn't carry the kid, so it is tagged on for lookups
+      return Object.assign(keyObject, { kid: key.kid });
+    });
+  } else {
+    keys = [crypto.createPublicKey(String(publicKey).replace(/\\n/g, '\n'))];
+  }
+
+  keyCache[source] = keys;
+  return keys;
+};
+
+const getKey = (header: JwtHeader, cb: SigningKeyCallback) => {
+  try {
+    const keys = loadKeys();
+    const key = header.kid ? keys.find((k: crypto.KeyObject & { kid?: string }) => !k.kid || k.kid === header.kid) : keys[0];
+    if (!key) {
+      return cb(new Error(`No verification key found for kid ${header.kid}`));
+    }
+    cb(null, key);
+  } catch (err: unknown) {
+    cb(err as Error);
+  }
+};
+
+/*
+ * Collects realm roles and the roles granted to this service's client
+ */
+const getRoles: (payload: JwtPayload) => string[] = (payload) => {
+  const roles: string[] = [...(payload.realm_access?.roles ?? [])];
+  const clientId = config.get().auth.clientId ?? payload.azp;
+  if (clientId && payload.resource_access?.[clientId]) {
+    roles.push(...(payload.resource_access[clientId].roles ?? []));
+  }
+  return [...new Set(roles)];
+};
+
+const verify: (token: string) => Promise<IUser> = (token) =>
+  new Promise((resolve, reject) => {
+    const algorithms = config.get().auth.algorithms as Algorithm[];
+    jwt.verify(
+      token,
+      getKey,
+      {
+        algorithms,
+        issuer: config.get().auth.issuer,
+        audience: config.get().auth.audience,
+      },
+      (err, decoded) => {
+        if (err) return reject(err);
+        const payload = decoded as JwtPayload;
+        if (!payload.sub) return reject(new Error('Token is missing the subject claim'));
+        resolve({
+          id: payload.sub,
+          username: payload.preferred_username,
+          email: payload.email,
+          roles: getRoles(payload),
+        });
+      }
+    );
+  });
+
+export default { verify };
@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import Joi from 'joi';
+import { Role } from '../../types/enums/Role';
+import { RolePermission } from '../../models/rolePermission';
+import DB from '../connectors/typeorm';
+import logger from '../logger';
+import config from '../config';
+
+/*
+ * Permissions are written as "<resource>:<action>", e.g. catalog:read, endpoint:write, approvalpolicy:delete.
+ * The "admin" action covers deleted records: listing them, restoring them and purging them for good.
+ * The audit log is read with "audit:read", the history of a record also needs read on the record itself.
+ * A "*" in place of either part (or "*" alone) grants every resource or action.
+ * The "all" role is granted to every caller, including callers without a token, so by default it grants nothing.
+ * Signed in users read everything but the audit log, changes take "admin" unless the file or table grants more.
+ */
+
+const resources = ['size', 'oslanguage', 'osfamily', 'location', 'endpoint', 'approvalpolicy', 'ostemplate', 'catalog', 'audit'];
+const actions = ['read', 'write', 'delete', 'admin'];
+
+const defaultPermissions: IPermissionMap = {
+  [Role.ALL]: [],
+  [Role.USER]: ['size', 'oslanguage', 'osfamily', 'location', 'approvalpolicy', 'ostemplate', 'catalog', 'endpoint'].map((resource) => `${resource}:read`),
+  [Role.ADMIN]: ['*'],
+};
+
+const schema = Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string().pattern(/^(\*|(\*|[a-z]+):(\*|[a-z]+))$/)));
+
+let cache: { map: IPermissionMap; expiresAt: number } | undefined;
+let configured: IPermissionMap | undefined;
+
+/*
+ * Role to permission map from AUTH_PERMISSIONS_FILE, falls back to the built in defaults.
+ * Read once, load() at startup makes a missing or invalid file stop the boot.
+ */
+const loadConfig: () => IPermissionMap = () => {
+  if (configured) return configured;
+  const { permissionsFile } = config.get().auth;
+  if (!permissionsFile) {
+    configured = defaultPermissions;
+    return configured;
+  }
+  try {
+    const { error, value } = schema.validate(fs.readJsonSync(permissionsFile));
+    if (error) throw error;
+    configured = value as IPermissionMap;
+    return configured;
+  } catch (err: unknown) {
+    throw new Error(`AUTH_PERMISSIONS_FILE ${permissionsFile} can't be used: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+/*
+ * Rows in role_permission take precedence over the config, so permissions can be changed without a redeploy.
+ * The map is cached for AUTH_PERMISSIONS_TTL seconds.
+ */
+const loadMatrix: () => Promise<IPermissionMap> = async () => {
+  if (cache && cache.expiresAt > Date.now()) return cache.map;
+
+  let map: IPermissionMap | undefined;
+  try {
+    map = loadConfig();
+    const RolePermissionRepository = DB.getDataStore().getRepository(RolePermission);
+    const rows = await RolePermissionRepository.find();
+    if (rows.length > 0) {
+      const fromTable: IPermissionMap = {};
+      rows.forEach((row) => {
+        fromTable[row.role] = [...(fromTable[row.role] ?? []), row.permission];
+      });
+      map = fromTable;
+    }
+  } catch (err: unknown) {
+    if (err instanceof Error) {
+      logger.error('[loadPermissions]', err.message);
+    }
+    // an unreadable table falls back to the config, a broken config has nothing to fall back on
+    if (!map) throw err;
+  }
+
+  cache = { map, expiresAt: Date.now() + config.get().auth.permissionsTtl * 1000 };
+  return map;
+};
+
+const matches: (granted: string, permission: string) => boolean = (granted, permission) => {
+  if (granted === '*' || granted === permission) return true;
+  const [grantedResource, grantedAction] = granted.split(':');
+  const [resource, action] = permission.split(':');
+  return (grantedResource === '*' || grantedResource === resource) && (grantedAction === '*' || grantedAction === action);
+};
+
+const getGranted: (roles: string[]) => Promise<string[]> = async (roles) => {
+  const map = await loadMatrix();
+  return [Role.ALL as string, ...roles].flatMap((role) => map[role] ?? []);
+};
+
+/*
+ * Returns the effective permissions for the given roles, wildcards are expanded
+ */
+const getPermissions: (roles: string[]) => Promise<string[]> = async (roles) => {
+  const granted = await getGranted(roles);
+  const all = resources.flatMap((resource) => actions.map((action) => `${resource}:${action}`));
+  return all.filter((permission) => granted.some((g) => matches(g, permission)));
+};
+
+const hasPermissions: (roles: string[], permissions: string[]) => Promise<boolean> = async (roles, permissions) => {
+  const granted = await getGranted(roles);
+  return permissions.every((permission) => granted.some((g) => matches(g, permission)));
+};
+
+const clearCache = () => {
+  cache = undefined;
+  configured = undefined;
+};
+
+export default { load: loadConfig, getPermissions, hasPermissions, clearCache };
@@ -4,32 +4,110 @@ import HttpStatus from 'http-status';
 import { Status } from '../../types/enums/Status';
 import { ErrorCodes } from '../../types/errors/codes';
 import { ErrorMessages } from '../../types/errors/messages';
+import jwt from './jwt';
+import permissions from './permissions';
+import logger from '../logger';
+import status from '../helpers/status';
+import problem from '../helpers/problem';
+import i18n from '../helpers/i18n';
+import { ApiError } from '../errors';
+
+const getBearerToken: (req: Request) => string | undefined = (req) => {
+  const [scheme, token] = (req.get('Authorization') ?? '').split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+};
+
+const deny = (req: Request, res: Response, httpStatus: number) => {
+  if (status.isStrict(req)) return problem.send(req, res, new ApiError(ErrorCodes.E401, ErrorMessages.E401), httpStatus);
+  return res.status(httpStatus).json({
+    status: Status.ACCESS_DENIED,
+    code: ErrorCodes.E401,
+    message: i18n.error(req, ErrorCodes.E401, ErrorMessages.E401),
+  });
+};
 
 const permit = {
-  allow: (role: string) => {
-    const handler = (_: Request, res: Response, next: any) => {
-      if (role === 'all') {
+  allow: (...roles: string[]) => {
+    const handler = async (req: Request, res: Response, next: any) => {
+      const token = getBearerToken(req);
+
+      if (roles.includes('all')) {
         // if role has "all", then the route is accessible by all
+        // a valid token is still used to identify the user, an invalid one is ignored
+        if (token) {
+          try {
+            req.user = await jwt.verify(token);
+          } catch (err: unknown) {
+            if (err instanceof Error) logger.info('[permit]', err.message);
+          }
+        }
         return next();
       }
-      // [Todo]: add RBAC based role check using keycloak here
 
-      return res.status(HttpStatus.UNAUTHORIZED).json({
-        status: Status.ACCESS_DENIED,
-        code: ErrorCodes.E401,
-        message: ErrorMessages.E401,
-      });
+      if (!token) {
+        return deny(req, res, HttpStatus.UNAUTHORIZED);
+      }
+
+      try {
+        req.user = await jwt.verify(token);
+      } catch (err: unknown) {
+        if (err instanceof Error) logger.info('[permit]', err.message);
+        return deny(req, res, HttpStatus.UNAUTHORIZED);
+      }
+
+      // authorize based on user role
+      if (!roles.some((role) => req.user.roles.includes(role))) {
+        return deny(req, res, HttpStatus.FORBIDDEN);
+      }
+
+      return next();
+    };
+
+    return handler;
+  },
+  can: (...required: string[]) => {
+    const handler = async (req: Request, res: Response, next: any) => {
+      const token = getBearerToken(req);
+      if (token) {
+        try {
+          req.user = await jwt.verify(token);
+        } catch (err: unknown) {
+          if (err instanceof Error) logger.info('[permit]', err.message);
+          return deny(req, res, HttpStatus.UNAUTHORIZED);
+        }
+      }
+
+      // authorize based on the permissions granted to the user's roles (and to "all")
+      let granted: boolean;
+      try {
+        granted = await permissions.hasPermissions(req.user?.roles ?? [], required);
+      } catch (err: unknown) {
+        return next(err);
+      }
+      if (granted) {
+        return next();
+      }
+      return deny(req, res, req.user ? HttpStatus.FORBIDDEN : HttpStatus.UNAUTHORIZED);
+    };
+
+    return handler;
+  },
+  // same as can, but only enforced when the request asks for it, e.g. ?hard=true on a delete
+  canIf: (condition: (req: Request) => boolean, ...required: string[]) => {
+    const check = permit.can(...required);
+    const handler = async (req: Request, res: Response, next: any) => {
+      try {
+        return condition(req) ? await check(req, res, next) : next();
+      } catch (err: unknown) {
+        return next(err);
+      }
     };
 
-    // authorize based on user role
     return handler;
   },
-  block: (res: Response) =>
-    res.status(HttpStatus.UNAUTHORIZED).json({
-      status: Status.ACCESS_DENIED,
-      code: ErrorCodes.E401,
-      message: ErrorMessages.E401,
-    }),
+  block: (req: Request, res: Response) => deny(req, res, HttpStatus.UNAUTHORIZED),
+  // for checks made inside a handler, e.g. permissions depending on what is affected
+  refuse: (req: Request, res: Response) => deny(req, res, req.user ? HttpStatus.FORBIDDEN : HttpStatus.UNAUTHORIZED),
 };
 
 export default permit;
@@ -0,0 +1,212 @@
+import fs from 'fs-extra';
+import Joi from 'joi';
+import { isTestEnv } from './helpers/test.js';
+
+/*
+ * Every setting is read from the environment here, validated once and handed out typed by get().
+ * Secrets can also be given as <NAME>_FILE, the path of a file holding the value (Docker secrets).
+ * The verification and encryption keys are only checked for their format here, auth/jwt.ts and helpers/encryption.ts build the keys.
+ */
+
+const fileVariants = ['SQL_USER', 'SQL_PASS', 'SQL_DB', 'REDIS_URL', 'AUTH_PUBLIC_KEY', 'ENCRYPTION_KEYS'];
+
+const redacted = ['SQL_PASS', 'REDIS_URL', 'AUTH_PUBLIC_KEY', 'ENCRYPTION_KEYS'];
+
+// without a .env the specs run against the local defaults
+const requiredOutsideTests = (schema: Joi.StringSchema, fallback: string) => (isTestEnv() ? schema.default(fallback) : schema.required());
+
+const schema = Joi.object()
+  .keys({
+    SERVER_PORT: Joi.number().port().default(3000),
+    SERVER_STATIC: Joi.string(),
+    TRUST_PROXY: Joi.alternatives().try(Joi.number().integer().min(0), Joi.string()),
+
+    SQL_HOST: Joi.string().default('localhost'),
+    SQL_PORT: Joi.number().port().default(5432),
+    SQL_USER: requiredOutsideTests(Joi.string(), 'postgres'),
+    SQL_PASS: requiredOutsideTests(Joi.string(), 'password'),
+    SQL_DB: requiredOutsideTests(Joi.string(), 'microservice'),
+    SQL_LOGGING: Joi.boolean().default(false),
+    SQL_MIGRATIONS_RUN: Joi.boolean().default(false),
+    SQL_CONNECT_RETRIES: Joi.number().integer().min(0).default(5),
+    SQL_CONNECT_DELAY: Joi.number().integer().min(0).default(1000),
+
+    REDIS_URL: Joi.string().uri({ scheme: ['redis', 'rediss'] }),
+
+    AUTH_JWKS_FILE: Joi.string(),
+    AUTH_PUBLIC_KEY: Joi.string(),
+    AUTH_ISSUER: Joi.string(),
+    AUTH_AUDIENCE: Joi.string(),
+    AUTH_CLIENT_ID: Joi.string(),
+    AUTH_ALGORITHMS: Joi.string()
+      .pattern(/^\s*[A-Z]{2}\d{3}\s*(,\s*[A-Z]{2}\d{3}\s*)*$/)
+      .default('RS256')
+      .messages({ 'string.pattern.base': '"AUTH_ALGORITHMS" must be a comma separated list of JWT algorithms, e.g. RS256,ES256' }),
+    AUTH_PERMISSIONS_FILE: Joi.string(),
+    AUTH_PERMISSIONS_TTL: Joi.number().integer().min(0).default(60),
+
+    // a key file holds { "activeKeyId": "k2", "keys": { "k1": "<base64>", "k2": "<base64>" } } instead
+    ENCRYPTION_KEYS: Joi.string()
+      .pattern(/^\s*(\{[\s\S]*\}|[\w.-]+:[A-Za-z0-9+/]+={0,2}\s*(,\s*[\w.-]+:[A-Za-z0-9+/]+={0,2}\s*)*)\s*$/)
+      .messages({ 'string.pattern.base': '"ENCRYPTION_KEYS" must be a comma separated list of <keyId>:<base64> or a JSON key file' }),
+    ENCRYPTION_KEY_ID: Joi.string(),
+
+    VSPHERE_TIMEOUT: Joi.number().integer().min(1).default(10000),
+    VSPHERE_INSECURE: Joi.boolean().default(false),
+
+    INVENTORY_SYNC_INTERVAL: Joi.number().integer().min(0).default(0),
+    INVENTORY_SYNC_MODE: Joi.string().valid('report', 'apply').default('report'),
+    RETENTION_DAYS: Joi.number().integer().min(0).default(0),
+    RETENTION_INTERVAL: Joi.number().integer().min(1).default(86400),
+
+    LOCALES_DIR: Joi.string(),
+
+    RECONCILE_MANUAL_CHANGES: Joi.string().valid('allow', 'warn', 'block').default('warn'),
+
+    SEED_SETS: Joi.string()
+      .pattern(/^\s*[\w-]+\s*(,\s*[\w-]+\s*)*$/)
+      .messages({ 'string.pattern.base': '"SEED_SETS" must be a comma separated list of seed set names, e.g. baseline,demo' }),
+    SEED_DIR: Joi.string(),
+  })
+  .unknown(true);
+
+/*
+ * Empty values (NAME= in the .env) count as unset, <NAME>_FILE is replaced by the content of the file
+ */
+const read: (env: NodeJS.ProcessEnv) => { values: { [name: string]: string }; problems: string[] } = (env) => {
+  const values: { [name: string]: string } = {};
+  const problems: string[] = [];
+  Object.entries(env).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') values[name] = value;
+  });
+
+  fileVariants.forEach((name) => {
+    const file = values[`${name}_FILE`];
+    if (!file) return;
+    delete values[`${name}_FILE`];
+    if (values[name] !== undefined) {
+      problems.push(`"${name}" and "${name}_FILE" can't both be set`);
+      return;
+    }
+    try {
+      values[name] = fs.readFileSync(file, 'utf8').trim();
+    } catch (err: unknown) {
+      problems.push(`"${name}_FILE" can't be read: ${err instanceof Error ? err.message : err}`);
+    }
+  });
+  return { values, problems };
+};
+
+// the master keys by key id and the active one, from the list or the JSON of a key file
+const keyRing: (value: string | undefined, keyId: string | undefined) => { keys: { [keyId: string]: string }; activeKeyId?: string } = (value, keyId) => {
+  if (!value) return { keys: {}, activeKeyId: keyId };
+  if (value.trim().startsWith('{')) {
+    const file: { activeKeyId?: string; keys?: { [keyId: string]: string } } = JSON.parse(value);
+    return { keys: file.keys ?? {}, activeKeyId: keyId ?? file.activeKeyId };
+  }
+  const keys = Object.fromEntries(value.split(',').map((entry) => entry.trim().split(':')));
+  return { keys, activeKeyId: keyId ?? Object.keys(keys)[0] };
+};
+
+/*
+ * Throws with every missing or invalid setting at once
+ */
+const load: (env?: NodeJS.ProcessEnv) => IConfig = (env = process.env) => {
+  const { values, problems } = read(env);
+  const { value, error } = schema.validate(values, { abortEarly: false, convert: true });
+  if (error) problems.push(...error.details.map((detail) => detail.message));
+  let encryption: IConfig['encryption'] = { keys: {} };
+  try {
+    encryption = keyRing(value.ENCRYPTION_KEYS, value.ENCRYPTION_KEY_ID);
+  } catch (err: unknown) {
+    problems.push(`"ENCRYPTION_KEYS" can't be parsed as a key file: ${err instanceof Error ? err.message : err}`);
+  }
+  if (problems.length) {
+    throw new Error(`Invalid configuration: ${problems.join('; ')}`);
+  }
+
+  return {
+    server: {
+      port: value.SERVER_PORT,
+      static: value.SERVER_STATIC,
+      trustProxy: value.TRUST_PROXY,
+    },
+    sql: {
+      host: value.SQL_HOST,
+      port: value.SQL_PORT,
+      user: value.SQL_USER,
+      pass: value.SQL_PASS,
+      db: value.SQL_DB,
+      logging: value.SQL_LOGGING,
+      migrationsRun: value.SQL_MIGRATIONS_RUN,
+      connectRetries: value.SQL_CONNECT_RETRIES,
+      connectDelay: value.SQL_CONNECT_DELAY,
+    },
+    redis: {
+      url: value.REDIS_URL,
+    },
+    auth: {
+      algorithms: value.AUTH_ALGORITHMS.split(',').map((algorithm: string) => algorithm.trim()),
+      clientId: value.AUTH_CLIENT_ID,
+      issuer: value.AUTH_ISSUER,
+      audience: value.AUTH_AUDIENCE,
+      keys: {
+        jwksFile: value.AUTH_JWKS_FILE,
+        publicKey: value.AUTH_PUBLIC_KEY,
+      },
+      permissionsFile: value.AUTH_PERMISSIONS_FILE,
+      permissionsTtl: value.AUTH_PERMISSIONS_TTL,
+    },
+    encryption,
+    vsphere: {
+      timeout: value.VSPHERE_TIMEOUT,
+      insecure: value.VSPHERE_INSECURE,
+    },
+    inventorySync: {
+      interval: value.INVENTORY_SYNC_INTERVAL,
+      mode: value.INVENTORY_SYNC_MODE,
+    },
+    retention: {
+      days: value.RETENTION_DAYS,
+      interval: value.RETENTION_INTERVAL,
+    },
+    locales: {
+      dir: value.LOCALES_DIR,
+    },
+    reconcile: {
+      manualChanges: value.RECONCILE_MANUAL_CHANGES,
+    },
+    seed: {
+      sets: value.SEED_SETS ? value.SEED_SETS.split(',').map((set: string) => set.trim()) : [],
+      dir: value.SEED_DIR,
+    },
+  };
+};
+
+let config: IConfig | undefined;
+
+// loaded on first use, after the entry point has read the .env
+const get: () => IConfig = () => {
+  if (!config) config = load();
+  return config;
+};
+
+// the next get() reads the environment again, for the specs changing it
+const reset: () => void = () => {
+  config = undefined;
+};
+
+/*
+ * The effective settings for the startup log, secrets are replaced by [redacted]
+ */
+const describe: (env?: NodeJS.ProcessEnv) => { [name: string]: unknown } = (env = process.env) => {
+  const { values } = read(env);
+  const { value } = schema.validate(values, { abortEarly: false, convert: true });
+  return Object.fromEntries(
+    Object.keys(schema.describe().keys)
+      .filter((name) => value[name] !== undefined)
+      .map((name) => [name, redacted.includes(name) ? '[redacted]' : value[name]]),
+  );
+};
+
+export default { load, get, reset, describe };
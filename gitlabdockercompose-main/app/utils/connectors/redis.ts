@@ -0,0 +1,26 @@
+import Redis from 'ioredis';
+import config from '../config.js';
+
+/*
+ * Redis is optional, it is only used when REDIS_URL is set (e.g. redis://cache:6379)
+ */
+
+let client: Redis | undefined;
+
+const isEnabled: () => boolean = () => !!config.get().redis.url;
+
+// connects on first use and fails fast instead of queueing commands while disconnected
+const getClient: () => Redis = () => {
+  if (!client) {
+    client = new Redis(config.get().redis.url ?? '', { lazyConnect: true, enableOfflineQueue: false, maxRetriesPerRequest: 1, connectTimeout: 2000, commandTimeout: 2000 });
+  }
+  return client;
+};
+
+const ping: () => Promise<boolean> = async () => {
+  const redis = getClient();
+  if (redis.status === 'wait') await redis.connect();
+  return (await redis.ping()) === 'PONG';
+};
+
+export default { isEnabled, getClient, ping };
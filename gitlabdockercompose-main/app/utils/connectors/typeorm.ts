@@ -1,37 +1,103 @@
 import 'pg';
 import 'pg-hstore';
-import { DataSource } from 'typeorm';
+import { DataSource, DataSourceOptions, Migration, MigrationExecutor } from 'typeorm';
 import entities from '../entities.js';
+import migrations from '../migrations.js';
+import { AuditSubscriber } from '../subscribers/audit.js';
 import logger from '../logger.js';
+import config from '../config.js';
+import { isTestEnv } from '../helpers/test.js';
 
 // Call init only once when the app opens.
 // This makes sure only one connection is open to Postgres
 let datastore: DataSource;
 
-const init = async () => {
+// shared with the migrate command
+const getOptions: () => DataSourceOptions = () => {
+  const { sql } = config.get();
+  return {
+    type: 'postgres',
+    host: sql.host,
+    port: sql.port,
+    username: sql.user,
+    password: sql.pass,
+    database: sql.db,
+    logNotifications: sql.logging,
+    synchronize: false,
+    migrationsTransactionMode: 'each',
+    entities,
+    subscribers: [AuditSubscriber],
+    migrations,
+  };
+};
+
+/*
+ * A MigrationExecutor with a query runner of its own, without one it releases the runner it creates before querying with it
+ */
+const withMigrationExecutor: <T>(source: DataSource, callback: (executor: MigrationExecutor) => Promise<T>) => Promise<T> = async (source, callback) => {
+  const queryRunner = source.createQueryRunner();
   try {
-    const DIALECT = 'postgres';
-    const HOST = process.env.SQL_HOST ?? 'localhost';
-    const PORT = process.env.SQL_PORT ?? '5432';
-    const USER = process.env.SQL_USER ?? 'default';
-    const PASS = process.env.SQL_PASS ?? 'default';
-    const DB = process.env.SQL_DB ?? 'default';
-    const LOGGING = process.env.SQL_LOGGING === 'true';
-    datastore = new DataSource({
-      type: DIALECT,
-      host: HOST,
-      port: parseInt(PORT),
-      username: USER,
-      password: PASS,
-      database: DB,
-      logNotifications: LOGGING,
-      synchronize: true,
-      entities,
+    return await callback(new MigrationExecutor(source, queryRunner));
+  } finally {
+    await queryRunner.release();
+  }
+};
+
+// migrations not applied to the connected database yet
+const getPendingMigrations: () => Promise<Migration[]> = () => withMigrationExecutor(datastore, (executor) => executor.getPendingMigrations());
+
+/*
+ * The schema is only changed by migrations. Pending ones stop the boot,
+ * unless SQL_MIGRATIONS_RUN=true lets them run first (always the case for the specs).
+ */
+const migrate = async () => {
+  const pending = await getPendingMigrations();
+  if (!pending.length) return;
+
+  if (config.get().sql.migrationsRun || isTestEnv()) {
+    const applied = await datastore.runMigrations();
+    logger.info('[TypeORM]', 'Applied migrations', applied.map((migration) => migration.name));
+    return;
+  }
+
+  throw new Error(`Pending migrations ${pending.map((migration) => migration.name).join(', ')}, apply them with \`yarn migrate run\` or set SQL_MIGRATIONS_RUN=true`);
+};
+
+/*
+ * Tries SQL_CONNECT_RETRIES more times after a failed attempt, waiting SQL_CONNECT_DELAY ms at first and twice as long every time (30s at most)
+ */
+const connect: () => Promise<DataSource> = async () => {
+  const { connectRetries: retries, connectDelay: delay } = config.get().sql;
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await new DataSource(getOptions()).initialize();
+    } catch (err: unknown) {
+      if (attempt >= retries) throw err;
+      const wait = Math.min(delay * 2 ** attempt, 30000);
+      logger.error('[TypeORM]', `Unable to connect (attempt ${attempt + 1} of ${retries + 1}), retrying in ${wait}ms`, err instanceof Error ? err.message : err);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+};
+
+let initializing: Promise<DataSource> | undefined;
+
+/*
+ * Resolves once the database is connected and migrated and rejects when it can't be, the caller decides what to do then.
+ * Every call returns the same attempt, a failed one is started over on the next call.
+ */
+const init: () => Promise<DataSource> = () => {
+  if (!initializing) {
+    initializing = (async () => {
+      datastore = await connect();
+      await migrate();
+      return datastore;
+    })();
+    initializing.catch(() => {
+      initializing = undefined;
     });
-    await datastore.initialize();
-  } catch (err) {
-    logger.error('[TypeORM]', err);
   }
+  return initializing;
 };
 
 // getInstance returns connected instance of datasource
@@ -40,4 +106,7 @@ const getDataStore = () => datastore;
 export default {
   init,
   getDataStore,
+  getOptions,
+  getPendingMigrations,
+  withMigrationExecutor,
 };
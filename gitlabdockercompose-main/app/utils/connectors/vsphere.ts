@@ -0,0 +1,104 @@
+import https from 'https';
+import axios, { AxiosInstance } from 'axios';
+import config from '../config.js';
+
+/*
+ * Minimal client for the vCenter REST API (/api/session, /api/vcenter/*).
+ * The http client is created through a factory, so specs can point it at a local mock server.
+ */
+
+type HttpClientFactory = (baseURL: string) => AxiosInstance;
+
+const defaultFactory: HttpClientFactory = (baseURL) =>
+  axios.create({
+    baseURL,
+    timeout: config.get().vsphere.timeout,
+    // vCenters commonly run with self signed certificates
+    httpsAgent: new https.Agent({ rejectUnauthorized: !config.get().vsphere.insecure }),
+  });
+
+let createHttpClient: HttpClientFactory = defaultFactory;
+
+// Pass nothing to restore the default axios client
+const setHttpClientFactory = (factory?: HttpClientFactory) => {
+  createHttpClient = factory ?? defaultFactory;
+};
+
+const login: (client: AxiosInstance, credentials: IVSphereCredentials) => Promise<string> = async (client, credentials) => {
+  const res = await client.post('/api/session', null, { auth: { username: credentials.username, password: credentials.password } });
+  return res.data;
+};
+
+const logout: (client: AxiosInstance, sessionId: string) => Promise<void> = async (client, sessionId) => {
+  try {
+    await client.delete('/api/session', { headers: { 'vmware-api-session-id': sessionId } });
+  } catch (err: unknown) {
+    // session expires on its own, nothing to do
+  }
+};
+
+const errorMessage: (err: unknown) => string = (err) => {
+  if (axios.isAxiosError(err) && err.response?.status === 401) return 'Invalid credentials';
+  return err instanceof Error ? err.message : String(err);
+};
+
+/*
+ * Logs in with the given credentials and reports reachability, auth result and round trip latency
+ */
+const testConnection: (credentials: IVSphereCredentials) => Promise<IVSphereConnectionResult> = async (credentials) => {
+  const client = createHttpClient(credentials.url);
+  const startedAt = Date.now();
+  try {
+    const sessionId = await login(client, credentials);
+    const latency = Date.now() - startedAt;
+    await logout(client, sessionId);
+    return { reachable: true, authenticated: true, latency };
+  } catch (err: unknown) {
+    const latency = Date.now() - startedAt;
+    // any http response means the server is reachable, only the login failed
+    const reachable = axios.isAxiosError(err) && typeof err.response !== 'undefined';
+    return { reachable, authenticated: false, latency, error: errorMessage(err) };
+  }
+};
+
+/*
+ * Templates are published through content libraries, every library is walked and vm/ovf templates are kept
+ */
+const listTemplates: (client: AxiosInstance, headers: { [key: string]: string }) => Promise<Array<IVSphereObject>> = async (client, headers) => {
+  const libraries = await client.get('/api/content/library', { headers });
+  const itemIds: string[] = (
+    await Promise.all(libraries.data.map((libraryId: string) => client.get('/api/content/library/item', { headers, params: { library_id: libraryId } })))
+  ).flatMap((r) => r.data);
+  const items = await Promise.all(itemIds.map((itemId) => client.get(`/api/content/library/item/${itemId}`, { headers })));
+  return items
+    .map((r) => r.data)
+    .filter((item: { type: string }) => ['vm-template', 'ovf'].includes(item.type))
+    .map((item: { id: string; name: string }) => ({ id: item.id, name: item.name }));
+};
+
+/*
+ * Lists clusters, datacenters, networks and templates visible to the given credentials
+ */
+const discover: (credentials: IVSphereCredentials) => Promise<IVSphereInventory> = async (credentials) => {
+  const client = createHttpClient(credentials.url);
+  const sessionId = await login(client, credentials);
+  const headers = { 'vmware-api-session-id': sessionId };
+  try {
+    const [clusters, datacenters, networks, templates] = await Promise.all([
+      client.get('/api/vcenter/cluster', { headers }),
+      client.get('/api/vcenter/datacenter', { headers }),
+      client.get('/api/vcenter/network', { headers }),
+      listTemplates(client, headers),
+    ]);
+    return {
+      clusters: clusters.data.map((c: { cluster: string; name: string }) => ({ id: c.cluster, name: c.name })),
+      datacenters: datacenters.data.map((d: { datacenter: string; name: string }) => ({ id: d.datacenter, name: d.name })),
+      networks: networks.data.map((n: { network: string; name: string }) => ({ id: n.network, name: n.name })),
+      templates,
+    };
+  } finally {
+    await logout(client, sessionId);
+  }
+};
+
+export default { testConnection, discover, setHttpClientFactory, errorMessage };
@@ -6,6 +6,9 @@ import { Endpoint } from '../models/endpoint.js';
 import { ApprovalPolicy } from '../models/approvalPolicy.js';
 import { OsTemplate } from '../models/osTemplate.js';
 import { Catalog } from '../models/catalog.js';
+import { RolePermission } from '../models/rolePermission.js';
+import { EndpointDrift } from '../models/endpointDrift.js';
+import { AuditLog } from '../models/auditLog.js';
 /* inject: entity-import */
 
 // eslint-disable-next-line prettier/prettier
@@ -18,6 +21,9 @@ const entities = [
   ApprovalPolicy,
   OsTemplate,
   Catalog,
+  RolePermission,
+  EndpointDrift,
+  AuditLog,
 /* inject: entity-define */
 ];
 
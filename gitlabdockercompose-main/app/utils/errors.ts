@@ -0,0 +1,37 @@
+import { ErrorCodes } from '../types/errors/codes.js';
+import { ErrorMessages } from '../types/errors/messages.js';
+
+/*
+ * Thrown by the route handlers, the error middleware (helpers/problem.ts) turns them into the response.
+ * The title is the generic message of the code, the message says what went wrong this time.
+ * Extensions are sent along as they are, e.g. the dependents of a referenced record.
+ */
+export class ApiError extends Error {
+  constructor(readonly code: ErrorCodes, readonly title: string, detail: string = title, readonly extensions: { [member: string]: unknown } = {}) {
+    super(detail);
+    this.name = 'ApiError';
+  }
+}
+
+// every failing field of the input, the first one is the message
+export class ValidationError extends ApiError {
+  constructor(readonly errors: IProblemError[]) {
+    super(ErrorCodes.E1007, ErrorMessages.E1007, errors[0]?.message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor() {
+    super(ErrorCodes.E1006, ErrorMessages.E1006);
+    this.name = 'NotFoundError';
+  }
+}
+
+// the request can't be applied to the record as it is, e.g. restoring one that isn't deleted
+export class ConflictError extends ApiError {
+  constructor(code: ErrorCodes, title: string, extensions: { [member: string]: unknown } = {}) {
+    super(code, title, title, extensions);
+    this.name = 'ConflictError';
+  }
+}
@@ -0,0 +1,24 @@
+import { FindOptionsWhere } from 'typeorm';
+import DB from '../connectors/typeorm.js';
+import { AuditLog } from '../../models/auditLog.js';
+import { AuditSubscriber } from '../subscribers/audit.js';
+
+/*
+ * Reading side of the audit log, entries are written by the audit subscriber
+ */
+
+const { kinds } = AuditSubscriber;
+
+const actions = ['create', 'update', 'delete', 'restore', 'purge'];
+
+// newest first
+const find: (where: FindOptionsWhere<AuditLog>, options: { page: number; limit: number }) => Promise<{ entries: AuditLog[]; count: number; pages: number }> = async (
+  where,
+  options
+) => {
+  const AuditLogRepository = DB.getDataStore().getRepository(AuditLog);
+  const [entries, count] = await AuditLogRepository.findAndCount({ where, order: { id: 'desc' }, skip: options.page * options.limit, take: options.limit });
+  return { entries, count, pages: Math.ceil(count / options.limit) };
+};
+
+export default { kinds, actions, find };
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import HttpStatus from 'http-status';
+import { isEmpty } from 'lodash';
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+import Joi, { message } from './joi.js';
+import problem from './problem.js';
+import integrity from './integrity.js';
+import managed from './managed.js';
+import logger from '../logger.js';
+import DB from '../connectors/typeorm.js';
+import { ApiError, ConflictError, NotFoundError, ValidationError } from '../errors.js';
+import { Status } from '../../types/enums/Status.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+import { ErrorMessages } from '../../types/errors/messages.js';
+
+/*
+ * POST /<kind>/bulk, creates, updates (by id) and deletes of one kind in a single transaction, in that order.
+ * atomic (the default) rolls all of it back on the first failing item and answers with its error, pointing at the item (body.create.3.name).
+ * partial keeps whatever goes through, each item runs in a savepoint of its own and the response lists how every one of them went.
+ * The routers create and update the records with their own schema and relation checks, deletes are soft and refused for referenced records.
+ */
+
+type Operation = IBulkResult['operation'];
+
+type Actions<C, U> = {
+  kind: string;
+  entity: EntityTarget<ObjectLiteral>;
+  create: (manager: EntityManager, b: C, req: Request) => Promise<{ id: number }>;
+  // what the update item holds besides the id
+  update: (manager: EntityManager, id: number, b: U, req: Request) => Promise<{ id: number }>;
+};
+
+const limit = 500;
+
+const schema = Joi.object().keys({
+  b: Joi.object()
+    .keys({
+      mode: Joi.string().valid('atomic', 'partial').optional().error(message('Please provide a valid mode')),
+      create: Joi.array().items(Joi.object()).max(limit).optional().error(message(`Please provide a valid array of at most ${limit} objects for create`)),
+      update: Joi.array()
+        .items(Joi.object().keys({ id: Joi.number().required() }).unknown(true))
+        .max(limit)
+        .optional()
+        .error(message(`Please provide a valid array of at most ${limit} objects with an id for update`)),
+      delete: Joi.array().items(Joi.number()).max(limit).optional().error(message(`Please provide a valid array of at most ${limit} ids for delete`)),
+    })
+    .or('create', 'update', 'delete')
+    .required()
+    // .error() would replace the messages of the lists as well
+    .messages({
+      'object.base': 'Please provide a valid object for body',
+      'object.missing': 'Please provide create, update or delete',
+      'any.required': 'Please provide a valid object for body',
+    }),
+});
+
+// codes of the single item routes, for errors nobody expected
+const codes: { [operation: string]: [ErrorCodes, ErrorMessages] } = {
+  create: [ErrorCodes.E1003, ErrorMessages.E1003],
+  update: [ErrorCodes.E1004, ErrorMessages.E1004],
+  delete: [ErrorCodes.E1005, ErrorMessages.E1005],
+};
+
+// for permit.canIf, deleting needs the delete permission on top of write
+const deletes: (req: Request) => boolean = (req) => !isEmpty(req.body?.delete);
+
+const remove: (manager: EntityManager, kind: string, entity: EntityTarget<ObjectLiteral>, id: number, req: Request) => Promise<void> = async (manager, kind, entity, id, req) => {
+  const repository = manager.getRepository(entity);
+  const record = await repository.findOneBy({ id });
+  if (!record) {
+    throw new NotFoundError();
+  }
+  managed.check(req, record);
+  const dependents = await integrity.getDependents(kind, id);
+  if (dependents.length) {
+    throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+  }
+  record.deletedBy = req.user?.id;
+  await repository.save(record);
+  await repository.softRemove(record);
+};
+
+/*
+ * The error of an item as if the item had been the whole body, paths and all
+ */
+const failure: (name: string, operation: Operation, index: number, err: unknown) => ApiError = (name, operation, index, err) => {
+  if (err instanceof ValidationError) {
+    return new ValidationError(err.errors.map((error) => ({ ...error, path: error.path.replace(/^body/, `body.${operation}.${index}`) })));
+  }
+  if (err instanceof ApiError) {
+    return new ApiError(err.code, err.title, err.message, { ...err.extensions, operation, index });
+  }
+  logger.error(`[${name}]`, `${operation} ${index}: ${err instanceof Error ? err.message : err}`);
+  const [code, title] = codes[operation];
+  return new ApiError(code, title, title, { operation, index });
+};
+
+/*
+ * The route handler, to be wrapped in problem.handle like any other
+ */
+const handle =
+  <C, U>(name: string, actions: Actions<C, U>) =>
+  async (req: Request, res: Response) => {
+    problem.validate(schema, { b: req.body });
+    const partial = req.body.mode === 'partial';
+    const items: { operation: Operation; index: number; run: (manager: EntityManager) => Promise<number> }[] = [
+      ...(req.body.create ?? []).map((b: C, index: number) => ({
+        operation: 'create',
+        index,
+        run: async (manager: EntityManager) => (await actions.create(manager, b, req)).id,
+      })),
+      ...(req.body.update ?? []).map(({ id, ...b }: U & { id: number }, index: number) => ({
+        operation: 'update',
+        index,
+        run: async (manager: EntityManager) => (await actions.update(manager, id, b as U, req)).id,
+      })),
+      ...(req.body.delete ?? []).map((id: number, index: number) => ({
+        operation: 'delete',
+        index,
+        run: async (manager: EntityManager) => {
+          await remove(manager, actions.kind, actions.entity, id, req);
+          return id;
+        },
+      })),
+    ];
+
+    const results: IBulkResult[] = await DB.getDataStore().transaction(async (manager) => {
+      const done: IBulkResult[] = [];
+      for (const item of items) {
+        const { operation, index } = item;
+        if (!partial) {
+          const id = await item.run(manager).catch((err: unknown) => {
+            throw failure(name, operation, index, err);
+          });
+          done.push({ operation, index, status: Status.SUCCESS, id });
+          continue;
+        }
+        // a failing statement spoils the transaction, the savepoint keeps it to the item
+        try {
+          const id = await manager.transaction((savepoint) => item.run(savepoint));
+          done.push({ operation, index, status: Status.SUCCESS, id });
+        } catch (err: unknown) {
+          const error = failure(name, operation, index, err);
+          const { detail, errors } = problem.translate(req, error);
+          done.push({ ...error.extensions, operation, index, status: Status.ERROR, code: error.code, error: detail, ...(errors ? { errors } : {}) });
+        }
+      }
+      return done;
+    });
+
+    res.status(HttpStatus.OK).send({ status: Status.SUCCESS, results, failed: results.filter((result) => result.status === Status.ERROR).length });
+  };
+
+export default { deletes, handle };
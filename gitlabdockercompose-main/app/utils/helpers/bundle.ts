@@ -0,0 +1,434 @@
+import yaml from 'js-yaml';
+import { ObjectSchema } from 'joi';
+import { isEmpty, isEqual, pick } from 'lodash';
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+import Joi, { message } from './joi.js';
+import problem from './problem.js';
+import encryption from './encryption.js';
+import integrity from './integrity.js';
+import DB from '../connectors/typeorm.js';
+import { ConflictError, ValidationError } from '../errors.js';
+import { Size } from '../../models/size.js';
+import { OsLanguage } from '../../models/osLanguage.js';
+import { OsFamily } from '../../models/osFamily.js';
+import { Location } from '../../models/location.js';
+import { Endpoint } from '../../models/endpoint.js';
+import { ApprovalPolicy } from '../../models/approvalPolicy.js';
+import { OsTemplate } from '../../models/osTemplate.js';
+import { Catalog } from '../../models/catalog.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+import { ErrorMessages } from '../../types/errors/messages.js';
+
+/*
+ * Configuration bundles, to promote the catalog from one installation to another (staging to production).
+ * A bundle holds every record of every kind without ids. Records are known by their natural key (the shortName where the kind has one, the name otherwise)
+ * and point at each other by it, e.g. an ostemplate names its osFamily and location.
+ * An import upserts by natural key, kind by kind in dependency order, in a single transaction. Records the bundle doesn't mention are left alone.
+ * Endpoint passwords are left out, or exported encrypted with the master key (helpers/encryption.ts), which the importing side then needs as well.
+ * Catalog icons are uploaded files and not part of a bundle.
+ *
+ * A reconcile applies a bundle as the desired state instead: every kind the bundle has a member for belongs to it,
+ * the records of those kinds it doesn't mention are soft-deleted and the ones it does are marked managed (helpers/managed.ts).
+ */
+
+const version = 1;
+
+interface IBundleSource {
+  kind: string;
+  // member of the bundle, named like the list response of the kind
+  member: string;
+  entity: EntityTarget<ObjectLiteral>;
+  key: 'name' | 'shortName';
+  fields: string[];
+  // field pointing at another kind, by the natural key of the record
+  relations: { [field: string]: string };
+  secret?: string;
+  schema: ObjectSchema;
+  // checks a record against the ones it points at, the path is the field
+  check?: (item: IBundleItem, find: (kind: string, key: unknown) => IBundleItem | undefined) => IProblemError | undefined;
+}
+
+// in dependency order, a kind only points at the kinds before it
+const sources: IBundleSource[] = [
+  {
+    kind: 'size',
+    member: 'sizes',
+    entity: Size,
+    key: 'name',
+    fields: ['name', 'cpus', 'ram', 'storage'],
+    relations: {},
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      cpus: Joi.number().required().error(message('Please provide a valid number for cpus')),
+      ram: Joi.number().required().error(message('Please provide a valid number for ram')),
+      storage: Joi.number().required().error(message('Please provide a valid number for storage')),
+    }),
+  },
+  {
+    kind: 'oslanguage',
+    member: 'oslanguages',
+    entity: OsLanguage,
+    key: 'name',
+    fields: ['name'],
+    relations: {},
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+    }),
+  },
+  {
+    kind: 'osfamily',
+    member: 'osfamilies',
+    entity: OsFamily,
+    key: 'shortName',
+    fields: ['name', 'shortName'],
+    relations: {},
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      shortName: Joi.string().required().error(message('Please provide a valid shortName')),
+    }),
+  },
+  {
+    kind: 'endpoint',
+    member: 'endpoints',
+    entity: Endpoint,
+    key: 'shortName',
+    fields: ['name', 'shortName', 'url', 'username', 'availableClusters'],
+    relations: {},
+    secret: 'password',
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      shortName: Joi.string().required().error(message('Please provide a valid shortName')),
+      url: Joi.string().required().error(message('Please provide a valid url')),
+      username: Joi.string().required().error(message('Please provide a valid username')),
+      // kept for an existing endpoint when left out
+      password: Joi.string().optional().error(message('Please provide a valid password')),
+      availableClusters: Joi.array()
+        .items(Joi.string().required().error(message('Please provide a valid availableClusters')))
+        .required()
+        .error(message('Please provide a valid array for availableClusters')),
+    }),
+  },
+  {
+    kind: 'location',
+    member: 'locations',
+    entity: Location,
+    key: 'name',
+    fields: ['name', 'availableNetworks'],
+    relations: { endpoint: 'endpoint' },
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      availableNetworks: Joi.array()
+        .items(Joi.string().required().error(message('Please provide a valid availableNetworks')))
+        .required()
+        .error(message('Please provide a valid array for availableNetworks')),
+      endpoint: Joi.string().allow(null).optional().error(message('Please provide a valid shortName for endpoint')),
+    }),
+  },
+  {
+    kind: 'approvalpolicy',
+    member: 'approvalpolicies',
+    entity: ApprovalPolicy,
+    key: 'name',
+    fields: ['name', 'policies'],
+    relations: {},
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      policies: Joi.array()
+        .items(
+          Joi.object()
+            .keys({
+              userGroups: Joi.string().required().error(message('Please provide a valid userGroups')),
+              expiresInDays: Joi.number().required().error(message('Please provide a valid number for expiresInDays')),
+              defaultAction: Joi.string().required().error(message('Please provide a valid defaultAction')),
+            })
+            .error(message('Please provide a valid object for policies'))
+        )
+        .required()
+        .error(message('Please provide a valid array for policies')),
+    }),
+  },
+  {
+    kind: 'ostemplate',
+    member: 'ostemplates',
+    entity: OsTemplate,
+    key: 'name',
+    fields: ['name', 'templateId', 'availableNetwork'],
+    relations: { osFamily: 'osfamily', location: 'location' },
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      templateId: Joi.string().required().error(message('Please provide a valid templateId')),
+      osFamily: Joi.string().required().error(message('Please provide a valid shortName for osFamily')),
+      location: Joi.string().required().error(message('Please provide a valid name for location')),
+      availableNetwork: Joi.string().required().error(message('Please provide a valid availableNetwork')),
+    }),
+    check: (item, find) => {
+      const location = find('location', item.location);
+      if (!location || (location.availableNetworks as string[]).includes(item.availableNetwork as string)) return undefined;
+      return { path: 'availableNetwork', message: 'Provided availableNetwork is not part of location', rule: 'reference.mismatch' };
+    },
+  },
+  {
+    kind: 'catalog',
+    member: 'catalogs',
+    entity: Catalog,
+    key: 'shortName',
+    fields: ['name', 'shortName', 'defaultLeasePeriod', 'permittedMaxLeaseExtensions', 'type'],
+    relations: { defaultTemplate: 'ostemplate', defaultApprovalPolicy: 'approvalpolicy' },
+    schema: Joi.object().keys({
+      name: Joi.string().required().error(message('Please provide a valid name')),
+      shortName: Joi.string().required().error(message('Please provide a valid shortName')),
+      defaultTemplate: Joi.string().required().error(message('Please provide a valid name for defaultTemplate')),
+      defaultApprovalPolicy: Joi.string().required().error(message('Please provide a valid name for defaultApprovalPolicy')),
+      defaultLeasePeriod: Joi.number().required().error(message('Please provide a valid number for defaultLeasePeriod')),
+      permittedMaxLeaseExtensions: Joi.number().required().error(message('Please provide a valid number for permittedMaxLeaseExtensions')),
+      type: Joi.string().valid('Standard', 'Custom').required().error(message('Please provide a valid string for type')),
+    }),
+  },
+];
+
+const kinds = sources.map((source) => source.kind);
+
+const sourceOf: (kind: string) => IBundleSource = (kind) => sources.find((source) => source.kind === kind) ?? sources[0];
+
+const schema: ObjectSchema = Joi.object().keys({
+  b: Joi.object()
+    .keys({
+      version: Joi.number().valid(version).required().error(message(`Please provide a bundle of version ${version}`)),
+      exportedAt: Joi.string().isoDate().optional().error(message('Please provide a valid exportedAt')),
+      ...Object.fromEntries(
+        sources.map((source) => [
+          source.member,
+          // .error() would replace the messages of the records as well
+          Joi.array().items(source.schema).optional().messages({ 'array.base': `Please provide a valid array for ${source.member}` }),
+        ])
+      ),
+    })
+    .required()
+    .messages({ 'object.base': 'Please provide a valid object for body', 'any.required': 'Please provide a valid object for body' }),
+});
+
+const load: (manager: EntityManager, source: IBundleSource, withSecret: boolean) => Promise<ObjectLiteral[]> = (manager, source, withSecret) =>
+  manager.getRepository(source.entity).find({
+    // the secret is never selected unless asked for
+    ...(source.secret && withSecret ? { select: Object.fromEntries(['id', 'version', 'managed', ...source.fields, source.secret].map((field) => [field, true])) } : {}),
+    relations: Object.fromEntries(Object.keys(source.relations).map((field) => [field, true])),
+    order: { id: 'asc' },
+  });
+
+// the record as a bundle holds it, without the secret
+const toItem: (source: IBundleSource, record: ObjectLiteral) => IBundleItem = (source, record) => ({
+  ...pick(record, source.fields),
+  ...Object.fromEntries(Object.entries(source.relations).map(([field, kind]) => [field, record[field]?.[sourceOf(kind).key] ?? null])),
+});
+
+/*
+ * Every record of every kind, the endpoint passwords encrypted or left out
+ */
+const build: (options: { credentials: 'redacted' | 'encrypted' }) => Promise<IBundle> = async (options) => {
+  const { manager } = DB.getDataStore();
+  const bundle: IBundle = { version, exportedAt: new Date().toISOString() };
+  for (const source of sources) {
+    const records = await load(manager, source, options.credentials === 'encrypted');
+    bundle[source.member] = records.map((record) => {
+      const item = toItem(source, record);
+      if (source.secret && typeof record[source.secret] === 'string') {
+        item[source.secret] = encryption.encrypt(record[source.secret]);
+      }
+      return item;
+    });
+  }
+  return bundle;
+};
+
+const parse: (text: string) => unknown = (text) => {
+  try {
+    // plain JSON types only, no dates or tags
+    return yaml.load(text, { schema: yaml.JSON_SCHEMA });
+  } catch {
+    throw new ValidationError([{ path: 'body', message: 'Please provide a valid YAML body', rule: 'yaml.invalid' }]);
+  }
+};
+
+/*
+ * Compares the bundle with the records and applies the difference unless it is a dry run.
+ * Every problem of the bundle is reported at once, nothing is changed while there is one.
+ */
+const apply: (bundle: IBundle, options: { dryRun: boolean; reconcile?: boolean; userId?: string }) => Promise<IBundleChange[]> = async (bundle, options) => {
+  problem.validate(schema, { b: bundle });
+  const items: (source: IBundleSource) => IBundleItem[] = (source) => (bundle[source.member] as IBundleItem[] | undefined) ?? [];
+  // kinds whose records are exactly the ones of the bundle, an empty member included
+  const owned: (kind: string) => boolean = (kind) => !!options.reconcile && bundle[sourceOf(kind).member] !== undefined;
+
+  return DB.getDataStore().transaction(async (manager) => {
+    // the records of each kind by natural key, the saved ones replace them as the import goes
+    const records: { [kind: string]: Map<unknown, ObjectLiteral> } = {};
+    const errors: IProblemError[] = [];
+    const duplicates: { kind: string; key: unknown }[] = [];
+    for (const source of sources) {
+      records[source.kind] = new Map();
+      for (const record of await load(manager, source, true)) {
+        const key = record[source.key];
+        // reconciling removes the records of an owned kind left out, all of them and not only the last one would have to go
+        if (records[source.kind].has(key) && (owned(source.kind) || items(source).some((item) => item[source.key] === key))) {
+          duplicates.push({ kind: source.kind, key });
+        }
+        records[source.kind].set(key, record);
+      }
+      items(source).forEach((item, index) => {
+        if (items(source).findIndex((other) => other[source.key] === item[source.key]) < index) {
+          errors.push({ path: `body.${source.member}.${index}.${source.key}`, message: `Provided ${source.key} is already used by another record of the bundle`, rule: 'bundle.duplicate' });
+        }
+      });
+    }
+    if (duplicates.length) {
+      throw new ConflictError(ErrorCodes.E1019, ErrorMessages.E1019, { duplicates });
+    }
+
+    // what a record of the bundle points at, either in the bundle as well or already there and staying
+    const find = (kind: string, key: unknown) => {
+      const source = sourceOf(kind);
+      const record = owned(kind) ? undefined : records[kind].get(key);
+      return items(source).find((item) => item[source.key] === key) ?? (record ? toItem(source, record) : undefined);
+    };
+    const secrets = new Map<IBundleItem, string>();
+    sources.forEach((source) =>
+      items(source).forEach((item, index) => {
+        const path = `body.${source.member}.${index}`;
+        Object.entries(source.relations).forEach(([field, kind]) => {
+          if (typeof item[field] === 'string' && !find(kind, item[field])) {
+            errors.push({ path: `${path}.${field}`, message: `Provided ${field} doesn't exist`, rule: 'reference.missing' });
+          }
+        });
+        const failed = source.check?.(item, find);
+        if (failed) {
+          errors.push({ ...failed, path: `${path}.${failed.path}` });
+        }
+
+        if (!source.secret) return;
+        const secret = item[source.secret];
+        if (typeof secret !== 'string') {
+          if (!records[source.kind].has(item[source.key])) {
+            errors.push({ path: `${path}.${source.secret}`, message: `Please provide a valid ${source.secret}`, rule: 'any.required' });
+          }
+          return;
+        }
+        try {
+          secrets.set(item, encryption.isEncrypted(secret) ? encryption.decrypt(secret) : secret);
+        } catch {
+          errors.push({ path: `${path}.${source.secret}`, message: `Provided ${source.secret} can't be decrypted with the configured keys`, rule: 'bundle.decrypt' });
+        }
+      })
+    );
+    if (errors.length) {
+      throw new ValidationError(errors);
+    }
+
+    // records of the owned kinds left out of the bundle, the ones pointing at them go as well or stop the reconcile
+    const removals: { source: IBundleSource; record: ObjectLiteral }[] = [];
+    const dependents: IDependent[] = [];
+    for (const source of sources.filter((candidate) => owned(candidate.kind))) {
+      for (const [key, record] of records[source.kind]) {
+        if (items(source).some((item) => item[source.key] === key)) continue;
+        removals.push({ source, record });
+        dependents.push(...(await integrity.getDependents(source.kind, record.id)).filter((dependent) => !owned(dependent.kind)));
+      }
+    }
+    if (dependents.length) {
+      throw new ConflictError(ErrorCodes.E1016, ErrorMessages.E1016, { dependents });
+    }
+
+    const changes: IBundleChange[] = [];
+    for (const source of sources) {
+      const repository = manager.getRepository(source.entity);
+      for (const item of items(source)) {
+        const key = String(item[source.key]);
+        const existing = records[source.kind].get(item[source.key]);
+        const diff: IAuditChanges = {};
+        if (existing) {
+          const current = toItem(source, existing);
+          [...source.fields, ...Object.keys(source.relations)].forEach((field) => {
+            if (!isEqual(current[field] ?? null, item[field] ?? null)) {
+              diff[field] = { from: current[field] ?? null, to: item[field] ?? null };
+            }
+          });
+          if (source.secret && secrets.has(item) && secrets.get(item) !== existing[source.secret]) {
+            diff[source.secret] = { from: '[redacted]', to: '[redacted]' };
+          }
+          if (options.reconcile && !existing.managed) {
+            diff.managed = { from: false, to: true };
+          }
+          if (isEmpty(diff)) {
+            changes.push({ kind: source.kind, key, action: 'unchanged' });
+            continue;
+          }
+        }
+        changes.push(existing ? { kind: source.kind, key, action: 'update', changes: diff } : { kind: source.kind, key, action: 'create' });
+        if (options.dryRun) continue;
+
+        const record = existing ?? repository.create({ createdBy: options.userId });
+        Object.assign(record, pick(item, source.fields));
+        Object.entries(source.relations).forEach(([field, kind]) => {
+          // the kinds pointed at are imported already
+          record[field] = records[kind].get(item[field]) ?? null;
+        });
+        if (source.secret && secrets.has(item)) {
+          record[source.secret] = secrets.get(item);
+        }
+        if (options.reconcile) {
+          record.managed = true;
+        }
+        record.updatedBy = options.userId;
+        records[source.kind].set(item[source.key], await repository.save(record));
+      }
+    }
+
+    // dependents first, they were pointed elsewhere above or go as well
+    for (const { source, record } of removals.reverse()) {
+      changes.push({ kind: source.kind, key: String(record[source.key]), action: 'delete' });
+      if (options.dryRun) continue;
+      const repository = manager.getRepository(source.entity);
+      record.deletedBy = options.userId;
+      await repository.save(record);
+      await repository.softRemove(record);
+    }
+    return changes;
+  });
+};
+
+/*
+ * One bundle out of several, a record of a later one replaces the record of an earlier one with the same natural key
+ */
+const merge: (bundles: unknown[]) => IBundle = (bundles) => {
+  bundles.forEach((bundle) => problem.validate(schema, { b: bundle }));
+  const merged: IBundle = { version };
+  sources.forEach((source) => {
+    const items = new Map<unknown, IBundleItem>();
+    (bundles as IBundle[]).forEach((bundle) => ((bundle[source.member] as IBundleItem[] | undefined) ?? []).forEach((item) => items.set(item[source.key], item)));
+    if (items.size) merged[source.member] = [...items.values()];
+  });
+  return merged;
+};
+
+const symbols: { [action: string]: string } = { create: '+', update: '~', delete: '-' };
+
+/*
+ * The changes as a plan to read before applying it, like:
+ *   ~ location "Bangalore"
+ *       availableNetworks: ["VLAN10"] => ["VLAN10","VLAN20"]
+ *   - size "Large"
+ *
+ *   Plan: 0 to create, 1 to update, 1 to delete.
+ */
+const plan: (changes: IBundleChange[]) => string = (changes) => {
+  const count = (action: string) => changes.filter((change) => change.action === action).length;
+  const lines = changes
+    .filter((change) => change.action !== 'unchanged')
+    .flatMap((change) => [
+      `  ${symbols[change.action]} ${change.kind} ${JSON.stringify(change.key)}`,
+      ...Object.entries(change.changes ?? {}).map(([field, { from, to }]) => `      ${field}: ${JSON.stringify(from)} => ${JSON.stringify(to)}`),
+    ]);
+  if (!lines.length) return 'No changes, the records match the desired state.\n';
+  return `${lines.join('\n')}\n\nPlan: ${count('create')} to create, ${count('update')} to update, ${count('delete')} to delete.\n`;
+};
+
+export default { kinds, build, parse, apply, merge, plan };
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+/*
+ * Keeps the request being served reachable from code that has no access to it, e.g. TypeORM subscribers.
+ * The request id is taken from X-Request-Id when the caller (or a proxy) sent a sane one and echoed back.
+ */
+
+const storage = new AsyncLocalStorage<{ requestId: string; req: Request }>();
+
+const middleware = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('X-Request-Id');
+  const requestId = header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+  res.set('X-Request-Id', requestId);
+  storage.run({ requestId, req }, () => next());
+};
+
+// empty outside of a request, e.g. in background jobs
+const get: () => { requestId?: string; ip?: string; userId?: string } = () => {
+  const store = storage.getStore();
+  if (!store) return {};
+  return { requestId: store.requestId, ip: store.req.ip, userId: store.req.user?.id };
+};
+
+export default { middleware, get };
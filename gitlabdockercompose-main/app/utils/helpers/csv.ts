@@ -0,0 +1,243 @@
+import express, { Request, Response } from 'express';
+import path from 'path';
+import { once } from 'events';
+import fs from 'fs-extra';
+import multer from 'multer';
+import HttpStatus from 'http-status';
+import { EntityManager, EntityTarget, FindManyOptions, ObjectLiteral, Repository } from 'typeorm';
+import upload from './upload.js';
+import DB from '../connectors/typeorm.js';
+import { ApiError, ValidationError } from '../errors.js';
+import { Status } from '../../types/enums/Status.js';
+
+/*
+ * CSV for the spreadsheets of the capacity team, RFC 4180 with a header row.
+ * GET /<kind>?format=csv streams every matching record (filter, sort and X-API-Fields apply, paging doesn't),
+ * POST /<kind>/import/csv creates a record from every row without an id and updates the one named by the id otherwise.
+ * Relations are written and read by the name of the record they point at, lists and objects as JSON.
+ * A row is taken as the body of a create or a bulk update, empty cells and columns that can't be written (createdAt, ...) are left out,
+ * so an exported file can be edited and imported again.
+ */
+
+interface ICsvColumns {
+  // what an import may write, in the order of the export
+  fields: string[];
+  relations?: { [field: string]: EntityTarget<ObjectLiteral> };
+  json?: string[];
+  // imported but never exported
+  secret?: string;
+}
+
+type Actions<C, U> = {
+  create: (manager: EntityManager, b: C, req: Request) => Promise<{ id: number }>;
+  update: (manager: EntityManager, id: number, b: U, req: Request) => Promise<{ id: number }>;
+};
+
+const batchSize = 500;
+const maxRows = 5000;
+const maxSize = 5 * 1024 * 1024;
+
+// columns of an export without X-API-Fields
+const columns: (config: ICsvColumns, fields: { [key: string]: boolean }) => string[] = (config, fields) =>
+  Object.keys(fields).length ? Object.keys(fields) : ['id', ...config.fields.filter((field) => field !== config.secret), 'createdBy', 'updatedBy', 'createdAt', 'updatedAt'];
+
+const cell: (value: unknown) => string = (value) => {
+  let text: string;
+  if (value === null || value === undefined) text = '';
+  else if (value instanceof Date) text = value.toISOString();
+  else if (typeof value === 'object') text = JSON.stringify(value);
+  else text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const line: (values: unknown[]) => string = (values) => `${values.map(cell).join(',')}\r\n`;
+
+/*
+ * The records of the list query batch by batch with the relations they point at,
+ * ordered by id last so no record is skipped or repeated
+ */
+async function* pages(repository: Repository<ObjectLiteral>, query: FindManyOptions<ObjectLiteral>, config: ICsvColumns): AsyncGenerator<ObjectLiteral[]> {
+  const order = { ...query.order, id: query.order?.id ?? 'asc' };
+  const relations = Object.fromEntries(Object.keys(config.relations ?? {}).map((field) => [field, true]));
+  for (let skip = 0; ; skip += batchSize) {
+    const records = await repository.find({ ...query, order, relations, loadRelationIds: false, skip, take: batchSize });
+    if (records.length) yield records;
+    if (records.length < batchSize) return;
+  }
+}
+
+/*
+ * Writes the batches as they come, waiting for the client whenever it falls behind
+ */
+const send = async (res: Response, filename: string, config: ICsvColumns, header: string[], batches: AsyncIterable<ObjectLiteral[]> | Iterable<ObjectLiteral[]>) => {
+  res.status(HttpStatus.OK).attachment(filename).type('text/csv');
+  res.write(line(header));
+  for await (const records of batches) {
+    const chunk = records
+      .map((record) => line(header.map((column) => (config.relations?.[column] && record[column] && typeof record[column] === 'object' ? record[column].name : record[column]))))
+      .join('');
+    if (!res.write(chunk)) await once(res, 'drain');
+  }
+  res.end();
+};
+
+const invalid = (message: string) => new ValidationError([{ path: 'file', message, rule: 'csv.invalid' }]);
+
+/*
+ * Rows of cells, quoted cells may hold the delimiter, quotes ("") and line breaks. Blank lines are dropped.
+ * Spreadsheets of locales with a decimal comma save with ; which is picked when the header has no comma.
+ */
+const parse: (text: string) => string[][] = (text) => {
+  const content = text.replace(/^\uFEFF/, '');
+  const header = content.split(/\r?\n/, 1)[0];
+  const delimiter = !header.includes(',') && header.includes(';') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i += 1;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (quoted) {
+    throw invalid(`Please close the quoted cell of row ${rows.length + 1}`);
+  }
+  if (value !== '' || row.length) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some(Boolean));
+};
+
+/*
+ * multer with the upload helper, the file is expected as the "file" field
+ */
+const receive = (req: Request, res: Response, next: express.NextFunction) =>
+  multer({
+    storage: upload.diskStorage('imports'),
+    limits: { fileSize: maxSize, files: 1 },
+    fileFilter: (_, file, cb) => cb(null, path.extname(file.originalname).toLowerCase() === '.csv'),
+  }).single('file')(req, res, (err: unknown) => next(err instanceof multer.MulterError ? invalid(`Please upload a single CSV file of at most ${maxSize / 1024 / 1024} MB as file`) : err));
+
+// ids of the records by name, for the relation columns
+const named: (manager: EntityManager, entity: EntityTarget<ObjectLiteral>) => Promise<Map<string, number[]>> = async (manager, entity) => {
+  const names = new Map<string, number[]>();
+  (await manager.getRepository(entity).find({ select: { id: true, name: true } })).forEach((record) => {
+    names.set(record.name, [...(names.get(record.name) ?? []), record.id]);
+  });
+  return names;
+};
+
+/*
+ * The import route handler, to be wrapped in problem.handle like any other.
+ * Every row is checked and the problems of all of them are answered at once (file.<row>.<column>, the header being row 1),
+ * nothing is saved unless every row is fine.
+ */
+const handle =
+  <C, U>(config: ICsvColumns, actions: Actions<C, U>) =>
+  async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw invalid('Please upload a valid CSV file as file');
+    }
+    const file = req.file;
+    const text = await fs.readFile(file.path, 'utf8').finally(() => upload.cleanUp([`imports/${path.basename(file.path)}`]));
+    const [header, ...rows] = parse(text);
+    if (!header || !rows.length) {
+      throw invalid('Please provide a header row and at least one record');
+    }
+    if (rows.length > maxRows) {
+      throw invalid(`Please provide at most ${maxRows} records`);
+    }
+
+    const results = await DB.getDataStore().transaction(async (manager) => {
+      const names: { [field: string]: Map<string, number[]> } = {};
+      for (const [field, entity] of Object.entries(config.relations ?? {})) {
+        if (header.includes(field)) names[field] = await named(manager, entity);
+      }
+
+      const errors: IProblemError[] = [];
+      const done: { row: number; action: 'create' | 'update'; id: number }[] = [];
+      for (const [index, cells] of rows.entries()) {
+        const row = index + 2;
+        const rowErrors: IProblemError[] = [];
+        const b: { [field: string]: unknown } = {};
+        let id: number | undefined;
+        header.forEach((column, position) => {
+          const value = cells[position] ?? '';
+          const at = `file.${row}.${column}`;
+          if (value === '') return;
+          if (column === 'id') {
+            id = Number(value);
+            if (!Number.isInteger(id)) rowErrors.push({ path: at, message: 'Please provide a valid number for id', rule: 'number.base' });
+          } else if (!config.fields.includes(column)) {
+            // read only, e.g. createdAt of an exported file
+          } else if (names[column]) {
+            const ids = names[column].get(value) ?? [];
+            if (ids.length === 1) b[column] = ids[0];
+            else if (ids.length) rowErrors.push({ path: at, message: `Provided ${column} is the name of several records, please rename them`, rule: 'reference.ambiguous' });
+            else rowErrors.push({ path: at, message: `Provided ${column} doesn't exist`, rule: 'reference.missing' });
+          } else if (config.json?.includes(column)) {
+            try {
+              b[column] = JSON.parse(value);
+            } catch {
+              rowErrors.push({ path: at, message: `Please provide valid JSON for ${column}`, rule: 'csv.json' });
+            }
+          } else {
+            b[column] = value;
+          }
+        });
+        if (rowErrors.length) {
+          errors.push(...rowErrors);
+          continue;
+        }
+
+        try {
+          const record = id === undefined ? await actions.create(manager, b as C, req) : await actions.update(manager, id, b as U, req);
+          done.push({ row, action: id === undefined ? 'create' : 'update', id: record.id });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            errors.push(...err.errors.map((error) => ({ ...error, path: error.path.replace(/^body/, `file.${row}`) })));
+            continue;
+          }
+          // a missing or locked record, the row says which
+          if (err instanceof ApiError) throw new ApiError(err.code, err.title, err.message, { ...err.extensions, row });
+          throw err;
+        }
+      }
+      if (errors.length) {
+        throw new ValidationError(errors);
+      }
+      return done;
+    });
+
+    res.status(HttpStatus.OK).send({
+      status: Status.SUCCESS,
+      results,
+      created: results.filter((result) => result.action === 'create').length,
+      updated: results.filter((result) => result.action === 'update').length,
+    });
+  };
+
+export default { columns, pages, send, receive, handle };
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { isEmpty } from 'lodash';
+import { ValueTransformer } from 'typeorm';
+import config from '../config.js';
+
+/*
+ * Envelope encryption for secrets stored at rest.
+ * Every value is encrypted with its own random data key (AES-256-GCM), the data key is then wrapped by a master key.
+ * Master keys are identified by a key id, which is stored alongside the value so older keys can still decrypt after a rotation.
+ *
+ * Master keys come from the configuration, either
+ *  ENCRYPTION_KEYS_FILE: JSON file { "activeKeyId": "k2", "keys": { "k1": "<base64>", "k2": "<base64>" } }
+ *  ENCRYPTION_KEYS: comma separated list of <keyId>:<base64>, ENCRYPTION_KEY_ID picks the active one (defaults to the first)
+ * Keys must be 32 bytes long.
+ */
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+
+interface IKeyRing {
+  activeKeyId: string;
+  keys: { [keyId: string]: Buffer };
+}
+
+const keyRingCache: { [source: string]: IKeyRing } = {};
+
+const loadKeyRing: () => IKeyRing = () => {
+  const { keys: encoded, activeKeyId } = config.get().encryption;
+  if (isEmpty(encoded)) {
+    throw new Error('No encryption key configured, set ENCRYPTION_KEYS_FILE or ENCRYPTION_KEYS');
+  }
+  const cacheKey = `${JSON.stringify(encoded)}|${activeKeyId ?? ''}`;
+  if (keyRingCache[cacheKey]) return keyRingCache[cacheKey];
+
+  const keys: { [keyId: string]: Buffer } = {};
+  Object.entries(encoded).forEach(([keyId, key]) => {
+    keys[keyId] = Buffer.from(key, 'base64');
+    if (keys[keyId].length !== 32) {
+      throw new Error(`Encryption key ${keyId} must be 32 bytes long`);
+    }
+  });
+  if (!activeKeyId || !keys[activeKeyId]) {
+    throw new Error(`Active encryption key ${activeKeyId} is not configured`);
+  }
+
+  keyRingCache[cacheKey] = { activeKeyId, keys };
+  return keyRingCache[cacheKey];
+};
+
+const seal = (key: Buffer, plain: Buffer) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+};
+
+const open = (key: Buffer, sealed: string) => {
+  const raw = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, raw.subarray(0, 12));
+  decipher.setAuthTag(raw.subarray(12, 28));
+  return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+};
+
+const isEncrypted: (value: string) => boolean = (value) => value.startsWith(`${PREFIX}:`);
+
+/*
+ * Output format: enc:v1:<keyId>:<wrapped data key>:<ciphertext>
+ */
+const encrypt: (value: string) => string = (value) => {
+  const { activeKeyId, keys } = loadKeyRing();
+  const dataKey = crypto.randomBytes(32);
+  return [PREFIX, activeKeyId, seal(keys[activeKeyId], dataKey), seal(dataKey, Buffer.from(value, 'utf8'))].join(':');
+};
+
+const decrypt: (value: string) => string = (value) => {
+  const [, , keyId, wrappedKey, cipherText] = value.split(':');
+  const { keys } = loadKeyRing();
+  if (!keys[keyId]) {
+    throw new Error(`Encryption key ${keyId} is not configured`);
+  }
+  const dataKey = open(keys[keyId], wrappedKey);
+  return open(dataKey, cipherText).toString('utf8');
+};
+
+const getKeyId: (value: string) => string | undefined = (value) => (isEncrypted(value) ? value.split(':')[2] : undefined);
+
+const getActiveKeyId: () => string = () => loadKeyRing().activeKeyId;
+
+/*
+ * Column transformer, values are encrypted on write and decrypted on read.
+ * Legacy plaintext values are returned as is, so they can be re-encrypted by a rotation.
+ */
+const encrypted: ValueTransformer = {
+  to: (value?: string | null) => (typeof value === 'string' ? encrypt(value) : value),
+  from: (value?: string | null) => (typeof value === 'string' && isEncrypted(value) ? decrypt(value) : value),
+};
+
+export default { encrypt, decrypt, isEncrypted, getKeyId, getActiveKeyId, encrypted };
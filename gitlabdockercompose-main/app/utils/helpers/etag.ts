@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+import DB from '../connectors/typeorm.js';
+import { ConflictError } from '../errors.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+import { ErrorMessages } from '../../types/errors/messages.js';
+
+/*
+ * Optimistic concurrency on the version column of the entities.
+ * The ETag of a record is its version, Express answers a GET with a matching If-None-Match with 304 by itself.
+ * A PUT or DELETE with an If-Match naming another version is refused, without If-Match the change goes through as before.
+ * The check is repeated on the locked row when writing, a change committed in between is refused as well.
+ */
+
+const tag: (version: number) => string = (version) => `"${version}"`;
+
+/*
+ * Partial records (X-API-Fields) don't load the version and get no ETag
+ */
+const set: (res: Response, record: { version?: number }) => void = (res, record) => {
+  if (typeof record.version === 'number') res.set('ETag', tag(record.version));
+};
+
+// the tags of If-Match, undefined without one or with *
+const tags: (req: Request) => string[] | undefined = (req) => {
+  const ifMatch = req.get('If-Match');
+  if (!ifMatch) return undefined;
+  const values = ifMatch.split(',').map((value) => value.trim());
+  return values.includes('*') ? undefined : values;
+};
+
+/*
+ * Throws with the current version when If-Match doesn't name it, weak tags never match (strong comparison, RFC 7232 3.1)
+ */
+const check: (req: Request, record: { version: number }) => void = (req, record) => {
+  const expected = tags(req);
+  if (!expected || expected.includes(tag(record.version))) return;
+  throw new ConflictError(ErrorCodes.E1017, ErrorMessages.E1017, { version: record.version });
+};
+
+/*
+ * Runs the write of a checked record in a transaction, with If-Match the row is locked first and
+ * must still be at the version that was checked
+ */
+const write = async <T>(req: Request, target: EntityTarget<ObjectLiteral>, record: { id: number; version: number }, run: (manager: EntityManager) => Promise<T>): Promise<T> =>
+  DB.getDataStore().transaction(async (manager) => {
+    if (tags(req)) {
+      const row: { version: number } | undefined = await manager
+        .createQueryBuilder(target, 'record')
+        .select('record.version', 'version')
+        .where('record.id = :id', { id: record.id })
+        .withDeleted()
+        .setLock('pessimistic_write')
+        .getRawOne();
+      if (row?.version !== record.version) {
+        throw new ConflictError(ErrorCodes.E1017, ErrorMessages.E1017, { version: row?.version });
+      }
+    }
+    return run(manager);
+  });
+
+export default { set, check, write };
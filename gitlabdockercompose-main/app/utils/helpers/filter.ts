@@ -0,0 +1,108 @@
+import { AnySchema, ObjectSchema } from 'joi';
+import { And, ArrayContains, ArrayOverlap, Equal, FindOperator, FindOptionsWhere, ILike, In, IsNull, LessThan, LessThanOrEqual, MoreThan, MoreThanOrEqual, Not, ObjectLiteral } from 'typeorm';
+import Joi, { message } from './joi.js';
+
+/*
+ * Shared filter syntax for list routes, parsed by qs from the query string:
+ *   ?filter[cpus][gte]=4&filter[ram][lte]=16&filter[location][eq]=3&filter[name][like]=ubuntu*
+ * Operators: eq, ne, gt, gte, lt, lte, in (comma separated), like (* is a wildcard, % and _ match themselves), isnull (true/false)
+ * Every router declares which of its columns can be filtered and how they are typed.
+ */
+
+const operatorsByType: { [type in IFilterColumnType]: string[] } = {
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'isnull'],
+  string: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'like', 'isnull'],
+  boolean: ['eq', 'ne', 'isnull'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'isnull'],
+  relation: ['eq', 'ne', 'in', 'isnull'],
+  array: ['eq', 'in', 'isnull'],
+};
+
+const valueSchema: (type: IFilterColumnType, operator: string, column: string) => AnySchema = (type, operator, column) => {
+  const invalid = message(`Please provide a valid ${operator} filter for ${column}`);
+  if (operator === 'isnull') return Joi.boolean().error(invalid);
+  if (operator === 'in') {
+    const pattern = ['number', 'relation'].includes(type) ? /^-?\d+(\.\d+)?(,-?\d+(\.\d+)?)*$/ : /^[^,]+(,[^,]+)*$/;
+    return Joi.string().pattern(pattern).error(invalid);
+  }
+  if (type === 'number' || type === 'relation') return Joi.number().error(invalid);
+  if (type === 'boolean') return Joi.boolean().error(invalid);
+  if (type === 'date') return Joi.date().iso().error(invalid);
+  return Joi.string().error(invalid);
+};
+
+/*
+ * Joi schema for the "filter" query parameter of the given columns
+ */
+const schema: (columns: IFilterColumns) => ObjectSchema = (columns) => {
+  const keys: { [column: string]: ObjectSchema } = {};
+  Object.entries(columns).forEach(([column, type]) => {
+    const operators: { [operator: string]: AnySchema } = {};
+    operatorsByType[type].forEach((operator) => {
+      operators[operator] = valueSchema(type, operator, column).optional();
+    });
+    // messages() instead of error() so the failing operator keeps its own message
+    keys[column] = Joi.object()
+      .keys(operators)
+      .messages({ 'object.base': `Please provide a valid filter for ${column}`, 'object.unknown': `Please provide a valid filter operator for ${column}` })
+      .optional();
+  });
+  return Joi.object().keys(keys).messages({ 'object.base': 'Please provide a valid filter', 'object.unknown': 'Please provide a valid filter' }).optional();
+};
+
+const toValue: (type: IFilterColumnType, value: string) => unknown = (type, value) => {
+  if (type === 'number' || type === 'relation') return Number(value);
+  if (type === 'boolean') return value === 'true';
+  if (type === 'date') return new Date(value);
+  return value;
+};
+
+// % and _ are wildcards of LIKE as well, the value only has *
+const toPattern: (value: string) => string = (value) => {
+  const escaped = value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  return value.includes('*') ? escaped.replace(/\*/g, '%') : `%${escaped}%`;
+};
+
+const toOperator: (type: IFilterColumnType, operator: string, value: string) => FindOperator<unknown> = (type, operator, value) => {
+  const list = () => value.split(',').map((v) => toValue(type, v));
+  if (operator === 'isnull') return value === 'true' ? IsNull() : Not(IsNull());
+  if (type === 'array') {
+    // arrays are matched on their elements
+    return operator === 'in' ? ArrayOverlap(value.split(',')) : ArrayContains([value]);
+  }
+  switch (operator) {
+    case 'ne':
+      return Not(toValue(type, value));
+    case 'gt':
+      return MoreThan(toValue(type, value));
+    case 'gte':
+      return MoreThanOrEqual(toValue(type, value));
+    case 'lt':
+      return LessThan(toValue(type, value));
+    case 'lte':
+      return LessThanOrEqual(toValue(type, value));
+    case 'in':
+      return In(list());
+    case 'like':
+      return ILike(toPattern(value));
+    default:
+      return Equal(toValue(type, value));
+  }
+};
+
+/*
+ * Translates a validated filter into a typeorm where clause
+ */
+const toWhere = <T extends ObjectLiteral>(filter: IFilterQuery | undefined, columns: IFilterColumns): FindOptionsWhere<T> => {
+  const where: FindOptionsWhere<ObjectLiteral> = {};
+  Object.entries(filter ?? {}).forEach(([column, operators]) => {
+    const type = columns[column];
+    const conditions = Object.entries(operators).map(([operator, value]) => toOperator(type, operator, String(value)));
+    const condition = conditions.length > 1 ? And(...conditions) : conditions[0];
+    // relations are filtered on the id of the related row, IS NULL applies to the join column itself
+    where[column] = type === 'relation' && !Object.keys(operators).includes('isnull') ? { id: condition } : condition;
+  });
+  return where as FindOptionsWhere<T>;
+};
+
+export default { schema, toWhere };
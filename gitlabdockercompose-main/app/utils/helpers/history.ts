@@ -0,0 +1,100 @@
+import { FindOptionsWhere, In, LessThanOrEqual, MoreThan, ObjectLiteral } from 'typeorm';
+import { EntityMetadata } from 'typeorm/metadata/EntityMetadata.js';
+import DB from '../connectors/typeorm.js';
+import { AuditLog } from '../../models/auditLog.js';
+
+/*
+ * Rebuilds records as they were at a past instant from the audit log:
+ * existing rows are walked back through the changes made after it, purged ones forward from their creation.
+ * A purged record created before the audit log was in place can't be rebuilt and is left out.
+ * Relations are given as ids, or with relations as the related records of the same instant.
+ * updatedBy, updatedAt, deletedBy, deletedAt and version are not part of the history and left out as well.
+ */
+
+const omitted = ['updatedBy', 'updatedAt', 'deletedBy', 'deletedAt', 'version'];
+
+interface IRecord {
+  state: ObjectLiteral;
+  deleted: boolean;
+}
+
+const metadataOf: (kind: string) => EntityMetadata = (kind) => {
+  const metadata = DB.getDataStore().entityMetadatas.find((item) => item.targetName.toLowerCase() === kind);
+  if (!metadata) throw new Error(`Unknown kind ${kind}`);
+  return metadata;
+};
+
+const stateOf: (metadata: EntityMetadata, row: ObjectLiteral) => ObjectLiteral = (metadata, row) => {
+  const state: ObjectLiteral = {};
+  metadata.columns
+    .filter((column) => column.isSelect && !omitted.includes(column.propertyName))
+    .forEach((column) => {
+      state[column.propertyName] = column.getEntityValue(row) ?? null;
+    });
+  return state;
+};
+
+const apply: (record: IRecord, changes: IAuditChanges, side: 'from' | 'to') => void = (record, changes, side) => {
+  Object.entries(changes).forEach(([field, change]) => {
+    record.state[field] = change[side];
+  });
+};
+
+const find: (kind: string, at: Date, options?: { ids?: number[]; relations?: boolean }) => Promise<ObjectLiteral[]> = async (kind, at, options = {}) => {
+  const metadata = metadataOf(kind);
+  const AuditLogRepository = DB.getDataStore().getRepository(AuditLog);
+  const byId: FindOptionsWhere<ObjectLiteral> = options.ids ? { id: In(options.ids) } : {};
+  const byEntityId: FindOptionsWhere<AuditLog> = options.ids ? { entityId: In(options.ids) } : {};
+
+  const rows = await DB.getDataStore().getRepository(metadata.target).find({ where: byId, withDeleted: true, loadRelationIds: true });
+  const records = new Map<number, IRecord>(rows.map((row) => [row.id, { state: stateOf(metadata, row), deleted: !!row.deletedAt }]));
+
+  // undo what happened since, newest first
+  const later = await AuditLogRepository.find({ where: { entity: kind, createdAt: MoreThan(at), ...byEntityId }, order: { id: 'desc' } });
+  later.forEach((entry) => {
+    const record = records.get(entry.entityId);
+    if (!record) return;
+    if (entry.action === 'create') records.delete(entry.entityId);
+    if (entry.action === 'update') apply(record, entry.changes, 'from');
+    if (entry.action === 'delete') record.deleted = false;
+    if (entry.action === 'restore') record.deleted = true;
+  });
+
+  // replay purged records, oldest first
+  const purged = [...new Set(later.filter((entry) => entry.action === 'purge' && !rows.some((row) => row.id === entry.entityId)).map((entry) => entry.entityId))];
+  if (purged.length) {
+    const earlier = await AuditLogRepository.find({ where: { entity: kind, entityId: In(purged), createdAt: LessThanOrEqual(at) }, order: { id: 'asc' } });
+    earlier.forEach((entry) => {
+      const record = records.get(entry.entityId);
+      if (entry.action === 'create') {
+        const created: IRecord = { state: { ...stateOf(metadata, {}), id: entry.entityId, createdBy: entry.actor, createdAt: entry.createdAt }, deleted: false };
+        apply(created, entry.changes, 'to');
+        records.set(entry.entityId, created);
+      }
+      if (!record) return;
+      if (entry.action === 'update') apply(record, entry.changes, 'to');
+      if (entry.action === 'delete') record.deleted = true;
+      if (entry.action === 'restore') record.deleted = false;
+    });
+  }
+
+  const result = [...records.values()]
+    .filter((record) => !record.deleted)
+    .map((record) => record.state)
+    .sort((a, b) => a.id - b.id);
+
+  // related records of the same instant, deleted ones are left out the same way a join does
+  if (options.relations) {
+    for (const relation of metadata.manyToOneRelations) {
+      const ids = [...new Set(result.map((state) => state[relation.propertyName]).filter((id) => id !== null))];
+      const related = ids.length ? await find(relation.inverseEntityMetadata.targetName.toLowerCase(), at, { ids }) : [];
+      result.forEach((state) => {
+        state[relation.propertyName] = related.find((item) => item.id === state[relation.propertyName]) ?? null;
+      });
+    }
+  }
+
+  return result;
+};
+
+export default { find };
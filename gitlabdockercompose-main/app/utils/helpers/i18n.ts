@@ -0,0 +1,78 @@
+import { NextFunction, Request, Response } from 'express';
+import path from 'path';
+import fs from 'fs-extra';
+import config from '../config.js';
+import logger from '../logger.js';
+import { isTestEnv } from './test.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+
+/*
+ * Messages are written in English, the catalogs (locales/<locale>.json) translate them for the locale negotiated from Accept-Language.
+ * Errors are looked up by code (E1006), validation errors by the Joi rule that failed (number.base, then number, then *).
+ * Whatever a catalog lacks stays English. The catalogs of LOCALES_DIR are read over the bundled ones, so adding a locale needs no rebuild.
+ */
+
+const fallback = 'en';
+
+let catalogs: { [locale: string]: IMessageCatalog } | undefined;
+
+const read = (dir: string, into: { [locale: string]: IMessageCatalog }) => {
+  if (!fs.existsSync(dir)) {
+    logger.error('[i18n]', `${dir} doesn't exist`);
+    return;
+  }
+  fs.readdirSync(dir)
+    .filter((file) => path.extname(file) === '.json')
+    .forEach((file) => {
+      const locale = path.basename(file, '.json');
+      try {
+        const catalog: Partial<IMessageCatalog> = fs.readJsonSync(path.join(dir, file));
+        into[locale] = {
+          errors: { ...into[locale]?.errors, ...catalog.errors },
+          validation: { ...into[locale]?.validation, ...catalog.validation },
+        };
+      } catch (err: unknown) {
+        logger.error('[i18n]', `${file} can't be read: ${err instanceof Error ? err.message : err}`);
+      }
+    });
+};
+
+// read on first use, a broken catalog is logged and left out
+const load: () => { [locale: string]: IMessageCatalog } = () => {
+  if (catalogs) return catalogs;
+  catalogs = {};
+  read(isTestEnv() ? path.join(__dirname, '../../locales') : path.join(__dirname, 'locales'), catalogs);
+  const dir = config.get().locales.dir;
+  if (dir) read(dir, catalogs);
+  return catalogs;
+};
+
+const locales: () => string[] = () => [fallback, ...Object.keys(load()).filter((locale) => locale !== fallback)];
+
+/*
+ * Picks the locale of the request and echoes it in Content-Language
+ */
+const middleware = (req: Request, res: Response, next: NextFunction) => {
+  req.locale = req.acceptsLanguages(locales()) || fallback;
+  res.set('Content-Language', req.locale);
+  res.vary('Accept-Language');
+  next();
+};
+
+const error: (req: Request, code: ErrorCodes, message: string) => string = (req, code, message) =>
+  load()[req.locale ?? fallback]?.errors[`E${code}`] ?? message;
+
+/*
+ * {field} is replaced by the last name of the path (cpus), {path} by all of it (body.cpus)
+ */
+const validation: (req: Request, problemError: IProblemError) => string = (req, problemError) => {
+  const messages = load()[req.locale ?? fallback]?.validation ?? {};
+  const rule = problemError.rule ?? '*';
+  const template = messages[rule] ?? messages[rule.split('.')[0]] ?? messages['*'];
+  if (!template) return problemError.message;
+
+  const field = problemError.path.split('.').reverse().find((name) => !/^\d+$/.test(name)) ?? problemError.path;
+  return template.replace(/\{field\}/g, field).replace(/\{path\}/g, problemError.path);
+};
+
+export default { middleware, error, validation };
@@ -0,0 +1,109 @@
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+import DB from '../connectors/typeorm.js';
+import upload from './upload.js';
+import { Size } from '../../models/size.js';
+import { OsLanguage } from '../../models/osLanguage.js';
+import { OsFamily } from '../../models/osFamily.js';
+import { Location } from '../../models/location.js';
+import { Endpoint } from '../../models/endpoint.js';
+import { ApprovalPolicy } from '../../models/approvalPolicy.js';
+import { OsTemplate } from '../../models/osTemplate.js';
+import { Catalog } from '../../models/catalog.js';
+
+/*
+ * Which records point at which, keyed by the kind being pointed at.
+ * A kind matches the route and permission resource of the entity.
+ */
+
+const entities: { [kind: string]: EntityTarget<ObjectLiteral> } = {
+  size: Size,
+  oslanguage: OsLanguage,
+  osfamily: OsFamily,
+  location: Location,
+  endpoint: Endpoint,
+  approvalpolicy: ApprovalPolicy,
+  ostemplate: OsTemplate,
+  catalog: Catalog,
+};
+
+const references: { [kind: string]: { kind: string; column: string }[] } = {
+  osfamily: [{ kind: 'ostemplate', column: 'osFamily' }],
+  location: [{ kind: 'ostemplate', column: 'location' }],
+  endpoint: [{ kind: 'location', column: 'endpoint' }],
+  approvalpolicy: [{ kind: 'catalog', column: 'defaultApprovalPolicy' }],
+  ostemplate: [{ kind: 'catalog', column: 'defaultTemplate' }],
+};
+
+/*
+ * Records pointing directly at the given one, deleted ones are included with withDeleted
+ * as they still hold the foreign key and block a purge
+ */
+const getDependents: (kind: string, id: number, withDeleted?: boolean) => Promise<IDependent[]> = async (kind, id, withDeleted = false) => {
+  const dependents: IDependent[] = [];
+  for (const reference of references[kind] ?? []) {
+    const rows = await DB.getDataStore()
+      .getRepository(entities[reference.kind])
+      .find({ select: { id: true, name: true }, where: { [reference.column]: { id } }, withDeleted, order: { id: 'asc' } });
+    dependents.push(...rows.map((row) => ({ kind: reference.kind, id: row.id, name: row.name })));
+  }
+  return dependents;
+};
+
+/*
+ * Every record that has to go before the given one can, the most distant ones first
+ */
+const getChain: (kind: string, id: number, withDeleted?: boolean) => Promise<IDependent[]> = async (kind, id, withDeleted = false) => {
+  const chain: IDependent[] = [];
+  const visit = async (current: string, currentId: number) => {
+    for (const dependent of await getDependents(current, currentId, withDeleted)) {
+      if (!chain.some((item) => item.kind === dependent.kind && item.id === dependent.id)) {
+        await visit(dependent.kind, dependent.id);
+        chain.push(dependent);
+      }
+    }
+  };
+  await visit(kind, id);
+  return chain;
+};
+
+// permissions needed to delete the whole chain
+const getRequiredPermissions: (chain: IDependent[], hard: boolean) => string[] = (chain, hard) => {
+  const kinds = [...new Set(chain.map((dependent) => dependent.kind))];
+  return kinds.flatMap((kind) => (hard ? [`${kind}:delete`, `${kind}:admin`] : [`${kind}:delete`]));
+};
+
+const removeOne: (manager: EntityManager, kind: string, id: number, hard: boolean, userId?: string) => Promise<ObjectLiteral | null> = async (manager, kind, id, hard, userId) => {
+  // through the entity, so the change is audited
+  const repository = manager.getRepository(entities[kind]);
+  const row = await repository.findOne({ where: { id }, withDeleted: hard });
+  if (!row) return null;
+  if (hard) {
+    await repository.remove(row);
+    return row;
+  }
+  row.deletedBy = userId;
+  await repository.save(row);
+  await repository.softRemove(row);
+  return row;
+};
+
+/*
+ * Deletes the chain and then the record itself in a single transaction, nested in the one of options.manager if given.
+ * The icons of purged catalogs are removed once the transaction is through.
+ */
+const remove: (kind: string, id: number, chain: IDependent[], options: { hard: boolean; userId?: string; manager?: EntityManager }) => Promise<void> = async (kind, id, chain, options) => {
+  const icons: string[] = [];
+  await (options.manager ?? DB.getDataStore().manager).transaction(async (manager) => {
+    for (const record of [...chain, { kind, id }]) {
+      const row = await removeOne(manager, record.kind, record.id, options.hard, options.userId);
+      if (options.hard && record.kind === 'catalog' && row?.icon) {
+        icons.push(row.icon);
+      }
+    }
+  });
+  if (icons.length) {
+    upload.cleanUp(icons);
+  }
+};
+
+export default { getDependents, getChain, getRequiredPermissions, remove };
@@ -1,5 +1,17 @@
-import JoiBase from 'joi';
+import JoiBase, { ErrorReport, ValidationErrorFunction } from 'joi';
 
 // Add any extensions needed below
 
+/*
+ * Replaces the message of every error of a key, for .error(message('Please provide a valid name')).
+ * Unlike .error(new Error()) the errors keep their path and validation carries on, so all of them are reported.
+ */
+export const message: (text: string) => ValidationErrorFunction = (text) =>
+  // Joi accepts the reports back, its typings only know about a single error
+  ((errors: ErrorReport[]) =>
+    errors.map((error) => {
+      error.message = text;
+      return error;
+    })) as unknown as ValidationErrorFunction;
+
 export default JoiBase;
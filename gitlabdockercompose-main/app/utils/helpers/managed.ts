@@ -0,0 +1,27 @@
+import { Request } from 'express';
+import config from '../config.js';
+import { ConflictError } from '../errors.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+import { ErrorMessages } from '../../types/errors/messages.js';
+
+/*
+ * Records written by a reconcile (helpers/bundle.ts) are managed declaratively, the next reconcile undoes whatever was changed by hand.
+ * RECONCILE_MANUAL_CHANGES decides what happens to a PUT, PATCH or DELETE of one:
+ * allow lets it through, warn (the default) lets it through with a Warning header, block refuses it with code 1020.
+ */
+
+const warning = '299 - "Resource is managed declaratively, the next reconcile undoes this change"';
+
+const check: (req: Request, record: { managed?: boolean }) => void = (req, record) => {
+  if (!record.managed) return;
+  const mode = config.get().reconcile.manualChanges;
+  if (mode === 'block') {
+    throw new ConflictError(ErrorCodes.E1020, ErrorMessages.E1020);
+  }
+  // once, a bulk request may change several
+  if (mode === 'warn' && !req.res?.get('Warning')) {
+    req.res?.set('Warning', warning);
+  }
+};
+
+export default { check };
@@ -0,0 +1,176 @@
+import { isEmpty } from 'lodash';
+import { And, Equal, FindManyOptions, FindOperator, FindOptionsOrder, FindOptionsWhere, IsNull, LessThan, MoreThan, ObjectLiteral, Repository } from 'typeorm';
+import Joi, { message } from './joi.js';
+
+/*
+ * List routes page with ?page=&limit= by default, returning count and pages.
+ * Passing ?cursor= (empty for the first page) switches to keyset pagination instead:
+ * rows are ordered by the active sort with id as tie breaker and every response carries a next_cursor
+ * to continue right after the last row, so inserts and deletes in between don't shift the pages.
+ * The cursor keeps the sort it was created with. ?count=false skips the COUNT query in both modes.
+ */
+
+type Direction = 'asc' | 'desc';
+
+interface ICursor {
+  sort: { [column: string]: Direction };
+  // values of the sort columns followed by the id of the last row
+  values: unknown[];
+}
+
+interface IPaginateOptions {
+  limit: number;
+  cursor?: unknown;
+  count: boolean;
+  sort: { [column: string]: unknown };
+  columns: IFilterColumns;
+}
+
+const encode: (cursor: ICursor) => string = (cursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decode: (value: string, columns: IFilterColumns) => ICursor | undefined = (value, columns) => {
+  try {
+    const cursor: ICursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const keys = Object.keys(cursor.sort);
+    const valid =
+      keys.every((key) => (key === 'id' || !!columns[key]) && ['asc', 'desc'].includes(cursor.sort[key])) &&
+      Array.isArray(cursor.values) &&
+      cursor.values.length === keys.filter((key) => key !== 'id').length + 1;
+    return valid ? cursor : undefined;
+  } catch (err: unknown) {
+    return undefined;
+  }
+};
+
+/*
+ * Joi keys for the pagination options of the "q" object
+ */
+const schema: (columns: IFilterColumns) => { [key: string]: Joi.AnySchema } = (columns) => ({
+  cursor: Joi.string()
+    .allow('')
+    .custom((value, helpers) => (value === '' || decode(value, columns) ? value : helpers.error('any.invalid')))
+    .error(message('Please provide a valid cursor'))
+    .optional(),
+  count: Joi.boolean().error(message('Please provide a valid count')).optional(),
+});
+
+// relations are ordered and compared by their id
+const condition: (type: IFilterColumnType | undefined, operator: FindOperator<unknown>) => FindOperator<unknown> | { id: FindOperator<unknown> } = (type, operator) =>
+  type === 'relation' && operator.type !== 'isNull' ? { id: operator } : operator;
+
+const valueOf: (row: ObjectLiteral, column: string) => unknown = (row, column) => {
+  const value = row[column];
+  if (value && typeof value === 'object' && 'id' in value) return value.id;
+  return value ?? null;
+};
+
+/*
+ * The timestamps of a row as the text Postgres stores, a Date would drop the microseconds
+ * and shift them by the time zone of the process
+ */
+const timestampsOf = async <T extends ObjectLiteral>(repository: Repository<T>, row: T, keys: string[]): Promise<ObjectLiteral> => {
+  if (!keys.length) return {};
+  const query = repository.createQueryBuilder('record').select('record.id', 'id').withDeleted().where('record.id = :id', { id: row.id });
+  keys.forEach((key) => query.addSelect(`CAST(record.${key} AS text)`, key));
+  return (await query.getRawOne()) ?? {};
+};
+
+/*
+ * Where clauses (OR-ed) matching every row after the cursor, nulls are always sorted last
+ */
+const after = <T extends ObjectLiteral>(cursor: ICursor, columns: IFilterColumns): FindOptionsWhere<T>[] => {
+  const keys = Object.keys(cursor.sort).filter((key) => key !== 'id');
+  const equal: FindOptionsWhere<ObjectLiteral> = {};
+  const branches: FindOptionsWhere<ObjectLiteral>[] = [];
+
+  keys.forEach((key, index) => {
+    const value = cursor.values[index];
+    if (value !== null) {
+      const next = cursor.sort[key] === 'desc' ? LessThan(value) : MoreThan(value);
+      branches.push({ ...equal, [key]: condition(columns[key], next) });
+      branches.push({ ...equal, [key]: condition(columns[key], IsNull()) });
+    }
+    equal[key] = condition(columns[key], value === null ? IsNull() : Equal(value));
+  });
+
+  const id = cursor.values[keys.length];
+  branches.push({ ...equal, id: cursor.sort.id === 'desc' ? LessThan(id) : MoreThan(id) });
+  return branches as FindOptionsWhere<T>[];
+};
+
+const merge = <T extends ObjectLiteral>(where: FindOptionsWhere<T>, branch: FindOptionsWhere<T>): FindOptionsWhere<T> => {
+  const merged: FindOptionsWhere<ObjectLiteral> = { ...where };
+  Object.entries(branch).forEach(([column, value]) => {
+    const existing = merged[column];
+    if (existing instanceof FindOperator && value instanceof FindOperator) {
+      merged[column] = And(existing, value);
+    } else if (existing?.id instanceof FindOperator && value?.id instanceof FindOperator) {
+      merged[column] = { id: And(existing.id, value.id) };
+    } else {
+      merged[column] = value;
+    }
+  });
+  return merged as FindOptionsWhere<T>;
+};
+
+/*
+ * Runs the list query in page or cursor mode, see above
+ */
+const paginate = async <T extends ObjectLiteral>(
+  repository: Repository<T>,
+  query: FindManyOptions<T>,
+  options: IPaginateOptions
+): Promise<{ result: T[]; count?: number; pages?: number; next_cursor?: string | null }> => {
+  if (typeof options.cursor !== 'string') {
+    if (!options.count) return { result: await repository.find(query) };
+    const [result, count] = await repository.findAndCount(query);
+    return { result, count, pages: Math.ceil(count / options.limit) };
+  }
+
+  const current = options.cursor ? decode(options.cursor, options.columns) : undefined;
+  const sort: { [column: string]: Direction } = current?.sort ?? {};
+  if (!current) {
+    Object.entries(options.sort).forEach(([column, direction]) => {
+      sort[column] = direction === 'desc' ? 'desc' : 'asc';
+    });
+  }
+  const keys = Object.keys(sort).filter((key) => key !== 'id');
+
+  const order: FindOptionsOrder<ObjectLiteral> = {};
+  keys.forEach((key) => {
+    const direction = { direction: sort[key], nulls: 'LAST' };
+    order[key] = options.columns[key] === 'relation' ? { id: direction } : direction;
+  });
+  order.id = sort.id ?? 'asc';
+
+  const where = (query.where ?? {}) as FindOptionsWhere<T>;
+  const count = options.count ? await repository.count({ where: query.where, withDeleted: query.withDeleted }) : undefined;
+
+  // the sort columns are needed to build the next cursor, they are dropped again if not asked for
+  const select = query.select as { [column: string]: boolean } | undefined;
+  const added = isEmpty(select) ? [] : [...keys, 'id'].filter((key) => !select?.[key]);
+  if (select && added.length) {
+    query.select = { ...select, ...Object.fromEntries(added.map((key) => [key, true])) } as FindManyOptions<T>['select'];
+  }
+
+  delete query.skip;
+  query.take = options.limit + 1;
+  query.order = order as FindManyOptions<T>['order'];
+  if (current) {
+    query.where = after<T>(current, options.columns).map((branch) => merge(where, branch));
+  }
+
+  const rows = await repository.find(query);
+  const result = rows.slice(0, options.limit);
+  const last = result[result.length - 1];
+  let next_cursor: string | null = null;
+  if (rows.length > options.limit) {
+    const timestamps = await timestampsOf(repository, last, keys.filter((key) => options.columns[key] === 'date'));
+    next_cursor = encode({ sort, values: [...keys.map((key) => (key in timestamps ? timestamps[key] : valueOf(last, key))), last.id] });
+  }
+  result.forEach((row) => added.forEach((key) => delete row[key]));
+
+  return count === undefined ? { result, next_cursor } : { result, count, next_cursor };
+};
+
+export default { schema, paginate };
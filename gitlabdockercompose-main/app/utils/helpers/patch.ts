@@ -0,0 +1,128 @@
+import { Request } from 'express';
+import { has, isEqual, isPlainObject } from 'lodash';
+import Joi, { message } from './joi.js';
+import problem from './problem.js';
+import { ApiError, ConflictError, ValidationError } from '../errors.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+import { ErrorMessages } from '../../types/errors/messages.js';
+
+/*
+ * PATCH bodies, applied to the record in the shape a create takes (relations as ids).
+ * application/merge-patch+json (RFC 7396) replaces what it names and removes what it sets to null,
+ * application/json-patch+json (RFC 6902) runs add, remove, replace and test operations, array elements included.
+ * The caller validates the result like the body of a create.
+ */
+
+type Document = { [key: string]: unknown };
+
+const mergeSchema = Joi.object().keys({
+  b: Joi.object().required().error(message('Please provide a valid object for body')),
+});
+
+const operationsSchema = Joi.object().keys({
+  b: Joi.array()
+    .items(
+      Joi.object().keys({
+        op: Joi.string().valid('add', 'remove', 'replace', 'test').required().error(message('Please provide a valid op')),
+        path: Joi.string()
+          .pattern(/^(\/[^/]*)*$/)
+          .required()
+          .error(message('Please provide a valid path')),
+        value: Joi.any().when('op', { is: 'remove', then: Joi.forbidden(), otherwise: Joi.required() }).error(message('Please provide a valid value')),
+      }),
+    )
+    .required()
+    // .error() would replace the messages of the operations as well
+    .messages({ 'array.base': 'Please provide a valid array for body', 'any.required': 'Please provide a valid array for body' }),
+});
+
+const merge: (target: unknown, patch: unknown) => unknown = (target, patch) => {
+  if (!isPlainObject(patch)) return patch;
+  const result: Document = isPlainObject(target) ? { ...(target as Document) } : {};
+  Object.entries(patch as Document).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = merge(result[key], value);
+    }
+  });
+  return result;
+};
+
+// RFC 6901, ~1 is a / and ~0 a ~ within a name
+const parse: (pointer: string) => string[] = (pointer) =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+const indexOf: (token: string) => number = (token) => (/^(0|[1-9]\d*)$/.test(token) ? parseInt(token, 10) : NaN);
+
+const operate: (document: unknown, operation: IPatchOperation, index: number) => unknown = (document, operation, index) => {
+  const missing = new ValidationError([{ path: `body.${index}.path`, message: "Provided path doesn't exist", rule: 'patch.path' }]);
+  const test = (current: unknown) => {
+    if (!isEqual(current, operation.value)) throw new ConflictError(ErrorCodes.E1017, ErrorMessages.E1017, { path: operation.path });
+  };
+
+  const tokens = parse(operation.path);
+  const key = tokens.pop();
+  // the whole document
+  if (key === undefined) {
+    if (operation.op === 'remove') throw missing;
+    if (operation.op === 'test') {
+      test(document);
+      return document;
+    }
+    return operation.value;
+  }
+
+  let parent: unknown = document;
+  tokens.forEach((token) => {
+    if (Array.isArray(parent) && indexOf(token) < parent.length) {
+      parent = parent[indexOf(token)];
+    } else if (isPlainObject(parent) && has(parent, token)) {
+      parent = (parent as Document)[token];
+    } else {
+      throw missing;
+    }
+  });
+
+  if (Array.isArray(parent)) {
+    // - appends
+    const position = key === '-' && operation.op === 'add' ? parent.length : indexOf(key);
+    if (Number.isNaN(position) || position > parent.length || (operation.op !== 'add' && position === parent.length)) throw missing;
+    if (operation.op === 'add') parent.splice(position, 0, operation.value);
+    if (operation.op === 'remove') parent.splice(position, 1);
+    if (operation.op === 'replace') parent[position] = operation.value;
+    if (operation.op === 'test') test(parent[position]);
+    return document;
+  }
+
+  if (!isPlainObject(parent) || (operation.op !== 'add' && !has(parent, key))) throw missing;
+  const object = parent as Document;
+  if (operation.op === 'add' || operation.op === 'replace') object[key] = operation.value;
+  if (operation.op === 'remove') delete object[key];
+  if (operation.op === 'test') test(object[key]);
+  return document;
+};
+
+/*
+ * Applies the body of the request to a copy of the document, by its Content-Type.
+ * A failing test operation is a conflict (1017), a path that doesn't exist a validation error.
+ */
+const apply: <T extends object>(req: Request, document: T) => T = (req, document) => {
+  // as the client sees it, a relation without a record has no member at all
+  const source: unknown = JSON.parse(JSON.stringify(document));
+  if (req.is('application/merge-patch+json')) {
+    problem.validate(mergeSchema, { b: req.body });
+    return merge(source, req.body) as typeof document;
+  }
+  if (req.is('application/json-patch+json')) {
+    problem.validate(operationsSchema, { b: req.body });
+    const operations: IPatchOperation[] = req.body;
+    return operations.reduce((current: unknown, operation, index) => operate(current, operation, index), source) as typeof document;
+  }
+  throw new ApiError(ErrorCodes.E1018, ErrorMessages.E1018);
+};
+
+export default { apply };
@@ -0,0 +1,100 @@
+import { NextFunction, Request, Response } from 'express';
+import HttpStatus from 'http-status';
+import { ObjectSchema } from 'joi';
+import { ApiError, ValidationError } from '../errors.js';
+import status from './status.js';
+import i18n from './i18n.js';
+import logger from '../logger.js';
+import { Status } from '../../types/enums/Status.js';
+import { ErrorCodes } from '../../types/errors/codes.js';
+import { ErrorMessages } from '../../types/errors/messages.js';
+
+/*
+ * Route handlers throw the errors of utils/errors.ts, the middleware below answers with them.
+ * Legacy clients get HTTP 200 with { status: 'error', code, error }, the others an RFC 7807 application/problem+json body.
+ * The messages are translated on the way out (helpers/i18n.ts), the logs stay English.
+ */
+
+// the route schemas wrap their input in these keys
+const sources: { [key: string]: string } = { b: 'body', q: 'query', fields: 'X-API-Fields', sort: 'X-API-Sort' };
+
+/*
+ * Throws a ValidationError listing every failing field
+ */
+const validate: (schema: ObjectSchema, value: object) => void = (schema, value) => {
+  const { error } = schema.validate(value, { abortEarly: false });
+  if (!error) return;
+  throw new ValidationError(
+    error.details.map((detail) => {
+      const [source, ...path] = detail.path.map(String);
+      return { path: [sources[source] ?? source, ...path].join('.'), message: detail.message, rule: detail.type };
+    }),
+  );
+};
+
+/*
+ * Wraps an async route handler. An ApiError is passed on as it is,
+ * anything else is logged under the handler name and answered with the given code.
+ */
+const handle =
+  (name: string, code: ErrorCodes, message: ErrorMessages, handler: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction) =>
+    handler(req, res).catch((err: unknown) => {
+      if (err instanceof ValidationError) {
+        logger.info(`[${name}]`, err.message);
+        return next(err);
+      }
+      if (err instanceof ApiError) return next(err);
+
+      if (err instanceof Error) {
+        logger.error(`[${name}]`, err.message);
+      }
+      next(new ApiError(code, message));
+    });
+
+/*
+ * Title and detail of the error in the locale of the request, with the failing fields of a ValidationError
+ */
+const translate: (req: Request, err: ApiError) => { title: string; detail: string; errors?: IProblemError[] } = (req, err) => {
+  const title = i18n.error(req, err.code, err.title);
+  const errors = err instanceof ValidationError ? { errors: err.errors.map((error) => ({ ...error, message: i18n.validation(req, error) })) } : {};
+  const detail = errors.errors?.[0]?.message ?? (err.message === err.title ? title : err.message);
+  return { title, detail, ...errors };
+};
+
+const send = (req: Request, res: Response, err: ApiError, httpStatus: number = status.resolve(req, err.code)) => {
+  const { title, detail, ...errors } = translate(req, err);
+  if (!status.isStrict(req)) {
+    return res.status(HttpStatus.OK).send({ status: Status.ERROR, code: err.code, error: detail, ...errors, ...err.extensions });
+  }
+
+  const problem: IProblem = {
+    type: `urn:error:E${err.code}`,
+    title,
+    status: httpStatus,
+    detail,
+    instance: req.originalUrl,
+    code: err.code,
+    ...errors,
+    ...err.extensions,
+  };
+  res.status(httpStatus).type('application/problem+json').send(JSON.stringify(problem));
+};
+
+/*
+ * Registered after the routes, also answers malformed JSON bodies and errors nobody expected
+ */
+const middleware = (err: unknown, req: Request, res: Response, next: NextFunction) => {
+  // too late to answer with an error, Express closes the connection
+  if (res.headersSent) return next(err);
+  if (err instanceof ApiError) return send(req, res, err);
+
+  if ((err as { type?: string }).type === 'entity.parse.failed') {
+    return send(req, res, new ValidationError([{ path: 'body', message: 'Please provide a valid JSON body', rule: 'json.invalid' }]));
+  }
+
+  logger.error('[problem]', err instanceof Error ? err.message : err);
+  send(req, res, new ApiError(ErrorCodes.E1014, ErrorMessages.E1014));
+};
+
+export default { validate, handle, translate, send, middleware };
@@ -0,0 +1,64 @@
+import DB from '../connectors/typeorm.js';
+
+/*
+ * Search over names and short names of the configuration catalog.
+ * Every searchable table has two expression indexes on the same document (created by the baseline migration):
+ *  - a tsvector (GIN) index for word and prefix matches, e.g. "ubu" finds "Ubuntu 22.04"
+ *  - a trigram (GIN, pg_trgm) index for typos and partial words, e.g. "bangalor" finds "Bangalore"
+ * Words are OR-ed, so a query like "ubuntu 22 bangalore" ranks rows matching more words higher.
+ * Soft-deleted rows are never returned.
+ */
+
+interface ISearchSource {
+  kind: string;
+  table: string;
+  shortName: boolean;
+}
+
+// kind matches the route and permission resource of the entity
+const sources: ISearchSource[] = [
+  { kind: 'catalog', table: 'catalog', shortName: true },
+  { kind: 'ostemplate', table: 'os_template', shortName: false },
+  { kind: 'osfamily', table: 'os_family', shortName: true },
+  { kind: 'location', table: 'location', shortName: false },
+  { kind: 'size', table: 'size', shortName: false },
+  { kind: 'endpoint', table: 'endpoint', shortName: true },
+];
+
+const kinds = sources.map((source) => source.kind);
+
+// must stay identical to the indexed expression, otherwise postgres can't use the index (changing it needs a migration)
+const document = (source: ISearchSource) => (source.shortName ? `(coalesce("name", '') || ' ' || coalesce("shortName", ''))` : `coalesce("name", '')`);
+
+const vector = (source: ISearchSource) => `to_tsvector('simple', ${document(source)})`;
+
+const words: (q: string) => string[] = (q) => q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/*
+ * Ranked matches for q across the given kinds, best match first
+ */
+const find: (q: string, options: { kinds: string[]; limit: number }) => Promise<ISearchResult[]> = async (q, options) => {
+  const selected = sources.filter((source) => options.kinds.includes(source.kind));
+  const terms = words(q);
+  if (!selected.length || !terms.length) return [];
+
+  // prefix match on every word, e.g. ubuntu:* | 22:* | bangalore:*
+  const tsquery = terms.map((term) => `${term}:*`).join(' | ');
+  const text = terms.join(' ');
+
+  const queries = selected.map(
+    (source) => `
+      SELECT '${source.kind}' AS "kind", "id", "name", ${source.shortName ? '"shortName"' : 'NULL'} AS "shortName",
+        ts_rank(${vector(source)}, to_tsquery('simple', $1)) + word_similarity($2, ${document(source)}) AS "rank"
+      FROM "${source.table}"
+      WHERE "deletedAt" IS NULL AND (${vector(source)} @@ to_tsquery('simple', $1) OR $2 <% ${document(source)})`
+  );
+  const rows: ISearchResult[] = await DB.getDataStore().query(`${queries.join(' UNION ALL ')} ORDER BY "rank" DESC, "kind", "id" LIMIT $3`, [
+    tsquery,
+    text,
+    options.limit,
+  ]);
+  return rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+};
+
+export default { kinds, find };
@@ -0,0 +1,74 @@
+import path from 'path';
+import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import { omit } from 'lodash';
+import config from '../config.js';
+import bundle from './bundle.js';
+import { isTestEnv } from './test.js';
+import { ValidationError } from '../errors.js';
+
+/*
+ * Seed sets (seeds/<set>.yaml) are bundles (helpers/bundle.ts) with a name: baseline holds what every installation needs,
+ * demo a browsable catalog, test the records the specs point at. A set may include others (includes: [baseline]).
+ * Seeding imports the sets by natural key, so it can run again and again: what is missing is created, what differs is updated,
+ * records the sets don't mention are left alone. The sets of SEED_DIR are read over the bundled ones.
+ */
+
+const extensions = ['.yaml', '.yml', '.json'];
+
+const dirs: () => string[] = () => {
+  const bundled = isTestEnv() ? path.join(__dirname, '../../seeds') : path.join(__dirname, 'seeds');
+  const dir = config.get().seed.dir;
+  return dir ? [dir, bundled] : [bundled];
+};
+
+const files: () => { [set: string]: string } = () => {
+  const found: { [set: string]: string } = {};
+  dirs()
+    .reverse()
+    .filter((dir) => fs.existsSync(dir))
+    .forEach((dir) =>
+      fs
+        .readdirSync(dir)
+        .filter((file) => extensions.includes(path.extname(file)))
+        .forEach((file) => {
+          found[path.basename(file, path.extname(file))] = path.join(dir, file);
+        }),
+    );
+  return found;
+};
+
+const list: () => string[] = () => Object.keys(files()).sort();
+
+// the set after the sets it includes, each one once
+const resolve = (set: string, available: { [set: string]: string }, resolved: Map<string, IBundle>, including: string[] = []) => {
+  if (resolved.has(set)) return;
+  if (including.includes(set)) {
+    throw new Error(`Seed set ${set} includes itself through ${including.join(' > ')}`);
+  }
+  if (!available[set]) {
+    throw new Error(`Seed set ${set} doesn't exist, the available ones are ${Object.keys(available).sort().join(', ')}`);
+  }
+  const content = yaml.load(fs.readFileSync(available[set], 'utf8'), { schema: yaml.JSON_SCHEMA }) as IBundle & { includes?: string[] };
+  (content?.includes ?? []).forEach((included) => resolve(included, available, resolved, [...including, set]));
+  resolved.set(set, omit(content, 'includes') as IBundle);
+};
+
+/*
+ * Imports the sets and their includes in a single transaction, a later set wins over an earlier one
+ */
+const run: (sets: string[], options?: { dryRun?: boolean }) => Promise<IBundleChange[]> = async (sets, options = {}) => {
+  const available = files();
+  const resolved = new Map<string, IBundle>();
+  sets.forEach((set) => resolve(set, available, resolved));
+  try {
+    return await bundle.apply(bundle.merge([...resolved.values()]), { dryRun: !!options.dryRun });
+  } catch (err: unknown) {
+    if (err instanceof ValidationError) {
+      throw new Error(`Seed set(s) ${[...resolved.keys()].join(', ')} can't be applied: ${err.errors.map((error) => `${error.path} ${error.message}`).join(', ')}`);
+    }
+    throw err;
+  }
+};
+
+export default { list, run };
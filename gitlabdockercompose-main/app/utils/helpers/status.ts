@@ -0,0 +1,50 @@
+import { NextFunction, Request, Response } from 'express';
+import HttpStatus from 'http-status';
+import { ErrorCodes } from '../../types/errors/codes.js';
+
+/*
+ * Errors are sent as HTTP 200 with status: 'error' in the body, which is what DCManager relies on.
+ * A request with Accept-Version: 2, X-Status-Codes: http or Accept: application/problem+json gets
+ * the HTTP status matching the error code instead, with an application/problem+json body (helpers/problem.ts).
+ */
+
+const statuses: { [code: number]: number } = {
+  [ErrorCodes.E1001]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1002]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1003]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1004]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1005]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1006]: HttpStatus.NOT_FOUND,
+  [ErrorCodes.E1008]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1009]: HttpStatus.CONFLICT,
+  [ErrorCodes.E1010]: HttpStatus.CONFLICT,
+  [ErrorCodes.E1011]: HttpStatus.CONFLICT,
+  [ErrorCodes.E1014]: HttpStatus.INTERNAL_SERVER_ERROR,
+  [ErrorCodes.E1015]: HttpStatus.BAD_GATEWAY,
+  [ErrorCodes.E1016]: HttpStatus.CONFLICT,
+  [ErrorCodes.E1017]: HttpStatus.PRECONDITION_FAILED,
+  [ErrorCodes.E1018]: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+  [ErrorCodes.E1019]: HttpStatus.CONFLICT,
+  [ErrorCodes.E1020]: HttpStatus.CONFLICT,
+  [ErrorCodes.E1021]: HttpStatus.CONFLICT,
+};
+
+const isStrict: (req: Request) => boolean = (req) =>
+  parseInt(req.get('Accept-Version') ?? '', 10) >= 2 || req.get('X-Status-Codes') === 'http' || (req.get('Accept') ?? '').includes('application/problem+json');
+
+// an invalid body is 422, invalid parameters of a request without one are 400
+const resolve: (req: Request, code: number) => number = (req, code) => {
+  if (code === ErrorCodes.E1007) return ['POST', 'PUT', 'PATCH'].includes(req.method) ? HttpStatus.UNPROCESSABLE_ENTITY : HttpStatus.BAD_REQUEST;
+  if (code === ErrorCodes.E401) return req.user ? HttpStatus.FORBIDDEN : HttpStatus.UNAUTHORIZED;
+  return statuses[code] ?? HttpStatus.INTERNAL_SERVER_ERROR;
+};
+
+// the same URL answers differently depending on these, caches must keep them apart
+const middleware = (_: Request, res: Response, next: NextFunction) => {
+  res.vary('Accept-Version');
+  res.vary('X-Status-Codes');
+  res.vary('Accept');
+  next();
+};
+
+export default { middleware, isStrict, resolve };
@@ -1,5 +1,69 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
 const isTestEnv: () => boolean = () => {
   return process.env.NODE_ENV === 'test';
 };
 
-export { isTestEnv };
+/*
+ * Throwaway key pair of the specs, its public key is exported via AUTH_PUBLIC_KEY so permit can verify the tokens offline.
+ * It is set up when this module loads, config.ts imports it and so reads the key with the rest of the environment.
+ */
+let testKeyPair: crypto.KeyPairKeyObjectResult | undefined;
+if (isTestEnv()) {
+  testKeyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  delete process.env.AUTH_JWKS_FILE;
+  delete process.env.AUTH_PUBLIC_KEY_FILE;
+  delete process.env.AUTH_ISSUER;
+  delete process.env.AUTH_AUDIENCE;
+  process.env.AUTH_PUBLIC_KEY = testKeyPair.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/*
+ * Signs a bearer token for the specs with the throwaway key pair
+ */
+const signTestToken: (roles: string[], sub?: string) => string = (roles, sub = 'a023ff8b-cc37-4495-8ea4-258d2ffdc3f0') => {
+  if (!testKeyPair) {
+    throw new Error('Test tokens are only signed with NODE_ENV=test');
+  }
+  const token = jwt.sign({ realm_access: { roles } }, testKeyPair.privateKey, { algorithm: 'RS256', subject: sub, expiresIn: '1h' });
+  return `Bearer ${token}`;
+};
+
+/*
+ * Local stand-in for the vCenter REST API, serves the given inventory to the given credentials
+ */
+const mockVSphere: (credentials: { username: string; password: string }, inventory: IVSphereInventory) => express.Express = (credentials, inventory) => {
+  const app = express();
+  const sessionId = crypto.randomBytes(16).toString('hex');
+  const expected = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+
+  app.post('/api/session', (req, res) => {
+    if (req.get('Authorization') !== expected) return res.status(401).json({ error_type: 'UNAUTHENTICATED' });
+    res.status(201).json(sessionId);
+  });
+  app.delete('/api/session', (_, res) => res.status(204).end());
+  app.use('/api/vcenter', (req, res, next) => {
+    if (req.get('vmware-api-session-id') !== sessionId) return res.status(401).json({ error_type: 'UNAUTHENTICATED' });
+    next();
+  });
+  app.get('/api/vcenter/cluster', (_, res) => res.json(inventory.clusters.map((c) => ({ cluster: c.id, name: c.name }))));
+  app.get('/api/vcenter/datacenter', (_, res) => res.json(inventory.datacenters.map((d) => ({ datacenter: d.id, name: d.name }))));
+  app.get('/api/vcenter/network', (_, res) => res.json(inventory.networks.map((n) => ({ network: n.id, name: n.name, type: 'STANDARD_PORTGROUP' }))));
+  app.use('/api/content', (req, res, next) => {
+    if (req.get('vmware-api-session-id') !== sessionId) return res.status(401).json({ error_type: 'UNAUTHENTICATED' });
+    next();
+  });
+  app.get('/api/content/library', (_, res) => res.json(['library-1']));
+  app.get('/api/content/library/item', (_, res) => res.json(inventory.templates.map((t) => t.id)));
+  app.get('/api/content/library/item/:itemId', (req, res) => {
+    const template = inventory.templates.find((t) => t.id === req.params.itemId);
+    if (!template) return res.status(404).json({ error_type: 'NOT_FOUND' });
+    res.json({ id: template.id, name: template.name, type: 'vm-template' });
+  });
+
+  return app;
+};
+
+export { isTestEnv, signTestToken, mockVSphere };
@@ -0,0 +1,161 @@
+import DB from '../connectors/typeorm.js';
+import vsphere from '../connectors/vsphere.js';
+import logger from '../logger.js';
+import config from '../config.js';
+import { Endpoint } from '../../models/endpoint.js';
+import { Location } from '../../models/location.js';
+import { OsTemplate } from '../../models/osTemplate.js';
+import { EndpointDrift } from '../../models/endpointDrift.js';
+
+/*
+ * Pulls clusters, networks and templates from every endpoint and compares them with what is stored.
+ * Depending on INVENTORY_SYNC_MODE the differences are either applied right away ("apply")
+ * or kept as a pending drift report ("report", default) to be reviewed at GET /endpoint/:id/drift.
+ * INVENTORY_SYNC_INTERVAL is in seconds, the job is disabled when it is unset or 0.
+ */
+
+const diff: (stored: string[], discovered: string[]) => IInventoryDriftChange = (stored, discovered) => ({
+  added: discovered.filter((value) => !stored.includes(value)),
+  removed: stored.filter((value) => !discovered.includes(value)),
+});
+
+const patch: (stored: string[], change: IInventoryDriftChange) => string[] = (stored, change) => [
+  ...stored.filter((value) => !change.removed.includes(value)),
+  ...change.added.filter((value) => !stored.includes(value)),
+];
+
+const hasDrift: (report: IInventoryDriftReport) => boolean = (report) =>
+  report.clusters.added.length > 0 ||
+  report.clusters.removed.length > 0 ||
+  report.locations.some((location) => location.added.length > 0 || location.removed.length > 0) ||
+  report.missingTemplates.length > 0 ||
+  report.unavailableNetworkTemplates.length > 0;
+
+const buildReport: (endpoint: Endpoint, inventory: IVSphereInventory) => Promise<IInventoryDriftReport> = async (endpoint, inventory) => {
+  const networks = inventory.networks.map((network) => network.name);
+  const templateRefs = inventory.templates.flatMap((template) => [template.id, template.name]);
+
+  const locations = await DB.getDataStore()
+    .getRepository(Location)
+    .find({ where: { endpoint: { id: endpoint.id } } });
+  const osTemplates = await DB.getDataStore()
+    .getRepository(OsTemplate)
+    .find({ where: { location: { endpoint: { id: endpoint.id } } }, relations: { location: true } });
+
+  const locationChanges = locations.map((location) => ({ id: location.id, name: location.name, ...diff(location.availableNetworks, networks) }));
+  const removedNetworks = (locationId: number) => locationChanges.find((location) => location.id === locationId)?.removed ?? [];
+
+  return {
+    clusters: diff(endpoint.availableClusters, inventory.clusters.map((cluster) => cluster.name)),
+    locations: locationChanges,
+    missingTemplates: osTemplates
+      .filter((osTemplate) => !templateRefs.includes(osTemplate.templateId))
+      .map((osTemplate) => ({ id: osTemplate.id, name: osTemplate.name, templateId: osTemplate.templateId })),
+    unavailableNetworkTemplates: osTemplates
+      .filter((osTemplate) => removedNetworks(osTemplate.location.id).includes(osTemplate.availableNetwork))
+      .map((osTemplate) => ({ id: osTemplate.id, name: osTemplate.name, availableNetwork: osTemplate.availableNetwork })),
+  };
+};
+
+/*
+ * Applies a drift report to the endpoint and its locations in a single transaction,
+ * templates of the touched locations are flagged when their network is no longer available
+ */
+const applyDrift: (drift: EndpointDrift, userId?: string) => Promise<EndpointDrift> = async (drift, userId) => {
+  await DB.getDataStore().transaction(async (manager) => {
+    const endpoint = await manager.getRepository(Endpoint).findOneByOrFail({ id: drift.endpoint.id });
+    endpoint.availableClusters = patch(endpoint.availableClusters, drift.report.clusters);
+    endpoint.updatedBy = userId ?? endpoint.updatedBy;
+    await manager.getRepository(Endpoint).save(endpoint);
+
+    for (const change of drift.report.locations) {
+      const location = await manager.getRepository(Location).findOneBy({ id: change.id });
+      if (location) {
+        location.availableNetworks = patch(location.availableNetworks, change);
+        location.updatedBy = userId ?? location.updatedBy;
+        await manager.getRepository(Location).save(location);
+
+        const osTemplates = await manager.getRepository(OsTemplate).find({ where: { location: { id: location.id } } });
+        for (const osTemplate of osTemplates) {
+          const networkUnavailable = !location.availableNetworks.includes(osTemplate.availableNetwork);
+          if (osTemplate.networkUnavailable !== networkUnavailable) {
+            osTemplate.networkUnavailable = networkUnavailable;
+            await manager.getRepository(OsTemplate).save(osTemplate);
+          }
+        }
+      }
+    }
+
+    drift.status = 'applied';
+    drift.updatedBy = userId ?? drift.updatedBy;
+    await manager.getRepository(EndpointDrift).save(drift);
+  });
+  return drift;
+};
+
+/*
+ * Syncs a single endpoint, the latest drift report of the endpoint is replaced
+ */
+const syncEndpoint: (endpointId: number, apply: boolean, userId?: string) => Promise<EndpointDrift | null> = async (endpointId, apply, userId) => {
+  const EndpointRepository = DB.getDataStore().getRepository(Endpoint);
+  const endpoint = await EndpointRepository.createQueryBuilder('endpoint').addSelect('endpoint.password').where('endpoint.id = :id', { id: endpointId }).getOne();
+  if (!endpoint) return null;
+
+  const inventory = await vsphere.discover(endpoint);
+  const report = await buildReport(endpoint, inventory);
+
+  const EndpointDriftRepository = DB.getDataStore().getRepository(EndpointDrift);
+  const drift = (await EndpointDriftRepository.findOne({ where: { endpoint: { id: endpointId } }, relations: { endpoint: true } })) ?? new EndpointDrift();
+  drift.endpoint = endpoint;
+  drift.report = report;
+  drift.status = hasDrift(report) ? 'pending' : 'in-sync';
+  drift.updatedBy = userId ?? drift.updatedBy;
+  await EndpointDriftRepository.save(drift);
+
+  if (apply && drift.status === 'pending') {
+    return applyDrift(drift, userId);
+  }
+  return drift;
+};
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+const run = async () => {
+  // skip a tick instead of piling up when a sync takes longer than the interval
+  if (running) return;
+  running = true;
+  const apply = config.get().inventorySync.mode === 'apply';
+  try {
+    const endpoints = await DB.getDataStore().getRepository(Endpoint).find({ select: { id: true } });
+    for (const endpoint of endpoints) {
+      try {
+        const drift = await syncEndpoint(endpoint.id, apply);
+        logger.info('[inventorySync]', endpoint.id, drift?.status);
+      } catch (err: unknown) {
+        logger.error('[inventorySync]', endpoint.id, vsphere.errorMessage(err));
+      }
+    }
+  } catch (err: unknown) {
+    if (err instanceof Error) {
+      logger.error('[inventorySync]', err.message);
+    }
+  } finally {
+    running = false;
+  }
+};
+
+const start = () => {
+  const { interval } = config.get().inventorySync;
+  if (!interval || timer) return;
+  timer = setInterval(run, interval * 1000);
+  // don't keep the process alive just for the sync
+  timer.unref();
+};
+
+const stop = () => {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+};
+
+export default { start, stop, run, syncEndpoint, applyDrift };
@@ -0,0 +1,80 @@
+import { EntityTarget, LessThan, ObjectLiteral } from 'typeorm';
+import DB from '../connectors/typeorm.js';
+import logger from '../logger.js';
+import config from '../config.js';
+import upload from '../helpers/upload.js';
+import { Catalog } from '../../models/catalog.js';
+import { OsTemplate } from '../../models/osTemplate.js';
+import { ApprovalPolicy } from '../../models/approvalPolicy.js';
+import { OsFamily } from '../../models/osFamily.js';
+import { Location } from '../../models/location.js';
+import { Endpoint } from '../../models/endpoint.js';
+import { Size } from '../../models/size.js';
+import { OsLanguage } from '../../models/osLanguage.js';
+
+/*
+ * Purges records that were soft deleted more than RETENTION_DAYS ago, the job is disabled when it is unset or 0.
+ * It runs every RETENTION_INTERVAL seconds (daily by default).
+ * Entities are purged from the referencing side first (catalogs before their templates and so on),
+ * a record that is still referenced by a live one is kept and retried on the next run.
+ * The icon of a purged catalog is removed along with it.
+ */
+
+const entities: EntityTarget<ObjectLiteral>[] = [Catalog, OsTemplate, ApprovalPolicy, OsFamily, Location, Endpoint, Size, OsLanguage];
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+const purge: (days: number) => Promise<number> = async (days) => {
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  let purged = 0;
+  for (const entity of entities) {
+    const repository = DB.getDataStore().getRepository(entity);
+    const select = entity === Catalog ? { id: true, icon: true } : { id: true };
+    const rows = await repository.find({ select, where: { deletedAt: LessThan(cutoff) }, withDeleted: true });
+    for (const row of rows) {
+      try {
+        await repository.remove(row);
+        purged += 1;
+        if (row.icon) {
+          upload.cleanUp([row.icon]);
+        }
+      } catch (err: unknown) {
+        if (err instanceof Error) {
+          logger.info('[retention]', repository.metadata.tableName, row.id, err.message);
+        }
+      }
+    }
+  }
+  return purged;
+};
+
+const run = async () => {
+  if (running) return;
+  running = true;
+  try {
+    const purged = await purge(config.get().retention.days);
+    logger.info('[retention]', purged);
+  } catch (err: unknown) {
+    if (err instanceof Error) {
+      logger.error('[retention]', err.message);
+    }
+  } finally {
+    running = false;
+  }
+};
+
+const start = () => {
+  const { days, interval } = config.get().retention;
+  if (!days || !interval || timer) return;
+  timer = setInterval(run, interval * 1000);
+  // don't keep the process alive just for the purge
+  timer.unref();
+};
+
+const stop = () => {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+};
+
+export default { start, stop, run, purge };
@@ -0,0 +1,15 @@
+import { Baseline1792402200000 } from '../migrations/1792402200000-Baseline.js';
+import { EntityVersion1792488600000 } from '../migrations/1792488600000-EntityVersion.js';
+import { ManagedRecords1792575000000 } from '../migrations/1792575000000-ManagedRecords.js';
+/* inject: migration-import */
+
+// in the order they were created, `yarn migrate generate <Name>` adds new ones here
+// eslint-disable-next-line prettier/prettier
+const migrations = [
+  Baseline1792402200000,
+  EntityVersion1792488600000,
+  ManagedRecords1792575000000,
+/* inject: migration-define */
+];
+
+export default migrations;
@@ -0,0 +1,95 @@
+import { EntityManager, EntityMetadata, EventSubscriber, EntitySubscriberInterface, InsertEvent, ObjectLiteral, RemoveEvent, UpdateEvent } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata.js';
+import context from '../helpers/context.js';
+import { AuditLog } from '../../models/auditLog.js';
+
+/*
+ * Writes an audit_log row for every create, update, delete, restore and purge of the audited entities,
+ * in the same transaction as the change itself. The actor, request id and source IP come from the request being served
+ * and are empty for background jobs.
+ * Only changes made through entities are seen (save, softRemove, recover, remove), bulk updates by id are not.
+ */
+
+// a kind matches the route and permission resource of the entity
+const kinds = ['size', 'oslanguage', 'osfamily', 'location', 'endpoint', 'approvalpolicy', 'ostemplate', 'catalog'];
+
+// bookkeeping columns, already covered by the entry itself
+const ignored = ['id', 'createdBy', 'updatedBy', 'deletedBy', 'createdAt', 'updatedAt', 'deletedAt', 'version'];
+
+// recorded as changed, without their values
+const secret = ['password'];
+
+const kindOf: (metadata: EntityMetadata) => string | undefined = (metadata) => {
+  // the kind of an entity is its class name in lower case
+  const kind = metadata.targetName.toLowerCase();
+  return kinds.includes(kind) ? kind : undefined;
+};
+
+const valueOf: (column: ColumnMetadata, entity: ObjectLiteral | undefined) => unknown = (column, entity) => {
+  const value = entity ? column.getEntityValue(entity) : undefined;
+  if (value !== undefined && value !== null && secret.includes(column.propertyName)) return '[redacted]';
+  return value ?? null;
+};
+
+const diff: (columns: ColumnMetadata[], before: ObjectLiteral | undefined, after: ObjectLiteral | undefined) => IAuditChanges = (columns, before, after) => {
+  const changes: IAuditChanges = {};
+  columns
+    .filter((column) => !ignored.includes(column.propertyName))
+    .forEach((column) => {
+      changes[column.propertyName] = { from: valueOf(column, before), to: valueOf(column, after) };
+    });
+  return changes;
+};
+
+const record: (manager: EntityManager, entity: string, entityId: number, action: IAuditLog['action'], changes: IAuditChanges) => Promise<void> = async (
+  manager,
+  entity,
+  entityId,
+  action,
+  changes
+) => {
+  const { requestId, ip, userId } = context.get();
+  const AuditLogRepository = manager.getRepository(AuditLog);
+  await AuditLogRepository.save(AuditLogRepository.create({ entity, entityId, action, changes, actor: userId, requestId, ip }));
+};
+
+// registered through the subscribers of the data source, which only takes decorated classes
+@EventSubscriber()
+export class AuditSubscriber implements EntitySubscriberInterface {
+  static readonly kinds = kinds;
+
+  async afterInsert(event: InsertEvent<ObjectLiteral>) {
+    const kind = kindOf(event.metadata);
+    if (!kind || !event.entity?.id) return;
+    const columns = event.metadata.columns.filter((column) => column.getEntityValue(event.entity) !== undefined);
+    await record(event.manager, kind, event.entity.id, 'create', diff(columns, undefined, event.entity));
+  }
+
+  async afterUpdate(event: UpdateEvent<ObjectLiteral>) {
+    const kind = kindOf(event.metadata);
+    // updates without the loaded entity come from the query builder, there is nothing to compare
+    if (!kind || !event.databaseEntity) return;
+    const columns = [...event.updatedColumns, ...event.updatedRelations.flatMap((relation) => relation.joinColumns)];
+    const changes = diff(columns, event.databaseEntity, event.entity);
+    if (!Object.keys(changes).length) return;
+    await record(event.manager, kind, event.databaseEntity.id, 'update', changes);
+  }
+
+  async afterSoftRemove(event: RemoveEvent<ObjectLiteral>) {
+    const kind = kindOf(event.metadata);
+    if (!kind || !event.databaseEntity) return;
+    await record(event.manager, kind, event.databaseEntity.id, 'delete', {});
+  }
+
+  async afterRecover(event: RemoveEvent<ObjectLiteral>) {
+    const kind = kindOf(event.metadata);
+    if (!kind || !event.databaseEntity) return;
+    await record(event.manager, kind, event.databaseEntity.id, 'restore', {});
+  }
+
+  async afterRemove(event: RemoveEvent<ObjectLiteral>) {
+    const kind = kindOf(event.metadata);
+    if (!kind || !event.databaseEntity) return;
+    await record(event.manager, kind, event.databaseEntity.id, 'purge', {});
+  }
+}
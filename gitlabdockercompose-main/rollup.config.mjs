@@ -5,21 +5,52 @@ import copy from 'rollup-plugin-copy';
 
 const isProd = process.env.NODE_ENV === 'production';
 
-export default {
-  input: 'app/index.ts',
-  output: {
-    file: 'dist/server.js',
-    format: 'cjs',
+export default [
+  {
+    input: 'app/index.ts',
+    output: {
+      file: 'dist/server.js',
+      format: 'cjs',
+    },
+    plugins: [
+      typescript(),
+      isProd ? terser() : run(),
+      copy({
+        targets: [
+          { src: 'app/assets', dest: 'dist/' },
+          { src: 'app/locales', dest: 'dist/' },
+          { src: 'app/seeds', dest: 'dist/' },
+          { src: 'app/.env', dest: 'dist/' },
+          { src: 'package.json', dest: 'dist/' },
+        ],
+      }),
+    ],
   },
-  plugins: [
-    typescript(),
-    isProd ? terser() : run(),
-    copy({
-      targets: [
-        { src: 'app/assets', dest: 'dist/' },
-        { src: 'app/.env', dest: 'dist/' },
-        { src: 'package.json', dest: 'dist/' },
-      ],
-    }),
-  ],
-};
+  {
+    // yarn migrate <show|run|revert|generate>
+    input: 'app/cli/migrate.ts',
+    output: {
+      file: 'dist/migrate.js',
+      format: 'cjs',
+    },
+    plugins: [typescript(), isProd && terser()],
+  },
+  {
+    // yarn reconcile <directory|file> [--apply]
+    input: 'app/cli/reconcile.ts',
+    output: {
+      file: 'dist/reconcile.js',
+      format: 'cjs',
+    },
+    plugins: [typescript(), isProd && terser()],
+  },
+  {
+    // yarn seed <list|set...> [--dry-run]
+    input: 'app/cli/seed.ts',
+    output: {
+      file: 'dist/seed.js',
+      format: 'cjs',
+    },
+    plugins: [typescript(), isProd && terser()],
+  },
+];
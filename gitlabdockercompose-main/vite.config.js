@@ -4,6 +4,8 @@ import swc from 'unplugin-swc';
 
 export default defineConfig({
   test: {
+    // DB.init() retries with backoff before giving up
+    hookTimeout: 60000,
     coverage: {
       provider: 'istanbul',
       reporter: ['text', 'json', 'html'],